@@ -0,0 +1,130 @@
+// Paste Reformatter - A plugin that re-formats pasted HTML text in Obsidian.
+// Copyright (C) 2025 by Keath Milligan.
+
+import { moment } from 'obsidian';
+import { detectClipboardSource } from './profiles';
+
+export type AttributionPosition = 'before' | 'after';
+
+/**
+ * How the source of pasted content is recorded
+ */
+export interface AttributionOptions {
+    template: string; // The text to insert, with {{url}}, {{title}}, {{domain}}, {{date}} and {{time}}; empty to insert nothing
+    position: AttributionPosition; // Whether the text is inserted before or after the pasted content
+    dateFormat: string; // The moment.js format of {{date}}
+    property: string; // The frontmatter property to record the source URL in; empty to leave the frontmatter alone
+}
+
+export const DEFAULT_ATTRIBUTION_TEMPLATE = '> Source: [{{title}}]({{url}}), retrieved {{date}}';
+
+// The format of {{time}} when the template doesn't give one
+const DEFAULT_TIME_FORMAT = 'HH:mm';
+
+/**
+ * The page pasted content was copied from
+ */
+export interface PasteSource {
+    url: string;
+    title: string | null; // The page title, if the clipboard HTML includes it
+}
+
+/**
+ * Finds the page clipboard HTML was copied from, using the URL the browser recorded and
+ * the page's <title> or Open Graph title
+ * @param html The raw clipboard HTML
+ * @returns The source, or null if the browser did not record the page URL
+ */
+export function pasteSource(html: string): PasteSource | null {
+    const { sourceUrl } = detectClipboardSource(html);
+    if (!sourceUrl) {
+        return null;
+    }
+    const doc = new DOMParser().parseFromString(html, 'text/html');
+    const title = doc.title.trim() || doc.querySelector('meta[property="og:title"]')?.getAttribute('content')?.trim() || null;
+    return { url: sourceUrl, title };
+}
+
+/**
+ * Fills in an attribution template. Unknown variables are left as they are.
+ * {{date}} and {{time}} accept a moment.js format, e.g. {{date:D MMMM YYYY}}.
+ * @param template The template
+ * @param source The page the content was copied from
+ * @param dateFormat The format of {{date}} when the template doesn't give one
+ * @param now The time of the paste
+ * @returns The attribution text
+ */
+export function renderAttribution(template: string, source: PasteSource, dateFormat: string, now: Date = new Date()): string {
+    const domain = urlDomain(source.url);
+    return template.replace(/\{\{\s*(\w+)(?::([^}]*))?\s*\}\}/g, (match, name: string, format: string | undefined) => {
+        switch (name.toLowerCase()) {
+            case 'url':
+                // Spaces and parentheses would end a Markdown link
+                return source.url.replace(/ /g, '%20').replace(/\(/g, '%28').replace(/\)/g, '%29');
+            case 'title':
+                return (source.title ?? domain).replace(/([[\]])/g, '\\$1');
+            case 'domain':
+                return domain;
+            case 'date':
+                return moment(now).format(format?.trim() || dateFormat);
+            case 'time':
+                return moment(now).format(format?.trim() || DEFAULT_TIME_FORMAT);
+            default:
+                return match;
+        }
+    });
+}
+
+/**
+ * Inserts the attribution of pasted content
+ * @param markdown The pasted content
+ * @param options The attribution settings
+ * @param source The page the content was copied from
+ * @returns The content with the attribution, separated from it by a blank line
+ */
+export function addAttribution(markdown: string, options: AttributionOptions, source: PasteSource): string {
+    const attribution = renderAttribution(options.template, source, options.dateFormat).trim();
+    const content = markdown.replace(/\s+$/, '');
+    if (attribution === '') {
+        return markdown;
+    } else if (content.trim() === '') {
+        return attribution;
+    }
+    return options.position === 'before' ? `${attribution}\n\n${content}` : `${content}\n\n${attribution}`;
+}
+
+/**
+ * Adds a property to the frontmatter of a note. Existing values are never replaced, so
+ * the property keeps recording the first source pasted into the note.
+ * @param frontmatter The frontmatter of the note, including its closing line break, or an empty string if it has none
+ * @param property The name of the property
+ * @param value The value of the property
+ * @returns The new frontmatter, or null if the note already has the property
+ */
+export function addFrontmatterProperty(frontmatter: string, property: string, value: string): string | null {
+    const line = `${property}: ${yamlString(value)}`;
+    if (frontmatter === '') {
+        return `---\n${line}\n---\n`;
+    }
+    const name = property.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    if (new RegExp(`^(${name}|"${name}"|'${name}')[ \\t]*:`, 'm').test(frontmatter)) {
+        return null;
+    }
+    const closing = frontmatter.lastIndexOf('---');
+    return `${frontmatter.substring(0, closing)}${line}\n${frontmatter.substring(closing)}`;
+}
+
+/**
+ * Quotes a YAML scalar if it would otherwise be read as something other than a plain string
+ */
+function yamlString(value: string): string {
+    return /^[\s[\]{}&*!|>'"%@`#,?:-]|: | #|\s$|^$/.test(value) ? JSON.stringify(value) : value;
+}
+
+function urlDomain(url: string): string {
+    try {
+        return new URL(url).hostname.replace(/^www\./, '');
+    } catch {
+        return url;
+    }
+}
@@ -0,0 +1,232 @@
+// Paste Reformatter - A plugin that re-formats pasted HTML text in Obsidian.
+// Copyright (C) 2025 by Keath Milligan.
+
+import { addToken } from './conversionTokens';
+
+/**
+ * Maps a class of pasted HTML elements to an Obsidian callout type
+ */
+export interface CalloutClassMapping {
+    className: string; // The class of an admonition, matched case-insensitively; it also matches the end of a class after a dash
+    callout: string; // The callout type, e.g. warning
+}
+
+/**
+ * How admonitions and styled blocks are converted into callouts
+ */
+export interface CalloutOptions {
+    classMap: CalloutClassMapping[]; // Checked in order for each class of an element
+}
+
+export const DEFAULT_CALLOUT_CLASSES: CalloutClassMapping[] = [
+    { className: 'note', callout: 'note' },
+    { className: 'info', callout: 'info' },
+    { className: 'information', callout: 'info' },
+    { className: 'seealso', callout: 'info' },
+    { className: 'tip', callout: 'tip' },
+    { className: 'hint', callout: 'tip' },
+    { className: 'important', callout: 'important' },
+    { className: 'success', callout: 'success' },
+    { className: 'question', callout: 'question' },
+    { className: 'warning', callout: 'warning' },
+    { className: 'caution', callout: 'caution' },
+    { className: 'attention', callout: 'warning' },
+    { className: 'danger', callout: 'danger' },
+    { className: 'error', callout: 'error' },
+    { className: 'bug', callout: 'bug' },
+    { className: 'example', callout: 'example' },
+    { className: 'todo', callout: 'todo' },
+    { className: 'abstract', callout: 'abstract' },
+    { className: 'summary', callout: 'summary' },
+    { className: 'quote', callout: 'quote' }
+];
+
+// The type of admonitions whose classes don't map to one
+const DEFAULT_CALLOUT_TYPE = 'note';
+
+// Admonitions: MkDocs and Sphinx admonitions, Docusaurus admonitions, GitHub alerts, Bootstrap
+// alerts, Confluence info macros, Obsidian's own callouts and elements with the note role. Their
+// classes give the callout type; classes of other elements, such as <div class="error">, are
+// ordinary page markup and are ignored.
+const ADMONITION_SELECTOR = '.admonition, .theme-admonition, .markdown-alert, .alert, .confluence-information-macro, .callout, [role="note"]';
+
+// Elements that end the title line of a blockquote marker
+const BLOCK_SELECTOR = 'p, div, ul, ol, pre, blockquote, table';
+
+// The first child of an admonition that holds its title
+const TITLE_SELECTOR = 'h1, h2, h3, h4, h5, h6, summary, [class*="title"], [class*="Title"], [class*="heading"], [class*="Heading"]';
+
+// Icons shown next to the title or at the start of the admonition
+const ICON_SELECTOR = 'svg, [class*="icon"], [class*="Icon"]';
+
+// A GitHub alert or callout written as text at the start of a blockquote, e.g. [!NOTE] or [!tip]- Title
+const MARKER_REGEX = /^\s*\[!([\w-]+)\]([+-]?)[ \t]*/;
+
+/**
+ * Converts admonitions and blockquotes starting with a [!TYPE] marker
+ * into blockquotes that become Obsidian callouts, keeping their nested content. The callout
+ * marker is passed through conversion as a token, so it is not escaped.
+ * @param doc The parsed HTML document to modify
+ * @param options The class mapping to use
+ * @param tokens The token values for the current paste (see addToken)
+ * @returns true if any callouts were created
+ */
+export function convertCallouts(doc: Document, options: CalloutOptions, tokens: string[]): boolean {
+    let changed = false;
+
+    // Outer elements are converted first; their content moves into the new blockquote
+    // and is converted when the loop reaches it
+    const elements = Array.from(doc.querySelectorAll(`${ADMONITION_SELECTOR}, blockquote`));
+    for (const element of elements) {
+        // Titles and icons of converted admonitions are removed
+        if (!element.isConnected) {
+            continue;
+        }
+
+        if (element.matches(ADMONITION_SELECTOR)) {
+            const type = element.getAttribute('data-callout') || calloutType(element, options.classMap) || DEFAULT_CALLOUT_TYPE;
+            replaceWithCallout(element, mapCalloutType(type, options.classMap), '', admonitionTitle(element), tokens);
+            changed = true;
+        } else if (convertMarkedBlockquote(element, options.classMap, tokens)) {
+            changed = true;
+        }
+    }
+
+    return changed;
+}
+
+/**
+ * Parses the class mapping as edited in settings, one "class: callout" pair per line
+ * @param text The mapping text
+ * @returns The mapping; lines without a class or callout type are skipped
+ */
+export function parseCalloutClasses(text: string): CalloutClassMapping[] {
+    return text.split('\n')
+        .map(line => line.split(':').map(part => part.trim()))
+        .filter(([className, callout]) => className && callout)
+        .map(([className, callout]) => ({ className, callout }));
+}
+
+/**
+ * Formats the class mapping for editing in settings
+ * @param classMap The mapping
+ * @returns One "class: callout" pair per line
+ */
+export function formatCalloutClasses(classMap: CalloutClassMapping[]): string {
+    return classMap.map(mapping => `${mapping.className}: ${mapping.callout}`).join('\n');
+}
+
+/**
+ * Finds the callout type of an admonition from its classes. A mapped class also matches the
+ * end of a class after a dash, e.g. warning matches admonition-warning.
+ * @param element The admonition
+ * @param classMap The class mapping
+ * @returns The callout type of the first mapped class, or null if no class is mapped
+ */
+function calloutType(element: Element, classMap: CalloutClassMapping[]): string | null {
+    for (const className of Array.from(element.classList).map(name => name.toLowerCase())) {
+        const mapping = classMap.find(m => {
+            const mapped = m.className.toLowerCase();
+            return className === mapped || className.endsWith(`-${mapped}`);
+        });
+        if (mapping) {
+            return mapping.callout;
+        }
+    }
+    return null;
+}
+
+/**
+ * Maps a callout type found in the content, such as GitHub's [!HINT], through the class mapping
+ */
+function mapCalloutType(type: string, classMap: CalloutClassMapping[]): string {
+    const name = type.toLowerCase();
+    return classMap.find(mapping => mapping.className.toLowerCase() === name)?.callout ?? name;
+}
+
+/**
+ * Removes the title element of an admonition, along with its icons
+ * @param element The admonition
+ * @returns The text of the title, or an empty string if the admonition has no title
+ */
+function admonitionTitle(element: Element): string {
+    // Icons before the title, such as Confluence's, would become stray content
+    while (element.firstElementChild?.matches(ICON_SELECTOR) && (element.firstElementChild.textContent ?? '').trim() === '') {
+        element.firstElementChild.remove();
+    }
+
+    // A title element must come before any text
+    const first = element.firstElementChild;
+    const nodes = Array.from(element.childNodes);
+    if (!first || !first.matches(TITLE_SELECTOR) || nodes.slice(0, nodes.indexOf(first)).some(node => (node.textContent ?? '').trim() !== '')) {
+        return '';
+    }
+    first.querySelectorAll(`${ICON_SELECTOR}, img`).forEach(icon => icon.remove());
+    const title = (first.textContent ?? '').replace(/\s+/g, ' ').trim();
+    first.remove();
+    return title;
+}
+
+/**
+ * Converts a blockquote that starts with a [!TYPE] marker, which is how GitHub alerts and
+ * callouts look when the site showing them doesn't render them. The rest of the marker's
+ * line is the title.
+ * @returns true if the blockquote starts with a marker
+ */
+function convertMarkedBlockquote(blockquote: Element, classMap: CalloutClassMapping[], tokens: string[]): boolean {
+    const paragraph = blockquote.firstElementChild?.tagName === 'P' ? blockquote.firstElementChild : blockquote;
+    const text = paragraph.firstChild;
+    const match = text?.nodeType === Node.TEXT_NODE ? (text.textContent ?? '').match(MARKER_REGEX) : null;
+    if (!text || !match) {
+        return false;
+    }
+    text.textContent = (text.textContent ?? '').substring(match[0].length);
+
+    // The title ends at the first line break
+    const titleNodes: Node[] = [];
+    for (const node of Array.from(paragraph.childNodes)) {
+        if (node.nodeName === 'BR') {
+            node.remove();
+            break;
+        } else if (node.nodeType === Node.ELEMENT_NODE && (node as Element).matches(BLOCK_SELECTOR)) {
+            break;
+        } else if (node.nodeType === Node.TEXT_NODE && (node.textContent ?? '').includes('\n')) {
+            const lineEnd = (node.textContent ?? '').indexOf('\n');
+            titleNodes.push(blockquote.ownerDocument.createTextNode((node.textContent ?? '').substring(0, lineEnd)));
+            node.textContent = (node.textContent ?? '').substring(lineEnd + 1);
+            break;
+        } else if (node.nodeType === Node.TEXT_NODE || node.nodeType === Node.ELEMENT_NODE) {
+            titleNodes.push(node);
+        }
+    }
+    const title = titleNodes.map(node => node.textContent ?? '').join('').replace(/\s+/g, ' ').trim();
+    titleNodes.forEach(node => node.parentNode?.removeChild(node));
+    if (paragraph !== blockquote && (paragraph.textContent ?? '').trim() === '' && !paragraph.querySelector('img')) {
+        paragraph.remove();
+    }
+
+    replaceWithCallout(blockquote, mapCalloutType(match[1], classMap), match[2], title, tokens);
+    return true;
+}
+
+/**
+ * Replaces an element with a blockquote holding the callout marker, its title and the element's content
+ * @param element The element to replace
+ * @param type The callout type
+ * @param fold The fold marker: + or - for foldable callouts, otherwise empty
+ * @param title The title; left out if it is just the callout type, which Obsidian shows by default
+ * @param tokens The token values for the current paste
+ */
+function replaceWithCallout(element: Element, type: string, fold: string, title: string, tokens: string[]): void {
+    const doc = element.ownerDocument;
+    const blockquote = doc.createElement('blockquote');
+    const header = blockquote.appendChild(doc.createElement('p'));
+    header.append(addToken(tokens, `[!${type}]${fold}`));
+    // Titles such as "Note:" are written as labels in the content
+    title = title.replace(/:$/, '');
+    if (title !== '' && title.toLowerCase() !== type) {
+        header.append(` ${title}`);
+    }
+    blockquote.append(...Array.from(element.childNodes));
+    element.replaceWith(blockquote);
+}
@@ -0,0 +1,192 @@
+// Paste Reformatter - A plugin that re-formats pasted HTML text in Obsidian.
+// Copyright (C) 2025 by Keath Milligan.
+
+// Class names that give the language of a code block, e.g. language-ts (Prism, highlight.js),
+// lang-py (Stack Overflow), highlight-source-python (GitHub) or highlight-python (Sphinx)
+const LANGUAGE_CLASS_REGEX = /^(?:language|lang|highlight-(?:source|text)|highlight)-(.+)$/i;
+
+// Attributes that give the language of a code block
+const LANGUAGE_ATTRIBUTES = ['data-lang', 'data-language', 'data-code-language'];
+
+// Language hints that mean the code has no language
+const NO_LANGUAGE = ['none', 'text', 'txt', 'plain', 'plaintext', 'nohighlight', 'no-highlight', 'default'];
+
+// Language names that differ from what Obsidian expects
+const LANGUAGE_ALIASES: Record<string, string> = {
+    'html-basic': 'html',
+    'shell-session': 'shell',
+    'console': 'shell'
+};
+
+// Line number gutters inside code blocks
+const GUTTER_SELECTOR = '.line-numbers-rows, .linenos, .lineno, .linenodiv, .line-number, .hljs-ln-numbers, .rouge-gutter, .gutter, [class*="lineNumber"], [class*="LineNumber"]';
+
+// Copy buttons and toolbars around code blocks, matched by whole class names so that content
+// such as a copyright notice is kept
+const CHROME_SELECTOR = 'button, clipboard-copy, [role="button"], .copy, .copy-button, .copy-btn, .btn-copy, .copy-code, .copy-code-button, '
+    + '.code-copy, .clipboard, .ClipboardButton, .zeroclipboard-container, .toolbar';
+
+// Elements that can be a label in the header of a code block, such as the language or file name
+const LABEL_TAGS = ['SPAN', 'DIV', 'SMALL', 'LABEL', 'B', 'STRONG', 'CODE'];
+
+// Elements that put their content on a line of its own, used by editors that render one element per line
+const LINE_TAGS = ['DIV', 'P', 'LI', 'TR'];
+
+// How far up from a <pre> wrappers are searched for language hints and copy buttons
+const MAX_WRAPPER_DEPTH = 4;
+
+// The most text a wrapper may have besides the code, enough for a file name, language label or button
+const MAX_WRAPPER_TEXT = 60;
+
+/**
+ * Converts syntax-highlighted code blocks into plain <pre><code> blocks tagged with their
+ * language, which become fenced code blocks. The highlighting markup is flattened to the
+ * source text, and line number gutters and copy buttons are removed.
+ * @param doc The parsed HTML document to modify
+ * @returns true if any code blocks were changed
+ */
+export function cleanCodeBlocks(doc: Document): boolean {
+    let changed = false;
+
+    removeGutterTables(doc);
+
+    // Code blocks inside other code blocks are flattened along with them
+    const blocks = Array.from(doc.querySelectorAll('pre')).filter(pre => !pre.parentElement?.closest('pre'));
+    for (const pre of blocks) {
+        const wrappers = codeWrappers(pre);
+        const language = codeLanguage([pre.querySelector('code'), pre, ...wrappers]);
+
+        const original = [pre, ...wrappers].map(element => element.outerHTML).join('');
+        for (const element of [pre, ...wrappers]) {
+            removeChrome(element, language);
+        }
+        // Wrapper classes such as highlight-source-python would override the language
+        wrappers.forEach(wrapper => wrapper.removeAttribute('class'));
+
+        const code = doc.createElement('code');
+        if (language !== '') {
+            code.className = `language-${language}`;
+        }
+        code.textContent = codeText(pre).replace(/\u00a0/g, ' ').replace(/\n+$/, '');
+        const block = doc.createElement('pre');
+        block.appendChild(code);
+        pre.replaceWith(block);
+
+        if ([block, ...wrappers].map(element => element.outerHTML).join('') !== original) {
+            changed = true;
+        }
+    }
+
+    return changed;
+}
+
+/**
+ * Finds the elements that only wrap a code block, such as GitHub's highlight <div> or
+ * Docusaurus' container, from the closest outwards
+ */
+function codeWrappers(pre: Element): Element[] {
+    const wrappers: Element[] = [];
+    for (let element = pre.parentElement; element && wrappers.length < MAX_WRAPPER_DEPTH; element = element.parentElement) {
+        if (!['DIV', 'FIGURE'].includes(element.tagName) || element.querySelectorAll('pre').length !== 1
+            || (element.textContent ?? '').length - (pre.textContent ?? '').length > MAX_WRAPPER_TEXT) {
+            break;
+        }
+        wrappers.push(element);
+    }
+    return wrappers;
+}
+
+/**
+ * Finds the language of a code block from the classes and attributes of its elements
+ * @param elements The <code> element, the <pre> element and its wrappers, most specific first
+ * @returns The language, or an empty string if it is unknown
+ */
+function codeLanguage(elements: (Element | null)[]): string {
+    for (const element of elements) {
+        if (!element) {
+            continue;
+        }
+        let hint = LANGUAGE_ATTRIBUTES.map(attribute => element.getAttribute(attribute)).find(value => value)
+            // SyntaxHighlighter and MDN use class="brush: js"
+            ?? element.getAttribute('class')?.match(/\bbrush:\s*([\w+#-]+)/)?.[1]
+            ?? Array.from(element.classList).map(name => name.match(LANGUAGE_CLASS_REGEX)?.[1]).find(value => value);
+        // Pandoc marks code with class="sourceCode python"
+        if (!hint && element.classList.contains('sourceCode')) {
+            hint = Array.from(element.classList).find(name => name !== 'sourceCode');
+        }
+        if (hint) {
+            const language = hint.toLowerCase();
+            return NO_LANGUAGE.includes(language) ? '' : LANGUAGE_ALIASES[language] ?? language;
+        }
+    }
+    return '';
+}
+
+/**
+ * Removes copy buttons, toolbars, language labels and line number gutters from a code block or its wrapper
+ * @param element The <pre> element or one of its wrappers
+ * @param language The language of the code block; labels showing it are removed
+ */
+function removeChrome(element: Element, language: string): void {
+    if (element.tagName === 'PRE') {
+        element.querySelectorAll(`${GUTTER_SELECTOR}, button`).forEach(chrome => chrome.remove());
+        return;
+    }
+    for (const child of Array.from(element.children)) {
+        if (child.querySelector('pre') || child.tagName === 'PRE') {
+            continue;
+        }
+        // Headers hold the buttons along with a language label
+        child.querySelectorAll(CHROME_SELECTOR).forEach(chrome => chrome.remove());
+        const text = (child.textContent ?? '').trim();
+        const isLabel = LABEL_TAGS.includes(child.tagName);
+        if (child.matches(`${CHROME_SELECTOR}, ${GUTTER_SELECTOR}`)
+            || (text === '' && !child.querySelector('img'))
+            || (isLabel && /^(copy( code| to clipboard)?|copied!?)$/i.test(text))
+            || (isLabel && language !== '' && text.toLowerCase() === language)) {
+            child.remove();
+        }
+    }
+}
+
+/**
+ * Replaces tables that show line numbers next to a code block, as made by Pygments and
+ * Rouge, with the code block
+ */
+function removeGutterTables(doc: Document): void {
+    doc.querySelectorAll('table').forEach(table => {
+        const rows = (table as HTMLTableElement).rows;
+        if (rows.length !== 1 || rows[0].cells.length !== 2) {
+            return;
+        }
+        const [gutter, code] = Array.from(rows[0].cells);
+        if (/^\s*\d[\d\s]*$/.test(gutter.textContent ?? '') && code.querySelector('pre')) {
+            table.replaceWith(...Array.from(code.childNodes));
+        }
+    });
+}
+
+/**
+ * Gets the source text of highlighted code. Line breaks come from the text, <br> elements
+ * and elements that editors render one per line.
+ */
+function codeText(node: Node): string {
+    if (node.nodeType === Node.TEXT_NODE) {
+        return node.textContent ?? '';
+    } else if (node.nodeType !== Node.ELEMENT_NODE) {
+        return '';
+    } else if (node.nodeName === 'BR') {
+        return '\n';
+    }
+
+    let text = '';
+    for (const child of Array.from(node.childNodes)) {
+        const childText = codeText(child);
+        // Start elements that are lines on a new line, e.g. each row of a highlight.js line number table
+        if (LINE_TAGS.includes(child.nodeName) && text !== '' && !text.endsWith('\n')) {
+            text += '\n';
+        }
+        text += childText;
+    }
+    return text;
+}
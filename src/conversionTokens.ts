@@ -0,0 +1,33 @@
+// Paste Reformatter - A plugin that re-formats pasted HTML text in Obsidian.
+// Copyright (C) 2025 by Keath Milligan.
+
+// The HTML stage uses tokens to pass Markdown through htmlToMarkdown unchanged. A token is
+// plain text built from Unicode private use characters, so the converter neither escapes
+// nor reformats it, and it is replaced with its Markdown once conversion is done.
+const TOKEN_START = '\uE002';
+const TOKEN_END = '\uE003';
+const TOKEN_REGEX = /\uE002(\d+)\uE003/g;
+
+/**
+ * Registers Markdown to be inserted after conversion
+ * @param tokens The list of token values for the current paste
+ * @param markdown The Markdown the token stands for
+ * @returns The token text to place in the HTML
+ */
+export function addToken(tokens: string[], markdown: string): string {
+    tokens.push(markdown);
+    return `${TOKEN_START}${tokens.length - 1}${TOKEN_END}`;
+}
+
+/**
+ * Replaces tokens in converted Markdown with the Markdown they stand for
+ * @param markdown The converted Markdown
+ * @param tokens The token values registered during the HTML stage
+ * @returns The Markdown with all tokens replaced
+ */
+export function restoreTokens(markdown: string, tokens: string[]): string {
+    if (tokens.length === 0) {
+        return markdown;
+    }
+    return markdown.replace(TOKEN_REGEX, (match, index) => tokens[parseInt(index)] ?? match);
+}
@@ -0,0 +1,92 @@
+// Paste Reformatter - A plugin that re-formats pasted HTML text in Obsidian.
+// Copyright (C) 2025 by Keath Milligan.
+
+export interface DiffLine {
+    type: 'same' | 'added' | 'removed';
+    text: string;
+}
+
+// The largest table of changed lines compared line by line. Beyond this, the changed lines are
+// shown as removed and then added, as comparing them would take too long on every refresh.
+const MAX_DIFF_CELLS = 1000000;
+
+/**
+ * Computes a line-by-line diff between two texts using the longest common subsequence.
+ * Lines the texts start and end with are matched first, so only the changed part is compared.
+ * @param before The original text
+ * @param after The changed text
+ * @returns The lines of both texts in order, marked as unchanged, added or removed
+ */
+export function diffLines(before: string, after: string): DiffLine[] {
+    const a = before.replace(/\r\n/g, '\n').split('\n');
+    const b = after.replace(/\r\n/g, '\n').split('\n');
+
+    let prefix = 0;
+    while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) {
+        prefix++;
+    }
+    let suffix = 0;
+    while (suffix < a.length - prefix && suffix < b.length - prefix && a[a.length - 1 - suffix] === b[b.length - 1 - suffix]) {
+        suffix++;
+    }
+
+    const same = (text: string): DiffLine => ({ type: 'same', text });
+    return [
+        ...a.slice(0, prefix).map(same),
+        ...diffChangedLines(a.slice(prefix, a.length - suffix), b.slice(prefix, b.length - suffix)),
+        ...a.slice(a.length - suffix).map(same)
+    ];
+}
+
+/**
+ * Diffs the lines between the common start and end of two texts
+ */
+function diffChangedLines(a: string[], b: string[]): DiffLine[] {
+    if ((a.length + 1) * (b.length + 1) > MAX_DIFF_CELLS) {
+        return [
+            ...a.map((text): DiffLine => ({ type: 'removed', text })),
+            ...b.map((text): DiffLine => ({ type: 'added', text }))
+        ];
+    }
+
+    // lcs[i][j] holds the length of the longest common subsequence of a[i..] and b[j..]
+    const lcs: number[][] = [];
+    for (let i = a.length; i >= 0; i--) {
+        lcs[i] = [];
+        for (let j = b.length; j >= 0; j--) {
+            if (i === a.length || j === b.length) {
+                lcs[i][j] = 0;
+            } else if (a[i] === b[j]) {
+                lcs[i][j] = lcs[i + 1][j + 1] + 1;
+            } else {
+                lcs[i][j] = Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+            }
+        }
+    }
+
+    // Walk the table to produce the diff, preferring removals before additions
+    const lines: DiffLine[] = [];
+    let i = 0;
+    let j = 0;
+    while (i < a.length && j < b.length) {
+        if (a[i] === b[j]) {
+            lines.push({ type: 'same', text: a[i] });
+            i++;
+            j++;
+        } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+            lines.push({ type: 'removed', text: a[i] });
+            i++;
+        } else {
+            lines.push({ type: 'added', text: b[j] });
+            j++;
+        }
+    }
+    while (i < a.length) {
+        lines.push({ type: 'removed', text: a[i++] });
+    }
+    while (j < b.length) {
+        lines.push({ type: 'added', text: b[j++] });
+    }
+
+    return lines;
+}
@@ -0,0 +1,111 @@
+// Paste Reformatter - A plugin that re-formats pasted HTML text in Obsidian.
+// Copyright (C) 2025 by Keath Milligan.
+
+/**
+ * What a DOM rule does with the elements its selector matches:
+ * - remove: removes the element and its content
+ * - unwrap: replaces the element with its children
+ * - replace-tag: replaces the element with an element of another tag, keeping its attributes and children
+ * - strip-attributes: removes attributes from the element
+ */
+export type DOMRuleAction = 'remove' | 'unwrap' | 'replace-tag' | 'strip-attributes';
+
+export interface DOMRule {
+    selector: string; // CSS selector of the elements to change
+    action: DOMRuleAction;
+    tagName?: string; // replace-tag: the tag to use instead
+    attributes?: string[]; // strip-attributes: the attributes to remove (all when empty), a trailing * matches any attribute with that prefix
+    enabled?: boolean; // Whether the rule is applied (rules without this flag are enabled)
+}
+
+/**
+ * Checks that a rule can be applied
+ * @param rule The rule to check
+ * @returns A description of the problem, or null if the rule is valid
+ */
+export function validateDOMRule(rule: DOMRule): string | null {
+    if (rule.selector.trim() === '') {
+        return 'Selector is empty';
+    }
+    try {
+        document.createDocumentFragment().querySelector(rule.selector);
+    } catch (error) {
+        return `Invalid selector "${rule.selector}"`;
+    }
+    if (rule.action === 'replace-tag' && !/^[a-z][a-z0-9-]*$/i.test(rule.tagName ?? '')) {
+        return rule.tagName ? `Invalid tag name "${rule.tagName}"` : 'Tag name is empty';
+    }
+    return null;
+}
+
+/**
+ * Applies DOM rules to the body of a parsed document, in order. Invalid rules are skipped.
+ * @param doc The parsed HTML document to modify
+ * @param rules The rules to apply
+ * @returns true if any element was changed
+ */
+export function applyDOMRules(doc: Document, rules: DOMRule[]): boolean {
+    let changed = false;
+
+    for (const rule of rules) {
+        if (rule.enabled === false) {
+            continue;
+        }
+
+        const error = validateDOMRule(rule);
+        if (error) {
+            console.error(`Error applying DOM rule: ${error}`);
+            continue;
+        }
+
+        // The matches are collected before changing anything, so replacing an element
+        // still lets the rule reach the matches inside it
+        doc.body.querySelectorAll(rule.selector).forEach(element => {
+            if (applyDOMRule(doc, element, rule)) {
+                changed = true;
+            }
+        });
+    }
+
+    return changed;
+}
+
+/**
+ * Applies a rule to one element
+ * @returns true if the element was changed
+ */
+function applyDOMRule(doc: Document, element: Element, rule: DOMRule): boolean {
+    switch (rule.action) {
+        case 'remove':
+            element.remove();
+            return true;
+
+        case 'unwrap':
+            element.replaceWith(...Array.from(element.childNodes));
+            return true;
+
+        case 'replace-tag': {
+            const tagName = (rule.tagName as string).toLowerCase();
+            if (element.tagName.toLowerCase() === tagName) {
+                return false;
+            }
+            const replacement = doc.createElement(tagName);
+            for (const attribute of Array.from(element.attributes)) {
+                replacement.setAttribute(attribute.name, attribute.value);
+            }
+            replacement.append(...Array.from(element.childNodes));
+            element.replaceWith(replacement);
+            return true;
+        }
+
+        case 'strip-attributes': {
+            const names = (rule.attributes ?? []).map(name => name.toLowerCase());
+            const matches = (attribute: string): boolean => names.length === 0 || names.some(name =>
+                name.endsWith('*') ? attribute.startsWith(name.slice(0, -1)) : attribute === name
+            );
+            const stripped = Array.from(element.attributes).map(attribute => attribute.name).filter(matches);
+            stripped.forEach(name => element.removeAttribute(name));
+            return stripped.length > 0;
+        }
+    }
+}
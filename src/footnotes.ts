@@ -0,0 +1,218 @@
+// Paste Reformatter - A plugin that re-formats pasted HTML text in Obsidian.
+// Copyright (C) 2025 by Keath Milligan.
+
+import { addToken } from './conversionTokens';
+import { protectMarkdown, restoreMarkdown } from './markdownSegments';
+
+// The text of a reference marker, e.g. 1, [1], [a], [note 2], * or †
+const MARKER_TEXT_REGEX = /^\[?(?:[\w*†‡§]{1,4}|note \w{1,3})\]?$/i;
+
+// The text of a marker that is a reference without a wrapper: a number, a bracketed label or a symbol.
+// Short words such as "refs" are ordinary links within the page.
+const BARE_MARKER_TEXT_REGEX = /^(?:\d{1,4}|\[(?:\w{1,4}|note \w{1,3})\]|[*†‡§]{1,3})$/i;
+
+// Elements that mark a link as a reference: superscripts, Wikipedia references, DPub ARIA and GitHub
+const REFERENCE_SELECTOR = 'sup, .reference, [role="doc-noteref"], [data-footnote-ref]';
+
+// Ids and classes of footnote bodies that are not list items, e.g. <p id="fn1"> or <div class="footnote">
+const BODY_NAME_REGEX = /fn|foot|note|ref|bib|cite/i;
+
+// Links from a footnote back to its references: Wikipedia, GitHub, Pandoc, markdown-it, kramdown and DPub ARIA
+const BACKLINK_SELECTOR = '.mw-cite-backlink, [data-footnote-backref], .footnote-back, .footnote-backref, .reversefootnote, [role="doc-backlink"], a[rev="footnote"]';
+
+// Inline elements that only wrap reference markers, such as <sup>[1]</sup> or LaTeXML's <cite>[5, 6]</cite>
+const WRAPPER_TAGS = ['SUP', 'CITE', 'SPAN', 'SMALL'];
+
+// Conversion tokens, which stand for the references while wrappers are checked
+const CONVERSION_TOKEN_REGEX = /\uE002\d+\uE003/g;
+
+// Footnote references and definitions in Markdown
+const FOOTNOTE_REGEX = /\[\^([^\]\s]+)\]/g;
+
+/**
+ * Converts footnotes and citations into Obsidian footnotes. Links to footnotes within the
+ * pasted content, such as Wikipedia references and blog footnotes, become [^1] references,
+ * and the footnotes they link to become [^1]: definitions. Footnotes are numbered in the order
+ * they are first referenced. Footnotes that are never referenced are left alone.
+ * @param doc The parsed HTML document to modify
+ * @param tokens The token values for the current paste (see addToken)
+ * @returns true if any footnotes were converted
+ */
+export function convertFootnotes(doc: Document, tokens: string[]): boolean {
+    // Backlinks look like references themselves, so they go first
+    doc.querySelectorAll(BACKLINK_SELECTOR).forEach(backlink => backlink.remove());
+
+    const markers: { anchor: Element, body: Element }[] = [];
+    doc.querySelectorAll('a[href^="#"]').forEach(anchor => {
+        const body = footnoteBody(doc, anchor);
+        const text = (anchor.textContent ?? '').trim();
+        if (body && (anchor.closest(REFERENCE_SELECTOR) ? MARKER_TEXT_REGEX : BARE_MARKER_TEXT_REGEX).test(text)) {
+            markers.push({ anchor, body });
+        }
+    });
+    if (markers.length === 0) {
+        return false;
+    }
+
+    const labels = new Map<Element, number>();
+    for (const { body } of markers) {
+        if (!labels.has(body)) {
+            labels.set(body, labels.size + 1);
+        }
+    }
+
+    // Remove the remaining links back to the references, e.g. <a href="#fnref1">↩</a>
+    for (const body of labels.keys()) {
+        body.querySelectorAll('a[href^="#"]').forEach(link => {
+            const target = linkTarget(doc, link);
+            if (target && markers.some(({ anchor }) => target === anchor || target.contains(anchor) || anchor.parentElement === target)) {
+                link.remove();
+            }
+        });
+    }
+
+    for (const { anchor, body } of markers) {
+        const parent = anchor.parentElement;
+        anchor.replaceWith(doc.createTextNode(addToken(tokens, `[^${labels.get(body)}]`)));
+        unwrapMarker(parent);
+    }
+
+    // Footnotes in a list replace the list, in the order of their numbers
+    const lists = new Map<Element, Element[]>();
+    for (const [body, label] of labels) {
+        const definition = footnoteDefinition(doc, body, label, tokens);
+        const list = ['LI', 'DD'].includes(body.tagName) ? body.parentElement : null;
+        if (list) {
+            lists.set(list, [...(lists.get(list) ?? []), definition]);
+            body.remove();
+        } else {
+            body.replaceWith(definition);
+        }
+    }
+    lists.forEach((definitions, list) => {
+        // Footnotes that are not referenced, such as uncited bibliography entries, stay in the list
+        list.before(...definitions);
+        if (!list.querySelector('li, dd')) {
+            list.remove();
+        }
+    });
+
+    return true;
+}
+
+/**
+ * Gets the labels of the footnotes in a note
+ * @param markdown The content of the note
+ * @returns The labels, e.g. ['1', 'note'] for [^1] and [^note]
+ */
+export function footnoteLabels(markdown: string): string[] {
+    const { text } = protectMarkdown(markdown);
+    return Array.from(new Set(Array.from(text.matchAll(FOOTNOTE_REGEX), match => match[1])));
+}
+
+/**
+ * Renumbers the footnotes of pasted Markdown so that they don't clash with the footnotes
+ * already in the note. If any label is taken, numbered footnotes are renumbered from the
+ * highest number in the note onwards and other taken labels get a numeric suffix.
+ * @param markdown The pasted Markdown
+ * @param usedLabels The labels of the footnotes in the note (see footnoteLabels)
+ * @returns The Markdown with renumbered footnotes
+ */
+export function renumberFootnotes(markdown: string, usedLabels: string[]): string {
+    const used = new Set(usedLabels);
+    const { text, regions } = protectMarkdown(markdown);
+    const pasted = Array.from(new Set(Array.from(text.matchAll(FOOTNOTE_REGEX), match => match[1])));
+    if (!pasted.some(label => used.has(label))) {
+        return markdown;
+    }
+
+    let next = Math.max(0, ...usedLabels.filter(label => /^\d+$/.test(label)).map(label => parseInt(label))) + 1;
+    const renamed = new Map<string, string>();
+    for (const label of pasted) {
+        let name = label;
+        if (/^\d+$/.test(label)) {
+            name = String(next++);
+        } else if (used.has(label)) {
+            let suffix = 2;
+            while (used.has(`${label}-${suffix}`) || pasted.includes(`${label}-${suffix}`)) {
+                suffix++;
+            }
+            name = `${label}-${suffix}`;
+        }
+        renamed.set(label, name);
+        used.add(name);
+    }
+
+    return restoreMarkdown(text.replace(FOOTNOTE_REGEX, (match, label) => `[^${renamed.get(label) ?? label}]`), regions);
+}
+
+/**
+ * Gets the element a link within the document points to
+ * @returns The element, or null if the link points elsewhere
+ */
+function linkTarget(doc: Document, link: Element): Element | null {
+    const href = link.getAttribute('href') ?? '';
+    try {
+        return href.length > 1 ? doc.getElementById(decodeURIComponent(href.slice(1))) : null;
+    } catch {
+        // Malformed escapes in the fragment
+        return null;
+    }
+}
+
+/**
+ * Finds the footnote a reference marker links to: the list item holding the target, or a
+ * paragraph or block whose id or class marks it as a footnote. Blocks with headings are
+ * sections of the page, such as a references section, rather than a footnote.
+ * @returns The footnote, or null if the link does not point to one
+ */
+function footnoteBody(doc: Document, anchor: Element): Element | null {
+    const target = linkTarget(doc, anchor);
+    // Links to other references, such as backlinks, point to a marker rather than a footnote
+    if (!target || target.closest('a, sup') || /^H[1-6]$/.test(target.tagName)) {
+        return null;
+    }
+    const body = target.closest('li, dd')
+        ?? (['P', 'DIV', 'ASIDE', 'SECTION', 'SPAN'].includes(target.tagName) && BODY_NAME_REGEX.test(`${target.id} ${target.className}`) ? target : null);
+    if (!body || body.contains(anchor) || (body.textContent ?? '').trim() === ''
+        || (body === target && body.querySelector('h1, h2, h3, h4, h5, h6'))) {
+        return null;
+    }
+    return body;
+}
+
+/**
+ * Replaces the elements that only wrapped a reference marker with the references they hold,
+ * e.g. <sup class="reference">[1]</sup> or <cite>[1, 2]</cite>
+ * @param element The parent of the replaced marker
+ */
+function unwrapMarker(element: Element | null): void {
+    while (element && WRAPPER_TAGS.includes(element.tagName)) {
+        const text = element.textContent ?? '';
+        if (!/^[\s[\](),;]*$/.test(text.replace(CONVERSION_TOKEN_REGEX, ''))) {
+            return;
+        }
+        const parent = element.parentElement;
+        const doc = element.ownerDocument;
+        element.replaceWith(...(text.match(CONVERSION_TOKEN_REGEX) ?? []).map(token => doc.createTextNode(token)));
+        element = parent;
+    }
+}
+
+/**
+ * Creates the definition of a footnote: a paragraph starting with its label, holding the
+ * content of the footnote on one line
+ */
+function footnoteDefinition(doc: Document, body: Element, label: number, tokens: string[]): Element {
+    const definition = doc.createElement('p');
+    definition.append(addToken(tokens, `[^${label}]:`), ' ');
+    for (const child of Array.from(body.childNodes)) {
+        // Paragraphs within the footnote are joined, as a definition ends at the first blank line
+        if (child.nodeType === Node.ELEMENT_NODE && ['P', 'DIV'].includes(child.nodeName)) {
+            definition.append(...Array.from(child.childNodes), ' ');
+        } else {
+            definition.append(child);
+        }
+    }
+    return definition;
+}
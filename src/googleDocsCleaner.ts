@@ -0,0 +1,226 @@
+// Paste Reformatter - A plugin that re-formats pasted HTML text in Obsidian.
+// Copyright (C) 2025 by Keath Milligan.
+
+import { NestedListItem, buildNestedLists, nextElementSkippingWhitespace } from './lists';
+
+// Google Docs marks copied content with an element whose id starts with this prefix
+const DOCS_WRAPPER_SELECTOR = '[id^="docs-internal-guid-"]';
+
+// Inline elements created from inline styles, merged with identical neighbors afterwards
+const SEMANTIC_TAGS = ['strong', 'em', 'del', 'code', 'sup', 'sub'];
+
+// Google Docs indents each list level by 36pt
+const LIST_INDENT_PT = 36;
+
+/**
+ * Checks whether a document was copied from Google Docs
+ * @param doc The parsed HTML document
+ */
+export function isGoogleDocsDocument(doc: Document): boolean {
+    return doc.querySelector(DOCS_WRAPPER_SELECTOR) !== null;
+}
+
+/**
+ * Converts Google Docs markup into semantic HTML. Google Docs expresses formatting with
+ * inline styles on spans, wraps the content in a bold element, and produces flat lists
+ * where the nesting is only given by each item's level. Documents that were not copied
+ * from Google Docs are left unchanged.
+ * @param doc The parsed HTML document to modify
+ * @returns true if the document was copied from Google Docs and cleaned up
+ */
+export function cleanGoogleDocs(doc: Document): boolean {
+    if (!isGoogleDocsDocument(doc)) {
+        return false;
+    }
+
+    // The wrapper is a <b style="font-weight:normal"> that would make the whole paste bold
+    doc.querySelectorAll(DOCS_WRAPPER_SELECTOR).forEach(wrapper => {
+        wrapper.replaceWith(...Array.from(wrapper.childNodes));
+    });
+
+    convertChecklists(doc);
+    rebuildLists(doc);
+    convertInlineStyles(doc);
+
+    // List items wrap their text in a paragraph, which would make every list loose
+    doc.querySelectorAll('li > p').forEach(paragraph => {
+        paragraph.replaceWith(...Array.from(paragraph.childNodes));
+    });
+
+    // Empty headings would become stray "#" lines
+    doc.querySelectorAll('h1, h2, h3, h4, h5, h6').forEach(heading => {
+        if ((heading.textContent ?? '').trim() === '' && !heading.querySelector('img')) {
+            heading.remove();
+        }
+    });
+
+    return true;
+}
+
+/**
+ * Parses an inline style attribute
+ * @returns The style properties, with lowercase names
+ */
+function parseStyle(element: Element): Record<string, string> {
+    const style: Record<string, string> = {};
+    for (const declaration of (element.getAttribute('style') ?? '').split(';')) {
+        const separator = declaration.indexOf(':');
+        if (separator > 0) {
+            style[declaration.substring(0, separator).trim().toLowerCase()] = declaration.substring(separator + 1).trim().toLowerCase();
+        }
+    }
+    return style;
+}
+
+/**
+ * Replaces styled spans with the semantic elements their styles stand for
+ */
+function convertInlineStyles(doc: Document): void {
+    doc.body.querySelectorAll('span[style]').forEach(span => {
+        const style = parseStyle(span);
+        const tags: string[] = [];
+
+        // Headings are bold already, and checked checklist items are struck through by Google Docs
+        const weight = style['font-weight'];
+        if ((weight === 'bold' || parseInt(weight) >= 600) && !span.closest('h1, h2, h3, h4, h5, h6')) {
+            tags.push('strong');
+        }
+        if (style['font-style'] === 'italic' || style['font-style'] === 'oblique') {
+            tags.push('em');
+        }
+        const decoration = `${style['text-decoration'] ?? ''} ${style['text-decoration-line'] ?? ''}`;
+        if (decoration.includes('line-through') && !span.closest('li[aria-checked="true"]')) {
+            tags.push('del');
+        }
+        if (style['vertical-align'] === 'super') {
+            tags.push('sup');
+        } else if (style['vertical-align'] === 'sub') {
+            tags.push('sub');
+        }
+        if (/courier|consolas|menlo|monaco|mono/.test(style['font-family'] ?? '')) {
+            tags.push('code');
+        }
+
+        // Whitespace-only spans would produce empty emphasis markers
+        const nodes: Node[] = Array.from(span.childNodes);
+        if ((span.textContent ?? '').trim() === '' || tags.length === 0) {
+            span.replaceWith(...nodes);
+            return;
+        }
+
+        let replacement: Element | null = null;
+        for (const tag of tags.reverse()) {
+            const element = doc.createElement(tag);
+            element.append(...(replacement ? [replacement] : nodes));
+            replacement = element;
+        }
+        span.replaceWith(replacement as Element);
+    });
+
+    // Adjacent runs with the same formatting would produce markers like "**a****b**"
+    doc.body.querySelectorAll(SEMANTIC_TAGS.join(', ')).forEach(element => {
+        let next = element.nextSibling;
+        while (next && next.nodeType === Node.ELEMENT_NODE && (next as Element).tagName === element.tagName) {
+            element.append(...Array.from(next.childNodes));
+            (next as Element).remove();
+            next = element.nextSibling;
+        }
+    });
+}
+
+/**
+ * Turns Google Docs checklist items into task list items
+ */
+function convertChecklists(doc: Document): void {
+    doc.body.querySelectorAll('li[role="checkbox"], li[aria-checked]').forEach(item => {
+        // Google Docs may draw the check box as an image
+        item.querySelectorAll('img[aria-roledescription="checkbox"], img[src*="checkbox"]').forEach(image => image.remove());
+
+        const checkbox = doc.createElement('input');
+        checkbox.setAttribute('type', 'checkbox');
+        if (item.getAttribute('aria-checked') === 'true') {
+            checkbox.setAttribute('checked', '');
+        }
+        item.prepend(checkbox);
+    });
+}
+
+/**
+ * Rebuilds nested lists from the level of each list item. Consecutive lists are treated
+ * as one list, as Google Docs may start a new list for each change of level.
+ */
+function rebuildLists(doc: Document): void {
+    const processed = new Set<Element>();
+
+    doc.body.querySelectorAll('ul, ol').forEach(list => {
+        if (processed.has(list) || list.parentElement?.closest('ul, ol')) {
+            return;
+        }
+
+        // Collect the list and the lists directly following it
+        const group: Element[] = [list];
+        let next = nextElementSkippingWhitespace(list);
+        while (next && (next.tagName === 'UL' || next.tagName === 'OL')) {
+            group.push(next);
+            next = nextElementSkippingWhitespace(next);
+        }
+        group.forEach(element => processed.add(element));
+
+        const items: NestedListItem[] = [];
+        for (const element of group) {
+            element.querySelectorAll('li').forEach(item => {
+                items.push({ element: item, level: listItemLevel(item, element), type: listItemType(item) });
+            });
+        }
+        if (items.length === 0) {
+            return;
+        }
+
+        // The items are moved into the new lists, so their nested lists are no longer needed
+        for (const item of items) {
+            Array.from(item.element.children)
+                .filter(child => child.tagName === 'UL' || child.tagName === 'OL')
+                .forEach(child => child.remove());
+        }
+
+        const roots = buildNestedLists(doc, items);
+        list.replaceWith(...roots);
+        group.slice(1).forEach(element => element.remove());
+    });
+}
+
+/**
+ * Gets the nesting level of a list item: its aria-level, or its indentation in older
+ * Google Docs output, or else how deeply it is nested in the list
+ */
+function listItemLevel(item: Element, root: Element): number {
+    const ariaLevel = parseInt(item.getAttribute('aria-level') ?? '');
+    if (!isNaN(ariaLevel)) {
+        return ariaLevel;
+    }
+
+    const margin = (parseStyle(item)['margin-left'] ?? '').match(/^([\d.]+)(pt|px)$/);
+    if (margin) {
+        const points = parseFloat(margin[1]) * (margin[2] === 'px' ? 0.75 : 1);
+        return Math.max(1, Math.round(points / LIST_INDENT_PT));
+    }
+
+    let level = 0;
+    for (let parent: Element | null = item.parentElement; parent && parent !== root.parentElement; parent = parent.parentElement) {
+        if (parent.tagName === 'UL' || parent.tagName === 'OL') {
+            level++;
+        }
+    }
+    return Math.max(level, 1);
+}
+
+/**
+ * Gets whether a list item is numbered, from its list style or else the list containing it
+ */
+function listItemType(item: Element): 'ul' | 'ol' {
+    const listStyle = parseStyle(item)['list-style-type'];
+    if (listStyle) {
+        return /disc|circle|square|none/.test(listStyle) ? 'ul' : 'ol';
+    }
+    return item.parentElement?.tagName === 'OL' ? 'ol' : 'ul';
+}
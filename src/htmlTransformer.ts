@@ -1,108 +1,218 @@
 // Paste Reformatter - A plugin that re-formats pasted HTML text in Obsidian.
 // Copyright (C) 2025 by Keath Milligan.
 
+import { convertCallouts } from './callouts';
+import { cleanCodeBlocks } from './codeBlocks';
+import { applyDOMRules } from './domRules';
+import { convertFootnotes } from './footnotes';
+import { cleanGoogleDocs } from './googleDocsCleaner';
+import { PastedImage, processImages } from './imageLocalizer';
+import { convertMath } from './mathConverter';
+import { cleanOffice } from './officeCleaner';
+import { HTMLStep } from './pipeline';
+import { compileRule } from './regexRules';
+import { normalizeTables } from './tableTransformer';
+
 /**
- * Transforms the HTML content before converting it to Markdown
+ * Transforms the HTML content before converting it to Markdown by running the HTML pipeline
  * @param html The HTML content to transform
  * @param settings The settings to use for transformation
- * @returns An object containing the transformed HTML content and whether any transformations were applied
+ * @returns An object containing the transformed HTML content, whether any transformations were applied,
+ * the token values to restore after the HTML is converted to Markdown (see restoreTokens), and the
+ * images to save into the vault
  */
 export function transformHTML(
     html: string,
-    settings: {
-        htmlRegexReplacements: Array<{ pattern: string, replacement: string }>,
-        stripLineBreaks: boolean,
-        removeEmptyElements: boolean
-    }
-): { html: string, appliedTransformations: boolean } {
+    settings: { htmlSteps: HTMLStep[] }
+): { html: string, appliedTransformations: boolean, tokens: string[], images: PastedImage[] } {
     let appliedTransformations = false;
+    const tokens: string[] = [];
+    const images: PastedImage[] = [];
 
-    // Apply regex replacements first
-    if (settings.htmlRegexReplacements && settings.htmlRegexReplacements.length > 0) {
-        for (const replacement of settings.htmlRegexReplacements) {
-            try {
-                const regex = new RegExp(replacement.pattern, 'g');
-                const originalHtml = html;
-                html = html.replace(regex, replacement.replacement);
-                if (originalHtml !== html) {
-                    appliedTransformations = true;
+    // Regex steps work on the HTML source and the other steps on the parsed document,
+    // so the content is parsed or serialized only when the next step needs it
+    let doc: Document | undefined;
+
+    for (const step of settings.htmlSteps) {
+        if (!step.enabled) {
+            continue;
+        }
+
+        if (step.type === 'html-regex') {
+            if (doc) {
+                html = doc.documentElement.outerHTML;
+                doc = undefined;
+            }
+            for (const replacement of step.options.replacements) {
+                if (replacement.enabled === false) {
+                    continue;
+                }
+                try {
+                    const regex = compileRule(replacement);
+                    const originalHtml = html;
+                    html = html.replace(regex, replacement.replacement);
+                    if (originalHtml !== html) {
+                        appliedTransformations = true;
+                    }
+                } catch (error) {
+                    console.error(`Error applying regex replacement: ${error}`);
                 }
-            } catch (error) {
-                console.error(`Error applying regex replacement: ${error}`);
             }
+            continue;
         }
-    }
 
-    // Create a temporary DOM element to parse the HTML
-    const parser = new DOMParser();
-    const doc = parser.parseFromString(html, 'text/html');
+        doc = doc ?? new DOMParser().parseFromString(html, 'text/html');
+        switch (step.type) {
+            case 'google-docs':
+                // Convert Google Docs inline styles and flat lists into semantic HTML
+                if (cleanGoogleDocs(doc)) {
+                    appliedTransformations = true;
+                }
+                break;
 
-    // Process line breaks if strip line breaks is enabled
-    if (settings.stripLineBreaks) {
-        // Find all <br> elements and remove them
-        const brElements = doc.querySelectorAll('br');
-        brElements.forEach(br => {
-            br.remove();
-        });
-        appliedTransformations = true;
-    }
+            case 'office':
+                // Remove Office markup and convert Word's paragraph lists into real lists
+                if (cleanOffice(doc)) {
+                    appliedTransformations = true;
+                }
+                break;
 
-    // Remove empty elements if enabled
-    if (settings.removeEmptyElements) {
-        // Function to check if an element is empty (no text content and no meaningful children)
-        const isElementEmpty = (element: Element): boolean => {
-            // Skip certain elements that are meaningful even when empty
-            if (['img', 'hr', 'br', 'input', 'iframe'].includes(element.tagName.toLowerCase())) {
-                return false;
-            }
+            case 'callouts':
+                // Convert admonitions and alerts into callouts
+                if (convertCallouts(doc, step.options, tokens)) {
+                    appliedTransformations = true;
+                }
+                break;
 
-            // Skip our special line break paragraphs
-            if (element.hasAttribute('data-preserve')) {
-                return false;
-            }
+            case 'code-blocks':
+                // Flatten syntax highlighting and tag code blocks with their language
+                if (cleanCodeBlocks(doc)) {
+                    appliedTransformations = true;
+                }
+                break;
 
-            // Check if it has any text content (include whitespace)
-            if (element.textContent && element.textContent.length > 0) {
-                return false;
-            }
+            case 'math':
+                // Recover the TeX source of rendered equations
+                if (convertMath(doc, tokens)) {
+                    appliedTransformations = true;
+                }
+                break;
 
-            // Check if it has any non-empty children
-            for (let i = 0; i < element.children.length; i++) {
-                if (!isElementEmpty(element.children[i])) {
-                    return false;
+            case 'footnotes':
+                // Pair reference markers with their footnotes and convert them into Obsidian footnotes
+                if (convertFootnotes(doc, tokens)) {
+                    appliedTransformations = true;
                 }
-            }
+                break;
 
-            return true;
-        };
-
-        // Find and remove empty elements
-        // We need to use a while loop because the DOM changes as we remove elements
-        let emptyElementsFound = true;
-        while (emptyElementsFound) {
-            emptyElementsFound = false;
-
-            // Target common empty elements
-            const potentialEmptyElements = doc.querySelectorAll('p, div, span, li, ul, ol, table, tr, td, th');
-            potentialEmptyElements.forEach(element => {
-                if (isElementEmpty(element)) {
-                    element.remove();
-                    emptyElementsFound = true;
+            case 'dom-rules':
+                // Remove, unwrap, rename or strip attributes from elements matching CSS selectors
+                if (applyDOMRules(doc, step.options.rules)) {
                     appliedTransformations = true;
                 }
-            });
+                break;
 
-            // If no more empty elements are found, exit the loop
-            if (!emptyElementsFound) {
+            case 'strip-line-breaks':
+                // Find all <br> elements and remove them
+                doc.querySelectorAll('br').forEach(br => {
+                    br.remove();
+                });
+                appliedTransformations = true;
+                break;
+
+            case 'images': {
+                // Localize, replace or remove images
+                const imageResult = processImages(doc, step.options.handling, tokens);
+                if (imageResult.changed) {
+                    appliedTransformations = true;
+                }
+                images.push(...imageResult.images.filter(image => !images.some(i => i.fileName === image.fileName)));
                 break;
             }
+
+            case 'remove-empty-elements':
+                if (removeEmptyElements(doc)) {
+                    appliedTransformations = true;
+                }
+                break;
+
+            case 'normalize-tables':
+                // Convert tables into a form that becomes a valid pipe table
+                if (normalizeTables(doc, step.options.fallback, tokens)) {
+                    appliedTransformations = true;
+                }
+                break;
         }
     }
 
+    doc = doc ?? new DOMParser().parseFromString(html, 'text/html');
+
     // Return the modified HTML and transformation status
     const serializer = new XMLSerializer();
     return {
         html: serializer.serializeToString(doc.body),
-        appliedTransformations
+        appliedTransformations,
+        tokens,
+        images
+    };
+}
+
+/**
+ * Removes empty elements (no text content and no meaningful children) from the document
+ * @param doc The parsed HTML document to modify
+ * @returns true if any elements were removed
+ */
+function removeEmptyElements(doc: Document): boolean {
+    let removed = false;
+
+    // Function to check if an element is empty (no text content and no meaningful children)
+    const isElementEmpty = (element: Element): boolean => {
+        // Skip certain elements that are meaningful even when empty
+        if (['img', 'hr', 'br', 'input', 'iframe'].includes(element.tagName.toLowerCase())) {
+            return false;
+        }
+
+        // Skip our special line break paragraphs
+        if (element.hasAttribute('data-preserve')) {
+            return false;
+        }
+
+        // Check if it has any text content (include whitespace)
+        if (element.textContent && element.textContent.length > 0) {
+            return false;
+        }
+
+        // Check if it has any non-empty children
+        for (let i = 0; i < element.children.length; i++) {
+            if (!isElementEmpty(element.children[i])) {
+                return false;
+            }
+        }
+
+        return true;
     };
+
+    // Find and remove empty elements
+    // We need to use a while loop because the DOM changes as we remove elements
+    let emptyElementsFound = true;
+    while (emptyElementsFound) {
+        emptyElementsFound = false;
+
+        // Target common empty elements
+        const potentialEmptyElements = doc.querySelectorAll('p, div, span, li, ul, ol, table, tr, td, th');
+        potentialEmptyElements.forEach(element => {
+            if (isElementEmpty(element)) {
+                element.remove();
+                emptyElementsFound = true;
+                removed = true;
+            }
+        });
+
+        // If no more empty elements are found, exit the loop
+        if (!emptyElementsFound) {
+            break;
+        }
+    }
+
+    return removed;
 }
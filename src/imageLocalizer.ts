@@ -0,0 +1,234 @@
+// Paste Reformatter - A plugin that re-formats pasted HTML text in Obsidian.
+// Copyright (C) 2025 by Keath Milligan.
+
+import { addToken } from './conversionTokens';
+
+/**
+ * How images in pasted HTML are handled:
+ * - keep: leave images linked to their original source
+ * - localize: save images into the vault as attachments and embed them
+ * - alt-text: replace images with their alt text
+ * - remove: drop images entirely
+ */
+export type ImageHandling = 'keep' | 'localize' | 'alt-text' | 'remove';
+
+/**
+ * An image to be saved into the vault
+ */
+export interface PastedImage {
+    source: string; // The original src, a remote URL or data URI
+    fileName: string; // The deterministic attachment file name
+    alt: string; // The image's alt text
+}
+
+/**
+ * Image data retrieved from a remote source
+ */
+export interface FetchedImage {
+    data: ArrayBuffer;
+    contentType?: string; // The Content-Type header, which gives the format of the image
+}
+
+/**
+ * Retrieves remote images. The plugin uses Obsidian's requestUrl; tests supply a stub.
+ */
+export type ImageFetcher = (url: string) => Promise<FetchedImage>;
+
+/**
+ * Where attachments are saved. The plugin implements this on top of the vault so
+ * that the user's attachment folder settings are honored.
+ */
+export interface AttachmentStore {
+    getAvailablePath(fileName: string): Promise<string>; // Path in the attachment folder for the note, made unique if the name is taken
+    exists(path: string): boolean;
+    write(path: string, data: ArrayBuffer): Promise<void>;
+}
+
+const MIME_EXTENSIONS: Record<string, string> = {
+    'image/png': 'png',
+    'image/jpeg': 'jpg',
+    'image/jpg': 'jpg',
+    'image/gif': 'gif',
+    'image/webp': 'webp',
+    'image/svg+xml': 'svg',
+    'image/bmp': 'bmp',
+    'image/avif': 'avif'
+};
+
+const IMAGE_EXTENSIONS = ['png', 'jpg', 'jpeg', 'gif', 'webp', 'svg', 'bmp', 'avif'];
+
+/**
+ * The result of saving pasted images
+ */
+export interface SavedImages {
+    failed: PastedImage[]; // The images that could not be saved
+    renamed: { image: PastedImage, fileName: string }[]; // Images saved with the extension of their format rather than the one guessed from their source
+}
+
+/**
+ * Computes the attachment file name for an image. The name is derived from a hash of the
+ * source, so pasting the same image again reuses the existing attachment. The extension is
+ * taken from the source; remote images without one get .png until their format is known
+ * (see saveImages).
+ * @param source The image src, a remote URL or data URI
+ * @returns The file name, e.g. "Pasted image 1a2b3c4d.png"
+ */
+export function imageFileName(source: string): string {
+    // 32-bit FNV-1a hash
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < source.length; i++) {
+        hash ^= source.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193) >>> 0;
+    }
+
+    let extension = 'png';
+    const dataMatch = source.match(/^data:([^;,]+)/i);
+    if (dataMatch) {
+        extension = MIME_EXTENSIONS[dataMatch[1].toLowerCase()] ?? extension;
+    } else {
+        const pathMatch = source.match(/\.([a-z0-9]+)(?:[?#]|$)/i);
+        if (pathMatch && IMAGE_EXTENSIONS.includes(pathMatch[1].toLowerCase())) {
+            extension = pathMatch[1].toLowerCase() === 'jpeg' ? 'jpg' : pathMatch[1].toLowerCase();
+        }
+    }
+
+    return `Pasted image ${hash.toString(16).padStart(8, '0')}.${extension}`;
+}
+
+/**
+ * Applies the image handling mode to the images in the pasted HTML. When localizing,
+ * images are replaced by embeds of their attachment and returned for saving.
+ * @param doc The parsed HTML document to modify
+ * @param handling The image handling mode
+ * @param tokens The token list used to pass Markdown through conversion
+ * @returns Whether any images were changed, and the images to save into the vault
+ */
+export function processImages(doc: Document, handling: ImageHandling, tokens: string[]): { changed: boolean, images: PastedImage[] } {
+    const images: PastedImage[] = [];
+    if (handling === 'keep') {
+        return { changed: false, images };
+    }
+
+    let changed = false;
+    for (const img of Array.from(doc.querySelectorAll('img'))) {
+        const source = img.getAttribute('src') ?? '';
+        const alt = (img.getAttribute('alt') ?? '').trim();
+
+        if (handling === 'remove') {
+            img.remove();
+        } else if (handling === 'alt-text') {
+            img.replaceWith(doc.createTextNode(alt));
+        } else if (/^(https?:|data:image\/)/i.test(source)) {
+            const fileName = imageFileName(source);
+            if (!images.some(image => image.fileName === fileName)) {
+                images.push({ source, fileName, alt });
+            }
+            img.replaceWith(doc.createTextNode(addToken(tokens, `![[${fileName}]]`)));
+        } else {
+            // Images that can't be saved, such as relative links, are left as they are
+            continue;
+        }
+        changed = true;
+    }
+
+    return { changed, images };
+}
+
+/**
+ * Decodes a data URI
+ * @param uri The data URI
+ * @returns The decoded data, or null if the URI is malformed
+ */
+export function decodeDataUri(uri: string): ArrayBuffer | null {
+    const match = uri.match(/^data:[^,]*?(;base64)?,([\s\S]*)$/i);
+    if (!match) {
+        return null;
+    }
+
+    try {
+        // Percent-encoded data is re-encoded so that every character is a single UTF-8 byte
+        const binary = match[1]
+            ? atob(match[2].replace(/\s/g, ''))
+            : encodeURIComponent(decodeURIComponent(match[2]))
+                .replace(/%([0-9a-f]{2})/gi, (_, hex) => String.fromCharCode(parseInt(hex, 16)));
+        const bytes = new Uint8Array(binary.length);
+        for (let i = 0; i < binary.length; i++) {
+            bytes[i] = binary.charCodeAt(i);
+        }
+        return bytes.buffer;
+    } catch (error) {
+        console.error(`Error decoding data URI: ${error}`);
+        return null;
+    }
+}
+
+/**
+ * Saves pasted images as attachments. Images whose attachment already exists are not
+ * saved again. Data URIs are decoded locally; remote images are retrieved with the fetcher,
+ * and saved with the extension of the format the server reports, so that a JPEG from a URL
+ * without an extension is not saved as a .png file.
+ * @param images The images to save
+ * @param fetcher Retrieves remote images
+ * @param store Where the attachments are saved
+ * @returns The images that could not be saved, and the images saved under another name
+ */
+export async function saveImages(images: PastedImage[], fetcher: ImageFetcher, store: AttachmentStore): Promise<SavedImages> {
+    const result: SavedImages = { failed: [], renamed: [] };
+
+    for (const image of images) {
+        try {
+            const path = await store.getAvailablePath(image.fileName);
+            const folder = path.includes('/') ? path.substring(0, path.lastIndexOf('/') + 1) : '';
+            // Already saved by an earlier paste, possibly under the extension of its format
+            const names = image.source.startsWith('data:') ? [image.fileName] : imageFileNames(image.fileName);
+            const existing = names.find(fileName => store.exists(folder + fileName));
+            if (existing) {
+                if (existing !== image.fileName) {
+                    result.renamed.push({ image, fileName: existing });
+                }
+                continue;
+            }
+
+            let data: ArrayBuffer | null;
+            let fileName = image.fileName;
+            if (image.source.startsWith('data:')) {
+                data = decodeDataUri(image.source);
+            } else {
+                const fetched = await fetcher(image.source);
+                data = fetched.data;
+                const extension = MIME_EXTENSIONS[(fetched.contentType ?? '').split(';')[0].trim().toLowerCase()];
+                if (extension) {
+                    fileName = withExtension(image.fileName, extension);
+                }
+            }
+            if (!data) {
+                throw new Error('invalid image data');
+            }
+            await store.write(folder + fileName, data);
+            if (fileName !== image.fileName) {
+                result.renamed.push({ image, fileName });
+            }
+        } catch (error) {
+            console.error(`Error saving pasted image ${image.source.substring(0, 100)}: ${error}`);
+            result.failed.push(image);
+        }
+    }
+
+    return result;
+}
+
+/**
+ * Replaces the extension of a file name
+ */
+function withExtension(fileName: string, extension: string): string {
+    return fileName.replace(/\.[^.]*$/, `.${extension}`);
+}
+
+/**
+ * Lists the names an image may have been saved under: its own name first, then the same
+ * name with the extension of each image format
+ */
+function imageFileNames(fileName: string): string[] {
+    const extensions = Array.from(new Set(Object.values(MIME_EXTENSIONS)));
+    return [fileName, ...extensions.map(extension => withExtension(fileName, extension)).filter(name => name !== fileName)];
+}
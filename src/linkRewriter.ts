@@ -0,0 +1,233 @@
+// Paste Reformatter - A plugin that re-formats pasted HTML text in Obsidian.
+// Copyright (C) 2025 by Keath Milligan.
+
+/**
+ * Query parameters removed by default when stripping tracking parameters. A trailing *
+ * matches any parameter with the given prefix.
+ */
+export const DEFAULT_TRACKING_PARAMETERS = [
+    'utm_*', 'fbclid', 'gclid', 'dclid', 'msclkid', 'yclid', 'igshid', 'mc_cid', 'mc_eid', '_hsenc', '_hsmkt', 'mkt_tok'
+];
+
+// Frontmatter properties that record the web page a note was created from
+export const NOTE_URL_PROPERTIES = ['source', 'url'];
+
+/**
+ * Looks up the note for a URL
+ * @returns The link text of the note (as used inside [[ ]]), or null if no note has the URL
+ */
+export type NoteLinkResolver = (url: string) => string | null;
+
+// Redirector services and the query parameter holding the destination
+const REDIRECTORS: { host: RegExp, path: RegExp, parameters: string[] }[] = [
+    { host: /^(www\.)?google\.[a-z.]+$/i, path: /^\/url$/, parameters: ['q', 'url'] },
+    { host: /\.safelinks\.protection\.outlook\.com$/i, path: /^\/?$/, parameters: ['url'] },
+    { host: /^l\.facebook\.com$/i, path: /^\/l\.php$/, parameters: ['u'] },
+    { host: /^(www\.)?youtube\.com$/i, path: /^\/redirect$/, parameters: ['q'] }
+];
+
+// Inline links and images, autolinks, and bare URLs, matched in a single pass so that each
+// URL is only processed once
+const LINK_REGEX = /(!?)\[((?:\\.|[^\]\\\n])*)\]\((<[^>\n]*>|[^\s()]*(?:\([^\s()]*\)[^\s()]*)*)((?:\s+"[^"\n]*")?)\)|<(https?:\/\/[^>\s]+)>|(https?:\/\/[^\s<>()[\]"']+)/g;
+
+/**
+ * Replaces a redirector URL with the URL it redirects to. Nested redirects are unwrapped as well.
+ * @param url The URL to unwrap
+ * @returns The destination URL, or the URL unchanged if it is not a known redirector
+ */
+export function unwrapRedirect(url: string): string {
+    for (let depth = 0; depth < 5; depth++) {
+        const parsed = parseUrl(url);
+        const redirector = parsed && REDIRECTORS.find(r => r.host.test(parsed.hostname) && r.path.test(parsed.pathname));
+        const target = parsed && redirector && redirector.parameters
+            .map(parameter => parsed.searchParams.get(parameter))
+            .find(value => value && /^https?:\/\//i.test(value));
+        if (!target) {
+            break;
+        }
+        url = target;
+    }
+    return url;
+}
+
+/**
+ * Removes tracking query parameters from a URL
+ * @param url The URL to clean
+ * @param parameters The parameter names to remove; a trailing * matches any parameter with that prefix
+ * @returns The URL without the tracking parameters, or the URL unchanged if it has none
+ */
+export function stripTrackingParameters(url: string, parameters: string[]): string {
+    const parsed = parseUrl(url);
+    if (!parsed || !parsed.search) {
+        return url;
+    }
+
+    const matchers = parameters
+        .map(parameter => parameter.trim().toLowerCase())
+        .filter(parameter => parameter !== '')
+        .map(parameter => parameter.endsWith('*')
+            ? (name: string) => name.startsWith(parameter.slice(0, -1))
+            : (name: string) => name === parameter);
+    const names = Array.from(new Set(Array.from(parsed.searchParams.keys())));
+    const tracking = names.filter(name => matchers.some(matches => matches(name.toLowerCase())));
+    if (tracking.length === 0) {
+        return url;
+    }
+
+    // Rebuild the query by hand so the remaining parameters keep their original encoding
+    const query = parsed.search.substring(1).split('&').filter(pair => {
+        const name = pair.split('=')[0];
+        return !tracking.includes(safeDecode(name));
+    });
+    return url.substring(0, url.indexOf('?')) + (query.length > 0 ? `?${query.join('&')}` : '') + parsed.hash;
+}
+
+/**
+ * Normalizes a URL for comparison with the URLs recorded in note frontmatter: the scheme,
+ * a leading "www.", the fragment and a trailing slash are ignored
+ * @param url The URL to normalize
+ * @returns The comparison key, or null if the value is not a web URL
+ */
+export function urlKey(url: string): string | null {
+    const parsed = parseUrl(url.trim());
+    if (!parsed) {
+        return null;
+    }
+    const host = parsed.hostname.toLowerCase().replace(/^www\./, '');
+    const path = parsed.pathname.replace(/\/+$/, '');
+    return `${host}${parsed.port ? ':' + parsed.port : ''}${path}${parsed.search}`;
+}
+
+/**
+ * Collects the URLs recorded in a note's frontmatter
+ * @param frontmatter The note's frontmatter
+ * @returns The values of the source and url properties that are web URLs
+ */
+export function frontmatterUrls(frontmatter: Record<string, unknown> | undefined): string[] {
+    const urls: string[] = [];
+    for (const property of NOTE_URL_PROPERTIES) {
+        const value = frontmatter?.[property];
+        for (const item of Array.isArray(value) ? value : [value]) {
+            if (typeof item === 'string' && /^https?:\/\//i.test(item.trim())) {
+                urls.push(item.trim());
+            }
+        }
+    }
+    return urls;
+}
+
+/**
+ * Creates a resolver that finds notes by the URLs recorded in their frontmatter
+ * @param notes The link text of each note and its URLs
+ * @returns The resolver; when several notes share a URL, the first one wins
+ */
+export function createNoteLinkResolver(notes: { linktext: string, urls: string[] }[]): NoteLinkResolver {
+    const index = new Map<string, string>();
+    for (const note of notes) {
+        for (const url of note.urls) {
+            const key = urlKey(url);
+            if (key !== null && !index.has(key)) {
+                index.set(key, note.linktext);
+            }
+        }
+    }
+    return url => {
+        const key = urlKey(url);
+        return key === null ? null : index.get(key) ?? null;
+    };
+}
+
+/**
+ * Rewrites the URLs of inline links, images, autolinks and bare URLs in Markdown. Redirector
+ * URLs are unwrapped, tracking parameters are removed, and links to pages that already have
+ * a note are converted into wikilinks.
+ * @param markdown The Markdown to rewrite, with code already protected
+ * @param settings The link settings
+ * @param resolveNoteLink Looks up notes by URL, required for converting links into wikilinks
+ * @returns The rewritten Markdown
+ */
+export function rewriteLinks(
+    markdown: string,
+    settings: {
+        stripTrackingParameters: boolean,
+        trackingParameters: string[],
+        unwrapRedirects: boolean,
+        linkToNotes: boolean
+    },
+    resolveNoteLink?: NoteLinkResolver
+): string {
+    if (!settings.stripTrackingParameters && !settings.unwrapRedirects && !(settings.linkToNotes && resolveNoteLink)) {
+        return markdown;
+    }
+
+    const cleanUrl = (url: string): string => {
+        if (settings.unwrapRedirects) {
+            url = unwrapRedirect(url);
+        }
+        if (settings.stripTrackingParameters) {
+            url = stripTrackingParameters(url, settings.trackingParameters);
+        }
+        return url;
+    };
+    const noteFor = (url: string): string | null =>
+        settings.linkToNotes && resolveNoteLink ? resolveNoteLink(url) : null;
+
+    return markdown.replace(LINK_REGEX, (match, bang, text, destination, title, autolink, bare, offset, input) => {
+        if (destination !== undefined) {
+            const bracketed = destination.startsWith('<');
+            const url = bracketed ? destination.slice(1, -1) : destination;
+            const cleaned = cleanUrl(url);
+
+            // Link text that would break the wikilink syntax keeps the Markdown link
+            const note = bang ? null : noteFor(cleaned);
+            if (note !== null && !/[[\]|]/.test(text)) {
+                return text === '' || text === note ? `[[${note}]]` : `[[${note}|${text}]]`;
+            }
+            if (cleaned === url) {
+                return match;
+            }
+            const newDestination = bracketed || /\s/.test(cleaned) ? `<${cleaned}>` : cleaned;
+            return `${bang}[${text}](${newDestination}${title})`;
+        }
+
+        if (autolink !== undefined) {
+            const cleaned = cleanUrl(autolink);
+            const note = noteFor(cleaned);
+            return note !== null ? `[[${note}]]` : `<${cleaned}>`;
+        }
+
+        // Bare URL: trailing punctuation belongs to the sentence, and underscores may have been
+        // escaped during conversion
+        const trailing = bare.match(/[.,;:!?*_~]+$/)?.[0] ?? '';
+        const original = bare.substring(0, bare.length - trailing.length);
+        const url = original.replace(/\\([\\_*~])/g, '$1');
+        const cleaned = cleanUrl(url);
+
+        // A bare URL directly after "](" is the destination of a link whose text could not be matched
+        const isDestination = input.substring(offset - 2, offset) === '](';
+        const note = isDestination ? null : noteFor(cleaned);
+        if (note !== null) {
+            return `[[${note}]]${trailing}`;
+        }
+        return (cleaned === url ? original : cleaned) + trailing;
+    });
+}
+
+function parseUrl(url: string): URL | null {
+    if (!/^https?:\/\//i.test(url)) {
+        return null;
+    }
+    try {
+        return new URL(url);
+    } catch {
+        return null;
+    }
+}
+
+function safeDecode(value: string): string {
+    try {
+        return decodeURIComponent(value.replace(/\+/g, ' '));
+    } catch {
+        return value;
+    }
+}
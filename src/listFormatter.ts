@@ -0,0 +1,210 @@
+// Paste Reformatter - A plugin that re-formats pasted HTML text in Obsidian.
+// Copyright (C) 2025 by Keath Milligan.
+
+import { blockRegion } from './markdownSegments';
+
+export type BulletMarker = 'keep' | '-' | '*' | '+';
+export type ListIndentation = 'keep' | 'tab' | 'spaces';
+export type ListSpacing = 'keep' | 'tight' | 'loose';
+
+/**
+ * How lists are formatted; 'keep' leaves that aspect of the lists as they were converted
+ */
+export interface ListFormatOptions {
+    bulletMarker: BulletMarker; // The marker of bulleted list items
+    indentation: ListIndentation; // How nested items and their continuation lines are indented
+    indentSize: number; // The number of spaces per level when indenting with spaces
+    renumber: boolean; // Whether to number the items of ordered lists consecutively from the first item's number
+    spacing: ListSpacing; // Whether list items are separated by blank lines (loose) or not (tight)
+    convertCheckboxes: boolean; // Whether to convert checkbox glyphs and [ ] or [x] at the start of a line into tasks
+}
+
+// A list item, after any blockquote markers: indentation, marker, and the separator and content
+const LIST_ITEM = /^([ \t]*)([-+*]|\d{1,9}[.)])(?:([ \t]+)(.*))?$/;
+const HORIZONTAL_RULE = /^[ \t]*([-*_])(?:[ \t]*\1){2,}[ \t]*$/;
+
+// Lines that end a list even without a blank line before them
+const BLOCK_START = /^(#{1,6}(\s|$)|\|)/;
+
+// A checkbox written as text, escaped brackets included, or as a glyph
+const CHECKBOX = /^(?:\\?\[([ xX])\\?\]|([☐□☑☒✓✔✅]))(?:[ \t]+|$)/;
+const UNCHECKED_GLYPHS = ['☐', '□'];
+
+// Tabs advance to the next multiple of this many columns
+const TAB_WIDTH = 4;
+
+/**
+ * A list item that following lines may belong to
+ */
+interface OpenItem {
+    markerColumn: number; // The column of the item's marker in the original Markdown
+    contentColumn: number; // The column of the item's content in the original Markdown
+    ordered: boolean;
+    number: number; // The item's number in the output
+    continuationIndent: string | null; // The indentation of lines belonging to the item, null to keep their indentation
+}
+
+/**
+ * Formats the lists in Markdown: bullet markers, indentation, numbering and the blank lines
+ * between items. Nesting is recognized leniently, as in Obsidian: an item indented further than
+ * the item before it is nested in that item. Lists in blockquotes are formatted as well.
+ * @param markdown The Markdown to format, with code already protected
+ * @param options How to format lists
+ * @param regions The protected regions, used to find out how code blocks are indented
+ * @returns The formatted Markdown
+ */
+export function normalizeLists(markdown: string, options: ListFormatOptions, regions: string[] = []): string {
+    const output: string[] = [];
+    let stack: OpenItem[] = [];
+    let quoteDepth = 0;
+    let blankLines: string[] = [];
+
+    for (const line of markdown.split('\n')) {
+        const quote = (line.match(/^(?:>[ \t]?)*/) as RegExpMatchArray)[0];
+        let text = line.substring(quote.length);
+
+        // Each blockquote has its own lists
+        const depth = quote.replace(/[^>]/g, '').length;
+        if (depth !== quoteDepth) {
+            stack = [];
+            quoteDepth = depth;
+        }
+
+        if (text.trim() === '') {
+            blankLines.push(line);
+            continue;
+        }
+
+        if (options.convertCheckboxes) {
+            text = convertCheckbox(text, options.bulletMarker === 'keep' ? '-' : options.bulletMarker);
+        }
+
+        const item = HORIZONTAL_RULE.test(text) ? null : text.match(LIST_ITEM);
+        if (item) {
+            const continuesList = stack.length > 0;
+            const markerColumn = columnWidth(item[1]);
+
+            // Items indented less than an open item close it; an item at the same column is its sibling
+            let previous: OpenItem | undefined;
+            while (stack.length > 0 && stack[stack.length - 1].markerColumn >= markerColumn) {
+                previous = stack.pop();
+                if (previous && previous.markerColumn <= markerColumn) {
+                    break;
+                }
+            }
+            const level = stack.length;
+
+            const ordered = /\d/.test(item[2]);
+            const number = ordered && options.renumber && previous?.ordered ? previous.number + 1 : parseInt(item[2]);
+            let marker = item[2];
+            if (ordered && options.renumber) {
+                marker = `${number}${item[2].slice(-1)}`;
+            } else if (!ordered && options.bulletMarker !== 'keep') {
+                marker = options.bulletMarker;
+            }
+
+            const content = item[4] ?? '';
+            const separator = options.indentation === 'keep' || content === '' ? item[3] ?? '' : ' ';
+            const indent = listIndent(item[1], level, options);
+            stack.push({
+                markerColumn,
+                contentColumn: markerColumn + item[2].length + columnWidth(item[3] ?? ' ', markerColumn + item[2].length),
+                ordered,
+                number,
+                continuationIndent: options.indentation === 'keep' ? null : continuationIndent(indent, marker, level, options)
+            });
+
+            if (continuesList && options.spacing === 'tight') {
+                blankLines = [];
+            } else if (continuesList && options.spacing === 'loose' && blankLines.length === 0) {
+                blankLines.push(quote.trimEnd());
+            }
+            output.push(...blankLines, quote + indent + marker + separator + content);
+            blankLines = [];
+            continue;
+        }
+
+        // Code blocks are protected as a whole, so their indentation is taken from their content
+        const block = blockRegion(text.trim(), regions);
+        const column = columnWidth((block ?? text).match(/^[ \t]*/)?.[0] ?? '');
+
+        if (stack.length > 0) {
+            if (blankLines.length > 0) {
+                // After a blank line, only indented lines belong to the list
+                while (stack.length > 0 && stack[stack.length - 1].markerColumn >= column) {
+                    stack.pop();
+                }
+            } else if (column === 0 && BLOCK_START.test(text)) {
+                stack = [];
+            }
+        }
+
+        // Lines belonging to an item follow its indentation
+        const owner = [...stack].reverse().find(open => open.markerColumn < column);
+        if (owner && owner.continuationIndent !== null && block === null) {
+            text = owner.continuationIndent + ' '.repeat(Math.max(0, column - owner.contentColumn)) + text.trimStart();
+        }
+
+        output.push(...blankLines, quote + text);
+        blankLines = [];
+    }
+
+    output.push(...blankLines);
+    return output.join('\n');
+}
+
+/**
+ * Gets the width of whitespace in columns
+ * @param whitespace The spaces and tabs
+ * @param start The column the whitespace starts at
+ */
+function columnWidth(whitespace: string, start: number = 0): number {
+    let column = start;
+    for (const character of whitespace) {
+        column = character === '\t' ? column + TAB_WIDTH - (column % TAB_WIDTH) : column + 1;
+    }
+    return column - start;
+}
+
+/**
+ * Gets the indentation of a list item at a nesting level
+ */
+function listIndent(original: string, level: number, options: ListFormatOptions): string {
+    switch (options.indentation) {
+        case 'tab':
+            return '\t'.repeat(level);
+        case 'spaces':
+            return ' '.repeat(level * options.indentSize);
+        default:
+            return original;
+    }
+}
+
+/**
+ * Gets the indentation of the lines belonging to a list item, which must reach the item's content
+ */
+function continuationIndent(indent: string, marker: string, level: number, options: ListFormatOptions): string {
+    if (options.indentation === 'tab') {
+        return '\t'.repeat(level + 1);
+    }
+    return ' '.repeat(Math.max(indent.length + marker.length + 1, (level + 1) * options.indentSize));
+}
+
+/**
+ * Converts a checkbox at the start of a line or list item into task syntax
+ * @param text The line, without blockquote markers
+ * @param bulletMarker The marker of the list item created for a checkbox that isn't in a list
+ */
+function convertCheckbox(text: string, bulletMarker: string): string {
+    const item = text.match(LIST_ITEM);
+    const prefix = item && !HORIZONTAL_RULE.test(text) ? `${item[1]}${item[2]}${item[3] ?? ' '}` : (text.match(/^[ \t]*/) as RegExpMatchArray)[0];
+    const content = text.substring(prefix.length);
+
+    const checkbox = content.match(CHECKBOX);
+    if (!checkbox) {
+        return text;
+    }
+    const checked = checkbox[1] ? checkbox[1] !== ' ' : !UNCHECKED_GLYPHS.includes(checkbox[2]);
+    const task = `[${checked ? 'x' : ' '}] ${content.substring(checkbox[0].length)}`.trimEnd();
+    return item && !HORIZONTAL_RULE.test(text) ? prefix + task : `${prefix}${bulletMarker} ${task}`;
+}
@@ -0,0 +1,59 @@
+// Paste Reformatter - A plugin that re-formats pasted HTML text in Obsidian.
+// Copyright (C) 2025 by Keath Milligan.
+
+/**
+ * A list item whose nesting is given by its level rather than by its position in the document
+ */
+export interface NestedListItem {
+    element: Element; // The <li> element
+    level: number; // The nesting level, starting at 1
+    type: 'ul' | 'ol'; // The kind of list the item belongs to
+}
+
+/**
+ * Builds nested lists from flat list items, as produced by applications that express
+ * nesting through indentation. Each item is moved into the list for its level, which is
+ * nested in the last item of the level above. Levels can't be skipped, so an item more
+ * than one level deeper than the previous item is nested one level deeper.
+ * @param doc The document the items belong to
+ * @param items The items, in document order
+ * @returns The top-level lists, in order; a new list starts where the list type changes
+ */
+export function buildNestedLists(doc: Document, items: NestedListItem[]): Element[] {
+    const roots: Element[] = [];
+    const stack: { list: Element, lastItem: Element | null }[] = [];
+
+    for (const item of items) {
+        const level = Math.min(Math.max(item.level, 1), stack.length + 1);
+        stack.length = Math.min(stack.length, level);
+
+        const current = stack[level - 1];
+        if (!current || current.list.tagName.toLowerCase() !== item.type) {
+            const newList = doc.createElement(item.type);
+            if (level === 1) {
+                roots.push(newList);
+            } else {
+                (stack[level - 2].lastItem ?? stack[level - 2].list).appendChild(newList);
+            }
+            stack[level - 1] = { list: newList, lastItem: null };
+        }
+        stack[level - 1].list.appendChild(item.element);
+        stack[level - 1].lastItem = item.element;
+    }
+
+    return roots;
+}
+
+/**
+ * Gets the next sibling element, skipping whitespace and comments, such as those between the
+ * paragraphs or lists that make up a single list in pasted documents
+ * @param element The element to start from
+ * @returns The next element, or null if other content or nothing follows
+ */
+export function nextElementSkippingWhitespace(element: Element): Element | null {
+    let next = element.nextSibling;
+    while (next && (next.nodeType === Node.COMMENT_NODE || (next.nodeType === Node.TEXT_NODE && (next.textContent ?? '').trim() === ''))) {
+        next = next.nextSibling;
+    }
+    return next && next.nodeType === Node.ELEMENT_NODE ? next as Element : null;
+}
@@ -1,46 +1,85 @@
 // Paste Reformatter - A plugin that re-formats pasted HTML text in Obsidian.
 // Copyright (C) 2025 by Keath Milligan.
 
-import { App, MarkdownView, Plugin, PluginSettingTab, Setting, htmlToMarkdown, Notice, setIcon } from 'obsidian';
-import { transformHTML } from './htmlTransformer';
-import { transformMarkdown } from './markdownTransformer';
-
-interface RegexReplacement {
-  pattern: string;
-  replacement: string;
-}
-
-interface PasteReformmatterSettings {
-  pasteOverride: boolean; // Whether to override the default paste behavior
-  showPasteNotifications: boolean; // Whether to show a notice after successful paste reformatting
-  maxHeadingLevel: number; // The maximum heading level to allow (1-6, where 1 is disabled)
-  removeEmptyElements: boolean; // Whether to remove empty elements when reformatting pasted content
-  cascadeHeadingLevels: boolean; // Whether to cascade heading levels (e.g., H1→H2→H3 becomes H2→H3→H4 when max level is H2)
-  contextualCascade: boolean; // Whether to cascade headings based on the current context (e.g., if cursor is in an H2 section, headings will start from H3)
-  stripLineBreaks: boolean; // Whether to strip hard line breaks (br tags) when reformatting pasted content
-  convertToSingleSpaced: boolean; // Whether to collapse multiple consecutive blank lines into a single blank line
-  removeEmptyLines: boolean; // Whether to remove blank lines in the Markdown output
-  htmlRegexReplacements: RegexReplacement[]; // Regular expression replacements to apply to the HTML content before converting to Markdown
-  markdownRegexReplacements: RegexReplacement[]; // Regular expression replacements to apply to the Markdown content after HTML conversion
-}
-
-const DEFAULT_SETTINGS: PasteReformmatterSettings = {
-  pasteOverride: true,
-  showPasteNotifications: true,
-  maxHeadingLevel: 1,
-  removeEmptyElements: false,
-  cascadeHeadingLevels: true,
-  contextualCascade: true,
-  stripLineBreaks: false,
-  convertToSingleSpaced: false,
-  removeEmptyLines: false,
-  htmlRegexReplacements: [],
-  markdownRegexReplacements: []
-}
+import { App, Editor, MarkdownView, Plugin, PluginSettingTab, Setting, Notice, TFile, setIcon, requestUrl } from 'obsidian';
+import { AttributionPosition, DEFAULT_ATTRIBUTION_TEMPLATE, addFrontmatterProperty, pasteSource } from './attribution';
+import { formatCalloutClasses, parseCalloutClasses } from './callouts';
+import { DOMRule, DOMRuleAction, validateDOMRule } from './domRules';
+import { footnoteLabels } from './footnotes';
+import { AttachmentStore, ImageFetcher, ImageHandling, PastedImage, saveImages } from './imageLocalizer';
+import { DEFAULT_TRACKING_PARAMETERS, NoteLinkResolver, createNoteLinkResolver, frontmatterUrls } from './linkRewriter';
+import { BulletMarker, ListIndentation, ListSpacing } from './listFormatter';
+import { ESCAPED_SYNTAX, ESCAPED_SYNTAX_NAMES } from './markdownEscaper';
+import {
+  FolderOverride, NOTE_OVERRIDES_PROPERTY, OverriddenValue, OverrideLayer, applyOverrides, describeLayer, formatOverrides, matchingFolders, noteOverrides, parseOverrides
+} from './overrides';
+import { LastPaste, RawPasteMode, findPastedText, rawPasteText, replaceInPaste, snapshotClipboard } from './pasteHistory';
+import { reformatPaste } from './pasteProcessor';
+import { PastePreviewModal } from './previewModal';
+import { PresetsModal } from './presetsModal';
+import { ProfileMatchType, selectProfile } from './profiles';
+import { TableFallback } from './tableTransformer';
+import { reformatText, splitFrontmatter } from './textReformatter';
+import {
+  AttributionStep, HTML_STEP_TYPES, HeadingsStep, LinksStep, ListsStep, MARKDOWN_STEP_TYPES, PipelineStep, PlainTextStep, RegexReplacement, STEP_NAMES, StepType, TitleHeadingHandling,
+  copySteps, createStep, defaultHTMLSteps, defaultMarkdownSteps, enabledSteps, stepDisplayName
+} from './pipeline';
+import { REGEX_FLAGS, validateRule } from './regexRules';
+import { RegexTestModal } from './regexTestModal';
+import {
+  PasteProfile, PasteReformmatterSettings, ReformatOptions, SETTINGS_VERSION, copyReformatOptions, loadSettingsData, settingsDataVersion
+} from './settings';
+import { ExportSettingsModal, ImportSettingsModal } from './settingsFileModals';
+import { SETTINGS_SECTION_NAMES, SettingsSection, exportSettings, importSettings } from './settingsTransfer';
+
+const MATCH_TYPE_LABELS: Record<ProfileMatchType, string> = {
+  'source-url': 'Source URL',
+  'generator': 'Generator',
+  'html': 'HTML content'
+};
+
+const DOM_RULE_ACTION_LABELS: Record<DOMRuleAction, string> = {
+  'remove': 'Remove',
+  'unwrap': 'Unwrap',
+  'replace-tag': 'Replace tag',
+  'strip-attributes': 'Strip attributes'
+};
+
+const STEP_DESCRIPTIONS: Record<StepType, string> = {
+  'html-regex': 'Apply regular expression replacements to the HTML content. You can use $1, $2, etc. to reference capture groups.',
+  'google-docs': 'Clean up content copied from Google Docs: turn inline styles into bold, italic and strikethrough, remove the wrapper that makes the whole paste bold, and rebuild nested lists and checklists. Other content is not changed.',
+  'office': 'Clean up content copied from Word and Outlook: remove Office markup, styles and empty spacer paragraphs, and turn Word\'s bulleted and numbered paragraphs into real nested lists. Other content is not changed.',
+  'callouts': 'Turn admonitions from documentation sites, GitHub and Bootstrap alerts and Confluence info panels into Obsidian callouts, keeping their title and content',
+  'code-blocks': 'Turn syntax-highlighted code from sites such as GitHub, MDN and Stack Overflow into fenced code blocks tagged with their language, without line numbers or copy buttons',
+  'math': 'Turn equations rendered by MathJax, KaTeX or MathML, as on Wikipedia, arXiv and Math Stack Exchange, back into LaTeX: $...$ inline and $$...$$ for display math',
+  'footnotes': 'Turn references and citations linking to footnotes in the pasted content, such as Wikipedia references and blog footnotes, into Obsidian footnotes, renumbered so they don\'t clash with the footnotes already in the note',
+  'dom-rules': 'Change the elements matching CSS selectors: remove them, unwrap them to their content, replace their tag or strip their attributes. Rules apply in order.',
+  'strip-line-breaks': 'Remove line breaks (br tags) when reformatting pasted content',
+  'images': 'How to handle images in pasted content',
+  'remove-empty-elements': 'Remove empty elements when reformatting pasted content',
+  'normalize-tables': 'Convert tables into valid Markdown tables: merged cells are expanded, and line breaks and lists inside cells are kept on one line with <br>',
+  'plain-text': 'Recognize what is pasted as plain text: turn spreadsheet data into tables, and put code, terminal output, logs, JSON and YAML in code blocks. Content copied as HTML is not changed.',
+  'links': 'Clean up link URLs and link to notes you already have',
+  'markdown-regex': 'Apply regular expression replacements to the Markdown content. You can use $1, $2, etc. to reference capture groups. Code, math and comments are left alone unless "Code" is checked.',
+  'headings': 'Adjust heading levels to fit the note, close gaps between levels, strip manual numbering and handle a heading that repeats the note title',
+  'lists': 'Format lists to match your notes: bullet markers, indentation, numbering, spacing between items, and checkboxes',
+  'single-spaced': 'Collapse multiple consecutive blank lines into a single blank line',
+  'remove-empty-lines': 'Remove blank lines in the Markdown output',
+  'attribution': 'Record the page that content was copied from, when the browser provides its address: insert a line or callout from a template, and optionally add the address to the note\'s frontmatter'
+};
 
 export default class PasteReformatter extends Plugin {
   settings: PasteReformmatterSettings;
 
+  // The last reformatted paste, kept so that its reformatting can be undone
+  lastPaste: LastPaste | null = null;
+
+  // Retrieves remote images when localizing pasted images
+  imageFetcher: ImageFetcher = async (url) => {
+    const response = await requestUrl({ url });
+    return { data: response.arrayBuffer, contentType: response.headers['content-type'] };
+  };
+
   async onload() {
     await this.loadSettings();
 
@@ -71,7 +110,19 @@ export default class PasteReformatter extends Plugin {
       }
     });
 
-    // Register command to paste with all markdown escaped
+    // Register command to preview and adjust the reformatted content before pasting
+    this.addCommand({
+      id: 'reformat-and-paste-with-preview',
+      name: 'Reformat and Paste with preview',
+      callback: async () => {
+        const dataTransfer = await this.getClipboardData();
+        if (dataTransfer) {
+          this.previewPaste(dataTransfer);
+        }
+      }
+    });
+
+    // Register command to paste with the selected markdown syntax escaped
     this.addCommand({
       id: 'paste-with-escaped-markdown',
       name: 'Paste with Escaped Markdown',
@@ -86,13 +137,70 @@ export default class PasteReformatter extends Plugin {
         }
       }
     });
+
+    // Register commands to run the Markdown pipeline over text already in the note
+    this.addCommand({
+      id: 'reformat-selection',
+      name: 'Reformat selection',
+      editorCheckCallback: (checking, editor, ctx) => {
+        if (!editor.somethingSelected()) {
+          return false;
+        }
+        if (!checking) {
+          this.reformatEditorText(editor, ctx.file, true);
+        }
+        return true;
+      }
+    });
+
+    this.addCommand({
+      id: 'reformat-current-note',
+      name: 'Reformat current note',
+      editorCallback: (editor, ctx) => {
+        this.reformatEditorText(editor, ctx.file, false);
+      }
+    });
+
+    // Register commands to replace the last reformatted paste with the original clipboard content
+    this.addCommand({
+      id: 'undo-reformatting',
+      name: 'Undo reformatting of last paste',
+      editorCheckCallback: (checking, editor, ctx) => {
+        if (!this.lastPaste || this.lastPaste.filePath !== (ctx.file?.path ?? '')) {
+          return false;
+        }
+        if (!checking) {
+          this.undoReformatting(editor, 'default');
+        }
+        return true;
+      }
+    });
+
+    this.addCommand({
+      id: 'replace-last-paste-with-plain-text',
+      name: 'Replace last paste with plain text',
+      editorCheckCallback: (checking, editor, ctx) => {
+        if (!this.lastPaste || this.lastPaste.filePath !== (ctx.file?.path ?? '')) {
+          return false;
+        }
+        if (!checking) {
+          this.undoReformatting(editor, 'plain-text');
+        }
+        return true;
+      }
+    });
   }
 
   onunload() {
   }
 
   async loadSettings() {
-    this.settings = Object.assign({}, DEFAULT_SETTINGS, await this.loadData());
+    // Settings saved by earlier versions are migrated to the current settings version
+    const data = await this.loadData();
+    if (data && settingsDataVersion(data) > SETTINGS_VERSION) {
+      new Notice('Paste Reformatter: your settings were saved by a newer version of the plugin. Update the plugin to avoid losing settings.');
+    }
+    this.settings = loadSettingsData(data);
   }
 
   async saveSettings() {
@@ -139,6 +247,55 @@ export default class PasteReformatter extends Plugin {
     return null; // Return null if clipboard data is not available
   }
 
+  /**
+   * Resolves the reformatting options to use for the given clipboard HTML.
+   * @param html The raw clipboard HTML (empty for plain text pastes)
+   * @returns The matching profile, or null along with the default options
+   */
+  resolveProfile(html: string): { profile: PasteProfile | null, options: ReformatOptions } {
+    const profile = selectProfile(this.settings.profiles, html);
+    return { profile, options: profile ?? this.settings };
+  }
+
+  /**
+   * Layers the overrides of the note's folders and of its paste-reformatter property over
+   * the reformatting options.
+   * @param options The options of the profile, or the default options
+   * @param file The note being pasted into
+   * @returns The options to use and the values that were overridden, with the layer that supplied each
+   */
+  resolveOverrides(options: ReformatOptions, file: TFile | null): { options: ReformatOptions, overridden: OverriddenValue[] } {
+    if (!file) {
+      return { options, overridden: [] };
+    }
+
+    const layers: OverrideLayer[] = matchingFolders(this.settings.folderOverrides, file.path)
+      .map(rule => ({ layer: 'folder', name: rule.folder.trim() || '/', overrides: rule.overrides }));
+    const note = noteOverrides(this.app.metadataCache.getFileCache(file)?.frontmatter?.[NOTE_OVERRIDES_PROPERTY]);
+    for (const error of note.errors) {
+      console.log(`Ignoring ${NOTE_OVERRIDES_PROPERTY} setting in ${file.path}: ${error}`);
+    }
+    layers.push({ layer: 'note', name: file.basename, overrides: note.overrides });
+
+    return applyOverrides(options, layers);
+  }
+
+  /**
+   * Builds a resolver that finds notes by the URL recorded in their source or url property
+   * @param sourcePath The path of the note being pasted into, used to compute link text
+   * @returns The resolver
+   */
+  createNoteLinkResolver(sourcePath: string): NoteLinkResolver {
+    const notes = this.app.vault.getMarkdownFiles()
+      .filter(file => file.path !== sourcePath)
+      .map(file => ({
+        linktext: this.app.metadataCache.fileToLinktext(file, sourcePath, true),
+        urls: frontmatterUrls(this.app.metadataCache.getFileCache(file)?.frontmatter)
+      }))
+      .filter(note => note.urls.length > 0);
+    return createNoteLinkResolver(notes);
+  }
+
   doPaste(clipboardData: DataTransfer, escapeMarkdown: boolean = false): boolean {
     // Get the active editor using non-deprecated API
     const activeView = this.app.workspace.getActiveViewOfType(MarkdownView);
@@ -152,50 +309,62 @@ export default class PasteReformatter extends Plugin {
     }
 
     try {
-      let originalMarkdown = '';
-      let appliedHTMLTransformations = false;
-      let appliedMarkdownTransformations = false;
-
-      // Check if HTML format is available
-      if (clipboardData.types.includes('text/html')) {
-        // Process as HTML
-        const html = clipboardData.getData('text/html');
-
-        // Transform HTML before converting to Markdown
-        const result = transformHTML(html, this.settings);
-        // console.log(`Original HTML: ${html}`);
-        console.log(`Transformed HTML: ${result.html}`);
-
-        // Use Obsidian's built-in htmlToMarkdown function
-        originalMarkdown = htmlToMarkdown(result.html);
-
-        appliedHTMLTransformations = result.appliedTransformations;
-      } else if (clipboardData.types.includes('text/plain')) {
-        // Process as plain text - treat it as already being Markdown
-        originalMarkdown = clipboardData.getData('text/plain');
-      } else {
-        // No supported format found
-        // console.log("No HTML or plain text content found in clipboard");
-        return false;
+      // Pick the profile that matches where the content was copied from
+      const html = clipboardData.types.includes('text/html') ? clipboardData.getData('text/html') : '';
+      const { profile, options: profileOptions } = this.resolveProfile(html);
+      if (profile) {
+        console.log(`Using paste profile: ${profile.name}`);
       }
+      // Then apply the overrides of the note's folders and of the note itself
+      const { options, overridden } = this.resolveOverrides(profileOptions, activeView.file);
 
       // Get the current context for contextual cascade
       let contextLevel = 0;
-      if (this.settings.contextualCascade) {
+      if (enabledSteps(options.markdownSteps, 'headings').some(step => step.options.contextualCascade)) {
         contextLevel = this.getCurrentHeadingLevel(editor);
       }
 
-      // Apply settings to transform the markdown
-      console.log(`original markdown: ${originalMarkdown}`);
-      const markdownResult = transformMarkdown(originalMarkdown, this.settings, contextLevel, escapeMarkdown);
-      appliedMarkdownTransformations = markdownResult.appliedTransformations;
+      const linkToNotes = enabledSteps(options.markdownSteps, 'links').some(step => step.options.linkToNotes);
+      const resolveNoteLink = linkToNotes ? this.createNoteLinkResolver(activeView.file?.path ?? '') : undefined;
+      // Pasted footnotes are renumbered to follow the ones already in the note
+      const noteFootnotes = enabledSteps(options.htmlSteps, 'footnotes').length > 0 ? footnoteLabels(editor.getValue()) : [];
+      const settings = escapeMarkdown ? { ...options, escapedSyntax: this.settings.escapedSyntax } : options;
+      const result = reformatPaste(clipboardData, settings, contextLevel, escapeMarkdown, resolveNoteLink, activeView.file?.basename ?? null, noteFootnotes);
 
       // Show notification
-      if (appliedHTMLTransformations || appliedMarkdownTransformations) {
+      if (result && result.appliedTransformations) {
         // Replace the current selection with the converted markdown
-        editor.replaceSelection(markdownResult.markdown);
+        editor.replaceSelection(result.markdown);
+        this.lastPaste = {
+          filePath: activeView.file?.path ?? '',
+          clipboard: snapshotClipboard(clipboardData),
+          markdown: result.markdown,
+          offset: editor.posToOffset(editor.getCursor()) - result.markdown.length
+        };
+        if (!escapeMarkdown) {
+          this.recordSource(editor, options, html);
+        }
+        if (result.images.length > 0) {
+          this.localizeImages(result.images, activeView).catch(error => console.error("Error saving pasted images:", error));
+        }
         if (this.settings.showPasteNotifications) {
-          new Notice(`Reformatted pasted content`);
+          const message = profile ? `Reformatted pasted content (${profile.name})` : `Reformatted pasted content`;
+          new Notice(this.settings.showUndoAction || overridden.length > 0 ? createFragment(el => {
+            el.appendText(message);
+            if (this.settings.showUndoAction) {
+              el.appendText(' ');
+              el.createEl('a', { text: 'Undo', href: '#' }).addEventListener('click', event => {
+                event.preventDefault();
+                // The view may have moved on to another note since the paste
+                if (activeView.file?.path === this.lastPaste?.filePath) {
+                  this.undoReformatting(activeView.editor, 'default');
+                }
+              });
+            }
+            for (const value of overridden) {
+              el.createDiv({ text: `${value.key}: ${value.value} (${describeLayer(value)})` });
+            }
+          }) : message);
         }
         return true;
       } else {
@@ -208,6 +377,189 @@ export default class PasteReformatter extends Plugin {
     }
   }
 
+  /**
+   * Runs the Markdown pipeline of the default profile, with the note's overrides, over the
+   * selection or the whole note, replacing it in a single edit so that it can be undone in one step
+   * @param editor The editor containing the text
+   * @param file The note, used to compute link text and by heading steps
+   * @param selectionOnly Whether to reformat the selection rather than the whole note
+   */
+  reformatEditorText(editor: Editor, file: TFile | null, selectionOnly: boolean): void {
+    const lastLine = editor.lastLine();
+    const from = selectionOnly ? editor.getCursor('from') : { line: 0, ch: 0 };
+    const to = selectionOnly ? editor.getCursor('to') : { line: lastLine, ch: editor.getLine(lastLine).length };
+    const text = editor.getRange(from, to);
+
+    try {
+      const { options } = this.resolveOverrides(this.settings, file);
+      const linkToNotes = enabledSteps(options.markdownSteps, 'links').some(step => step.options.linkToNotes);
+      const resolveNoteLink = linkToNotes ? this.createNoteLinkResolver(file?.path ?? '') : undefined;
+      const result = reformatText(text, editor.getRange({ line: 0, ch: 0 }, from), options, resolveNoteLink, file?.basename ?? null);
+
+      if (!result.appliedTransformations || result.markdown === text) {
+        new Notice('Nothing to reformat');
+        return;
+      }
+
+      editor.replaceRange(result.markdown, from, to);
+      if (selectionOnly) {
+        editor.setSelection(from, editor.offsetToPos(editor.posToOffset(from) + result.markdown.length));
+      }
+      if (this.settings.showPasteNotifications) {
+        new Notice(selectionOnly ? 'Reformatted selection' : 'Reformatted note');
+      }
+    } catch (error) {
+      console.error("Error reformatting text:", error);
+      new Notice("Error reformatting text");
+    }
+  }
+
+  /**
+   * Replaces the last reformatted paste with the original clipboard content, in a single edit
+   * so that undoing it brings back the reformatted content
+   * @param editor The editor the content was pasted into
+   * @param mode How to paste the original content
+   */
+  undoReformatting(editor: Editor, mode: RawPasteMode): void {
+    const paste = this.lastPaste;
+    if (!paste) {
+      new Notice('Nothing to undo');
+      return;
+    }
+
+    const offset = findPastedText(editor.getValue(), paste);
+    if (offset === null) {
+      new Notice('The pasted content was changed after it was pasted and can no longer be replaced');
+      return;
+    }
+
+    const text = rawPasteText(paste.clipboard, mode);
+    editor.replaceRange(text, editor.offsetToPos(offset), editor.offsetToPos(offset + paste.markdown.length));
+    editor.setCursor(editor.offsetToPos(offset + text.length));
+
+    // Keep the paste so that it can still be switched to the other raw form
+    this.lastPaste = { ...paste, markdown: text, offset };
+  }
+
+  /**
+   * Adds the address of the page pasted content was copied from to the note's frontmatter,
+   * for each source attribution step with a frontmatter property
+   * @param editor The editor the content was pasted into
+   * @param options The options used for the paste
+   * @param html The raw clipboard HTML (empty for plain text pastes)
+   */
+  recordSource(editor: Editor, options: ReformatOptions, html: string): void {
+    const properties = enabledSteps(options.markdownSteps, 'attribution')
+      .map(step => step.options.property.trim())
+      .filter(property => property !== '');
+    const source = html && properties.length > 0 ? pasteSource(html) : null;
+    if (!source) {
+      return;
+    }
+
+    for (const property of properties) {
+      const { frontmatter } = splitFrontmatter(editor.getValue());
+      const updated = addFrontmatterProperty(frontmatter, property, source.url);
+      if (updated !== null) {
+        editor.replaceRange(updated, { line: 0, ch: 0 }, editor.offsetToPos(frontmatter.length));
+      }
+    }
+  }
+
+  /**
+   * Saves pasted images into the vault's attachment folder. The pasted content already embeds
+   * the attachments; embeds of images saved with another extension are updated, and embeds of
+   * images that could not be saved are replaced with a link to the original image (or its alt
+   * text for data URIs).
+   * @param images The images to save
+   * @param view The view the images were pasted into
+   */
+  async localizeImages(images: PastedImage[], view: MarkdownView): Promise<void> {
+    const sourcePath = view.file?.path ?? '';
+    const store: AttachmentStore = {
+      getAvailablePath: fileName => this.app.fileManager.getAvailablePathForAttachment(fileName, sourcePath),
+      exists: path => this.app.vault.getAbstractFileByPath(path) !== null,
+      write: async (path, data) => {
+        const folder = path.includes('/') ? path.substring(0, path.lastIndexOf('/')) : '';
+        if (folder && !this.app.vault.getAbstractFileByPath(folder)) {
+          await this.app.vault.createFolder(folder);
+        }
+        await this.app.vault.createBinary(path, data);
+      }
+    };
+
+    const replaceEmbeds = (fileName: string, replacement: string): void => {
+      this.replaceEmbeds(view.editor, fileName, replacement);
+      // Keep the last paste in step with the note so that it can still be undone
+      if (this.lastPaste?.filePath === sourcePath) {
+        this.lastPaste = replaceInPaste(this.lastPaste, `![[${fileName}]]`, replacement);
+      }
+    };
+
+    const { failed, renamed } = await saveImages(images, this.imageFetcher, store);
+    for (const { image, fileName } of renamed) {
+      replaceEmbeds(image.fileName, `![[${fileName}]]`);
+    }
+    if (failed.length === 0) {
+      return;
+    }
+
+    for (const image of failed) {
+      replaceEmbeds(image.fileName, image.source.startsWith('data:') ? image.alt : `![${image.alt}](${image.source})`);
+    }
+    new Notice(`Could not save ${failed.length} pasted image${failed.length === 1 ? '' : 's'} into the vault`);
+  }
+
+  /**
+   * Replaces every embed of an attachment in the editor
+   * @param editor The editor
+   * @param fileName The file name of the attachment
+   * @param replacement The text to put in place of each embed
+   */
+  replaceEmbeds(editor: Editor, fileName: string, replacement: string): void {
+    const embed = `![[${fileName}]]`;
+    let offset = editor.getValue().indexOf(embed);
+    while (offset >= 0) {
+      editor.replaceRange(replacement, editor.offsetToPos(offset), editor.offsetToPos(offset + embed.length));
+      offset = editor.getValue().indexOf(embed, offset + replacement.length);
+    }
+  }
+
+  /**
+   * Opens the preview modal for the clipboard content, inserting the result into
+   * the active editor when confirmed.
+   * @param clipboardData The clipboard content to preview
+   */
+  previewPaste(clipboardData: DataTransfer): void {
+    const activeView = this.app.workspace.getActiveViewOfType(MarkdownView);
+    if (!activeView?.editor) {
+      new Notice("Open a note to paste into.");
+      return;
+    }
+
+    const editor = activeView.editor;
+    const html = clipboardData.types.includes('text/html') ? clipboardData.getData('text/html') : '';
+    const { options, overridden } = this.resolveOverrides(this.resolveProfile(html).options, activeView.file);
+    const contextLevel = this.getCurrentHeadingLevel(editor);
+    const resolveNoteLink = this.createNoteLinkResolver(activeView.file?.path ?? '');
+    const noteFootnotes = footnoteLabels(editor.getValue());
+    const clipboard = snapshotClipboard(clipboardData);
+
+    new PastePreviewModal(this.app, clipboardData, options, contextLevel, false, resolveNoteLink, activeView.file?.basename ?? null, noteFootnotes, overridden, (markdown, images) => {
+      editor.replaceSelection(markdown);
+      this.lastPaste = {
+        filePath: activeView.file?.path ?? '',
+        clipboard,
+        markdown,
+        offset: editor.posToOffset(editor.getCursor()) - markdown.length
+      };
+      this.recordSource(editor, options, html);
+      if (images.length > 0) {
+        this.localizeImages(images, activeView).catch(error => console.error("Error saving pasted images:", error));
+      }
+    }).open();
+  }
+
   /**
    * Determines whether the cursor is currently inside a fenced code block.
    * Scans backward from the cursor line, counting opening and closing fences
@@ -303,19 +655,25 @@ export default class PasteReformatter extends Plugin {
 
 class PasteReformmatterSettingsTab extends PluginSettingTab {
   plugin: PasteReformatter;
+  editingProfile: number = -1; // Index of the profile being edited, or -1 for the default profile
 
   constructor(app: App, plugin: PasteReformatter) {
     super(app, plugin);
     this.plugin = plugin;
   }
 
-  private scrollNewRowIntoView(type: 'html' | 'markdown'): void {
-    // Find the appropriate table based on type
-    const containerClass = type === 'html' ? 'regex-replacements-container' : 'regex-replacements-container';
+  /**
+   * Returns the options currently being edited (the default options or the selected profile)
+   */
+  private get options(): ReformatOptions {
+    return this.plugin.settings.profiles[this.editingProfile] ?? this.plugin.settings;
+  }
+
+  private scrollNewRowIntoView(containerIndex: number): void {
     const containers = this.containerEl.querySelectorAll('.regex-replacements-container');
 
-    // Get the correct container (HTML is first, Markdown is second)
-    const targetContainer = type === 'html' ? containers[0] : containers[1];
+    // Get the container the row was added to
+    const targetContainer = containers[containerIndex];
 
     if (targetContainer) {
       const table = targetContainer.querySelector('table');
@@ -340,61 +698,41 @@ class PasteReformmatterSettingsTab extends PluginSettingTab {
     }
   }
 
-  display(): void {
-    const { containerEl } = this;
-
-    containerEl.empty();
-
-    new Setting(containerEl)
-      .setName('Override default paste behavior')
-      .setDesc('Alter the behavior of the default paste action to reformat pasted content.')
-      .addToggle(toggle => toggle
-        .setValue(this.plugin.settings.pasteOverride)
-        .onChange(async (value) => {
-          this.plugin.settings.pasteOverride = value;
-          await this.plugin.saveSettings();
-        }));
-
-    new Setting(containerEl)
-      .setName('Show paste notifications')
-      .setDesc('Display a notice when pasted content is reformatted.')
-      .addToggle(toggle => toggle
-        .setValue(this.plugin.settings.showPasteNotifications)
-        .onChange(async (value) => {
-          this.plugin.settings.showPasteNotifications = value;
-          await this.plugin.saveSettings();
-        }));
-
-    // HTML Transformations
-    new Setting(containerEl)
-      .setName('HTML transformations')
-      .setHeading()
-      .setDesc('Control how the HTML content is processed before being converted to Markdown.');
-
-    new Setting(containerEl)
-      .setName('Remove empty elements')
-      .setDesc('Remove empty elements when reformatting pasted content')
-      .addToggle(toggle => toggle
-        .setValue(this.plugin.settings.removeEmptyElements)
-        .onChange(async (value) => {
-          this.plugin.settings.removeEmptyElements = value;
-          await this.plugin.saveSettings();
-        }));
-
-    new Setting(containerEl)
-      .setName('Strip hard line breaks')
-      .setDesc('Remove line breaks (br tags) when reformatting pasted content')
-      .addToggle(toggle => toggle
-        .setValue(this.plugin.settings.stripLineBreaks)
-        .onChange(async (value) => {
-          this.plugin.settings.stripLineBreaks = value;
-          await this.plugin.saveSettings();
-        }));
-
-    new Setting(containerEl)
-      .setName('HTML regex replacements')
-      .setDesc('Apply regular expression replacements to the HTML content before converting to Markdown. You can use $1, $2, etc. to reference capture groups.');
+  /**
+   * Creates a clickable icon button with keyboard support
+   * @param parentEl The element to add the icon to
+   * @param className The CSS class of the icon
+   * @param icon The icon name
+   * @param label The tooltip and accessible label
+   * @param onClick Called when the icon is activated
+   */
+  private createIconButton(parentEl: HTMLElement, className: string, icon: string, label: string, onClick: () => void): HTMLElement {
+    const iconEl: HTMLElement = parentEl.createEl(className === 'regex-add-icon' ? 'div' : 'span');
+    iconEl.className = className;
+    iconEl.setAttribute('title', label);
+    iconEl.setAttribute('aria-label', label);
+    iconEl.setAttribute('role', 'button');
+    iconEl.setAttribute('tabindex', '0');
+    setIcon(iconEl, icon);
+    iconEl.addEventListener('click', onClick);
+    // Add keyboard support for accessibility
+    iconEl.addEventListener('keydown', (e) => {
+      if (e.key === 'Enter' || e.key === ' ') {
+        e.preventDefault();
+        iconEl.click();
+      }
+    });
+    return iconEl;
+  }
 
+  /**
+   * Renders an editable table of regex replacements. Each rule takes two rows: the pattern,
+   * flags and replacement, followed by the rule's name and description.
+   * @param containerEl The element to render the table into
+   * @param replacements The list of replacements to edit
+   * @param type Which kind of content the replacements apply to
+   */
+  private renderRegexReplacements(containerEl: HTMLElement, replacements: RegexReplacement[], type: 'html' | 'markdown'): void {
     // Create a container for the regex replacement rows
     const regexContainer = containerEl.createDiv();
     regexContainer.addClass('regex-replacements-container');
@@ -407,30 +745,67 @@ class PasteReformmatterSettingsTab extends PluginSettingTab {
     const thead = table.createEl('thead');
     const headerRow = thead.createEl('tr');
 
+    // Enabled header
+    const enabledHeader = headerRow.createEl('th');
+    enabledHeader.setAttribute('title', 'Enabled');
+    enabledHeader.addClass('regex-th');
+    enabledHeader.addClass('regex-th-enabled');
+
     // Pattern header
     const patternHeader = headerRow.createEl('th');
     patternHeader.setText('Pattern');
     patternHeader.addClass('regex-th');
     patternHeader.addClass('regex-th-pattern');
 
+    // Flags header
+    const flagsHeader = headerRow.createEl('th');
+    flagsHeader.setText('Flags');
+    flagsHeader.setAttribute('title', `Regular expression flags: ${REGEX_FLAGS.join(', ')} (g is always applied)`);
+    flagsHeader.addClass('regex-th');
+    flagsHeader.addClass('regex-th-flags');
+
     // Replacement header
     const replacementHeader = headerRow.createEl('th');
     replacementHeader.setText('Replacement');
     replacementHeader.addClass('regex-th');
     replacementHeader.addClass('regex-th-replacement');
 
+    // Code header (Markdown only, code is not protected in HTML)
+    if (type === 'markdown') {
+      const codeHeader = headerRow.createEl('th');
+      codeHeader.setText('Code');
+      codeHeader.setAttribute('title', 'Also apply inside code blocks, inline code, math and comments');
+      codeHeader.addClass('regex-th');
+      codeHeader.addClass('regex-th-code');
+    }
+
     // Actions header
     const actionsHeader = headerRow.createEl('th');
     actionsHeader.addClass('regex-th');
     actionsHeader.addClass('regex-th-actions');
 
+    const columnCount = type === 'markdown' ? 6 : 5;
+
     // Create the table body
     const tbody = table.createEl('tbody');
 
-    // Add a row for each replacement
-    this.plugin.settings.htmlRegexReplacements.forEach((replacement, index) => {
+    // Add rows for each replacement
+    replacements.forEach((replacement, index) => {
       const row = tbody.createEl('tr');
 
+      // Enabled cell
+      const enabledCell = row.createEl('td');
+      enabledCell.addClass('regex-td');
+      enabledCell.addClass('regex-td-enabled');
+      const enabledCheckbox = enabledCell.createEl('input');
+      enabledCheckbox.type = 'checkbox';
+      enabledCheckbox.checked = replacement.enabled !== false;
+      enabledCheckbox.setAttribute('aria-label', 'Enabled');
+      enabledCheckbox.addEventListener('change', async () => {
+        replacements[index].enabled = enabledCheckbox.checked;
+        await this.plugin.saveSettings();
+      });
+
       // Pattern cell
       const patternCell = row.createEl('td');
       patternCell.addClass('regex-td');
@@ -441,11 +816,36 @@ class PasteReformmatterSettingsTab extends PluginSettingTab {
       patternInput.value = replacement.pattern;
       patternInput.placeholder = 'Regular expression pattern';
       patternInput.addClass('regex-input');
+      patternCell.appendChild(patternInput);
+
+      // Flags cell
+      const flagsCell = row.createEl('td');
+      flagsCell.addClass('regex-td');
+      const flagsInput = flagsCell.createEl('input');
+      flagsInput.type = 'text';
+      flagsInput.value = replacement.flags ?? '';
+      flagsInput.placeholder = REGEX_FLAGS.join('');
+      flagsInput.addClass('regex-input');
+
+      // Validation message, updated as the pattern or flags are typed
+      const errorEl = patternCell.createDiv('regex-error');
+      const validate = (): void => {
+        const error = patternInput.value === '' ? null : validateRule({ ...replacements[index], pattern: patternInput.value, flags: flagsInput.value });
+        errorEl.setText(error ?? '');
+        patternInput.toggleClass('regex-input-invalid', error !== null);
+      };
+      validate();
+      patternInput.addEventListener('input', validate);
+      flagsInput.addEventListener('input', validate);
+
       patternInput.addEventListener('change', async () => {
-        this.plugin.settings.htmlRegexReplacements[index].pattern = patternInput.value;
+        replacements[index].pattern = patternInput.value;
+        await this.plugin.saveSettings();
+      });
+      flagsInput.addEventListener('change', async () => {
+        replacements[index].flags = flagsInput.value;
         await this.plugin.saveSettings();
       });
-      patternCell.appendChild(patternInput);
 
       // Replacement cell
       const replacementCell = row.createEl('td');
@@ -458,314 +858,1181 @@ class PasteReformmatterSettingsTab extends PluginSettingTab {
       replacementInput.placeholder = 'Replacement value (can use $1, $2, etc.)';
       replacementInput.addClass('regex-input');
       replacementInput.addEventListener('change', async () => {
-        this.plugin.settings.htmlRegexReplacements[index].replacement = replacementInput.value;
+        replacements[index].replacement = replacementInput.value;
         await this.plugin.saveSettings();
       });
       replacementCell.appendChild(replacementInput);
 
+      // Code cell
+      if (type === 'markdown') {
+        const codeCell = row.createEl('td');
+        codeCell.addClass('regex-td');
+        codeCell.addClass('regex-td-code');
+        const codeCheckbox = codeCell.createEl('input');
+        codeCheckbox.type = 'checkbox';
+        codeCheckbox.checked = !!replacement.applyToCode;
+        codeCheckbox.setAttribute('aria-label', 'Also apply inside code');
+        codeCheckbox.addEventListener('change', async () => {
+          replacements[index].applyToCode = codeCheckbox.checked;
+          await this.plugin.saveSettings();
+        });
+      }
+
       // Actions cell
       const actionsCell = row.createEl('td');
       actionsCell.addClass('regex-td');
       actionsCell.addClass('regex-td-actions');
 
       // Remove icon
-      const removeIcon = document.createElement('span');
-      removeIcon.className = 'regex-remove-icon';
-      removeIcon.setAttribute('title', 'Delete');
-      removeIcon.setAttribute('aria-label', 'Delete');
-      removeIcon.setAttribute('role', 'button');
-      removeIcon.setAttribute('tabindex', '0');
-      setIcon(removeIcon, 'trash-2');
-      removeIcon.addEventListener('click', async () => {
-        this.plugin.settings.htmlRegexReplacements.splice(index, 1);
+      this.createIconButton(actionsCell, 'regex-remove-icon', 'trash-2', 'Delete', async () => {
+        replacements.splice(index, 1);
         await this.plugin.saveSettings();
         this.display(); // Refresh the display
       });
-      // Add keyboard support for accessibility
-      removeIcon.addEventListener('keydown', (e) => {
-        if (e.key === 'Enter' || e.key === ' ') {
-          e.preventDefault();
-          removeIcon.click();
-        }
+
+      // Name and description row
+      const detailsRow = tbody.createEl('tr');
+      detailsRow.addClass('regex-details-row');
+      detailsRow.createEl('td').addClass('regex-td');
+      const detailsCell = detailsRow.createEl('td');
+      detailsCell.colSpan = columnCount - 1;
+      detailsCell.addClass('regex-td');
+      detailsCell.addClass('regex-td-details');
+
+      const nameInput = detailsCell.createEl('input');
+      nameInput.type = 'text';
+      nameInput.value = replacement.name ?? '';
+      nameInput.placeholder = 'Name (optional)';
+      nameInput.addClass('regex-input');
+      nameInput.addClass('regex-name-input');
+      nameInput.addEventListener('change', async () => {
+        replacements[index].name = nameInput.value;
+        await this.plugin.saveSettings();
+      });
+
+      const descriptionInput = detailsCell.createEl('input');
+      descriptionInput.type = 'text';
+      descriptionInput.value = replacement.description ?? '';
+      descriptionInput.placeholder = 'Description (optional)';
+      descriptionInput.addClass('regex-input');
+      descriptionInput.addClass('regex-description-input');
+      descriptionInput.addEventListener('change', async () => {
+        replacements[index].description = descriptionInput.value;
+        await this.plugin.saveSettings();
       });
-      actionsCell.appendChild(removeIcon);
     });
 
     // Add a message if no replacements are defined
-    if (this.plugin.settings.htmlRegexReplacements.length === 0) {
+    if (replacements.length === 0) {
       const emptyRow = tbody.createEl('tr');
       const emptyCell = emptyRow.createEl('td');
-      emptyCell.colSpan = 3;
+      emptyCell.colSpan = columnCount;
       emptyCell.addClass('regex-empty-message');
       emptyCell.setText('No replacements defined. Click the + icon below to add one.');
     }
 
-    // Add plus-circle icon for adding new HTML replacements
-    const htmlAddIcon = regexContainer.createEl('div');
-    htmlAddIcon.className = 'regex-add-icon';
-    htmlAddIcon.setAttribute('title', 'Add replacement');
-    htmlAddIcon.setAttribute('aria-label', 'Add replacement');
-    htmlAddIcon.setAttribute('role', 'button');
-    htmlAddIcon.setAttribute('tabindex', '0');
-    setIcon(htmlAddIcon, 'plus-circle');
-    htmlAddIcon.addEventListener('click', () => {
+    const footerEl = regexContainer.createDiv('regex-footer');
+
+    // Button to try the rules out on sample content
+    const testButton = footerEl.createEl('button', { text: 'Test rules' });
+    testButton.addEventListener('click', () => {
+      new RegexTestModal(this.app, replacements, type, async (rules) => {
+        replacements.splice(0, replacements.length, ...rules);
+        await this.plugin.saveSettings();
+        this.display();
+      }).open();
+    });
+
+    // Add plus-circle icon for adding new replacements
+    this.createIconButton(footerEl, 'regex-add-icon', 'plus-circle', 'Add replacement', () => {
       // Check if there's already an empty row
-      const hasEmptyRow = this.plugin.settings.htmlRegexReplacements.some(
+      const hasEmptyRow = replacements.some(
         replacement => replacement.pattern === '' && replacement.replacement === ''
       );
 
       // Only add a new row if there isn't already an empty one
       if (!hasEmptyRow) {
         // Add a new empty replacement
-        this.plugin.settings.htmlRegexReplacements.push({
+        replacements.push({
           pattern: '',
           replacement: ''
         });
         // Save settings and refresh display, preserving scroll position and scrolling new row into view if needed
         const scrollTop = this.containerEl.scrollTop;
+        const containerIndex = Array.from(this.containerEl.querySelectorAll('.regex-replacements-container')).indexOf(regexContainer);
         this.plugin.saveSettings().then(() => {
           this.display();
           // Restore original scroll position
           this.containerEl.scrollTop = scrollTop;
           // Then scroll the newly added row into view if it's not visible
-          this.scrollNewRowIntoView('html');
+          this.scrollNewRowIntoView(containerIndex);
         });
       }
     });
-    // Add keyboard support for accessibility
-    htmlAddIcon.addEventListener('keydown', (e) => {
-      if (e.key === 'Enter' || e.key === ' ') {
-        e.preventDefault();
-        htmlAddIcon.click();
-      }
-    });
+  }
 
-    new Setting(containerEl)
-      .setName('Markdown transformations')
-      .setDesc('Control how the Markdown content is adjusted after HTML conversion or when pasted as plain text.')
-      .setHeading();
+  /**
+   * Renders an editable table of DOM rules
+   * @param containerEl The element to render the table into
+   * @param rules The list of rules to edit
+   */
+  private renderDOMRules(containerEl: HTMLElement, rules: DOMRule[]): void {
+    const rulesContainer = containerEl.createDiv();
+    rulesContainer.addClass('dom-rules-container');
 
-    new Setting(containerEl)
-      .setName('Max heading level')
-      .setDesc('The maximum heading level to allow when reformatting pasted content (H1 is treated as disabled)')
-      .addDropdown(dropdown => dropdown
-        .addOptions({
-          '1': 'Disabled (H1)',
-          '2': 'H2',
-          '3': 'H3',
-          '4': 'H4',
-          '5': 'H5',
-          '6': 'H6'
-        })
-        .setValue(this.plugin.settings.maxHeadingLevel.toString())
-        .onChange(async (value) => {
-          this.plugin.settings.maxHeadingLevel = parseInt(value);
-          await this.plugin.saveSettings();
+    const table = rulesContainer.createEl('table');
+    table.addClass('regex-table');
 
-          // Always refresh the display to update the cascade heading levels toggle visibility
-          this.display();
-        }));
+    const headerRow = table.createEl('thead').createEl('tr');
 
-    // Only show cascade heading levels setting if max heading level is not H1 (disabled)
-    if (this.plugin.settings.maxHeadingLevel > 1) {
-      new Setting(containerEl)
-        .setName('Cascade heading levels')
-        .setDesc('Preserve the heading hierarchy by cascading levels (e.g., H1→H2→H3 becomes H2→H3→H4 when max level is H2)')
-        .addToggle(toggle => toggle
-          .setValue(this.plugin.settings.cascadeHeadingLevels)
-          .onChange(async (value) => {
-            this.plugin.settings.cascadeHeadingLevels = value;
-            await this.plugin.saveSettings();
-          }));
-    }
+    const enabledHeader = headerRow.createEl('th');
+    enabledHeader.setAttribute('title', 'Enabled');
+    enabledHeader.addClass('regex-th');
+    enabledHeader.addClass('regex-th-enabled');
 
-    new Setting(containerEl)
-      .setName('Contextual cascade')
-      .setDesc('Cascade headings based on the current context (e.g., if cursor is in an H2 section, headings will start from H3)')
-      .addToggle(toggle => toggle
-        .setValue(this.plugin.settings.contextualCascade)
-        .onChange(async (value) => {
-          this.plugin.settings.contextualCascade = value;
-          await this.plugin.saveSettings();
-        }));
+    const selectorHeader = headerRow.createEl('th');
+    selectorHeader.setText('Selector');
+    selectorHeader.addClass('regex-th');
+    selectorHeader.addClass('dom-th-selector');
 
-    const singleSpacedSetting = new Setting(containerEl)
-      .setName('Convert to single-spaced')
-      .setDesc('Collapse multiple consecutive blank lines into a single blank line')
-      .addToggle(toggle => toggle
-        .setValue(this.plugin.settings.convertToSingleSpaced)
-        .setDisabled(this.plugin.settings.removeEmptyLines)
-        .onChange(async (value) => {
-          this.plugin.settings.convertToSingleSpaced = value;
-          await this.plugin.saveSettings();
-        }));
+    const actionHeader = headerRow.createEl('th');
+    actionHeader.setText('Action');
+    actionHeader.addClass('regex-th');
+    actionHeader.addClass('dom-th-action');
 
-    // Add visual indication when disabled
-    if (this.plugin.settings.removeEmptyLines) {
-      singleSpacedSetting.settingEl.addClass('paste-reformatter-disabled-setting');
-    }
+    const valueHeader = headerRow.createEl('th');
+    valueHeader.setText('Tag / attributes');
+    valueHeader.setAttribute('title', 'The new tag for "Replace tag", or the attributes to remove for "Strip attributes" (all when empty)');
+    valueHeader.addClass('regex-th');
+    valueHeader.addClass('dom-th-value');
 
-    new Setting(containerEl)
-      .setName('Remove empty lines')
-      .setDesc('Remove blank lines in the Markdown output')
-      .addToggle(toggle => toggle
-        .setValue(this.plugin.settings.removeEmptyLines)
-        .onChange(async (value) => {
-          this.plugin.settings.removeEmptyLines = value;
-          await this.plugin.saveSettings();
+    const actionsHeader = headerRow.createEl('th');
+    actionsHeader.addClass('regex-th');
+    actionsHeader.addClass('regex-th-actions');
 
-          // Refresh the display to update the disabled state of "Convert to single-spaced"
-          this.display();
-        }));
+    const tbody = table.createEl('tbody');
 
-    new Setting(containerEl)
-      .setName('Markdown regex replacements')
-      .setDesc('Apply regular expression replacements to the Markdown content after HTML conversion. You can use $1, $2, etc. to reference capture groups.');
+    rules.forEach((rule, index) => {
+      const row = tbody.createEl('tr');
 
-    // Create a container for the regex replacement rows
-    const markdownRegexContainer = containerEl.createDiv();
-    markdownRegexContainer.addClass('regex-replacements-container');
+      // Enabled cell
+      const enabledCell = row.createEl('td');
+      enabledCell.addClass('regex-td');
+      enabledCell.addClass('regex-td-enabled');
+      const enabledCheckbox = enabledCell.createEl('input');
+      enabledCheckbox.type = 'checkbox';
+      enabledCheckbox.checked = rule.enabled !== false;
+      enabledCheckbox.setAttribute('aria-label', 'Enabled');
+      enabledCheckbox.addEventListener('change', async () => {
+        rules[index].enabled = enabledCheckbox.checked;
+        await this.plugin.saveSettings();
+      });
 
-    // Create a table for the regex replacements
-    const markdownRegexTable = markdownRegexContainer.createEl('table');
-    markdownRegexTable.addClass('regex-table');
+      // Selector cell
+      const selectorCell = row.createEl('td');
+      selectorCell.addClass('regex-td');
+      const selectorInput = selectorCell.createEl('input');
+      selectorInput.type = 'text';
+      selectorInput.value = rule.selector;
+      selectorInput.placeholder = 'CSS selector, e.g. nav, .share-buttons';
+      selectorInput.addClass('regex-input');
+
+      // Action cell
+      const actionCell = row.createEl('td');
+      actionCell.addClass('regex-td');
+      const actionSelect = actionCell.createEl('select');
+      actionSelect.addClass('dropdown');
+      for (const [value, label] of Object.entries(DOM_RULE_ACTION_LABELS)) {
+        actionSelect.createEl('option', { value, text: label });
+      }
+      actionSelect.value = rule.action;
+
+      // Tag or attributes cell, depending on the action
+      const valueCell = row.createEl('td');
+      valueCell.addClass('regex-td');
+      const valueInput = valueCell.createEl('input');
+      valueInput.type = 'text';
+      valueInput.addClass('regex-input');
+      const updateValueInput = (): void => {
+        const action = actionSelect.value as DOMRuleAction;
+        valueInput.disabled = action !== 'replace-tag' && action !== 'strip-attributes';
+        valueInput.value = action === 'replace-tag' ? rules[index].tagName ?? '' : action === 'strip-attributes' ? (rules[index].attributes ?? []).join(', ') : '';
+        valueInput.placeholder = action === 'replace-tag' ? 'Tag name, e.g. p' : action === 'strip-attributes' ? 'All attributes, or e.g. style, data-*' : '';
+      };
+      updateValueInput();
+
+      // Validation message, updated as the rule is edited
+      const errorEl = selectorCell.createDiv('regex-error');
+      const validate = (): void => {
+        const action = actionSelect.value as DOMRuleAction;
+        const error = selectorInput.value === '' ? null : validateDOMRule({
+          selector: selectorInput.value,
+          action,
+          tagName: action === 'replace-tag' ? valueInput.value : undefined
+        });
+        errorEl.setText(error ?? '');
+        selectorInput.toggleClass('regex-input-invalid', error !== null);
+      };
+      validate();
+      selectorInput.addEventListener('input', validate);
+      valueInput.addEventListener('input', validate);
+
+      selectorInput.addEventListener('change', async () => {
+        rules[index].selector = selectorInput.value;
+        await this.plugin.saveSettings();
+      });
+      actionSelect.addEventListener('change', async () => {
+        rules[index].action = actionSelect.value as DOMRuleAction;
+        updateValueInput();
+        validate();
+        await this.plugin.saveSettings();
+      });
+      valueInput.addEventListener('change', async () => {
+        if (rules[index].action === 'replace-tag') {
+          rules[index].tagName = valueInput.value.trim();
+        } else if (rules[index].action === 'strip-attributes') {
+          rules[index].attributes = valueInput.value.split(/[\s,]+/).filter(name => name !== '');
+        }
+        await this.plugin.saveSettings();
+      });
 
-    // Create the header row
-    const markdownRegexThead = markdownRegexTable.createEl('thead');
-    const markdownRegexHeaderRow = markdownRegexThead.createEl('tr');
+      // Actions cell
+      const actionsCell = row.createEl('td');
+      actionsCell.addClass('regex-td');
+      actionsCell.addClass('regex-td-actions');
+      this.createIconButton(actionsCell, 'regex-remove-icon', 'trash-2', 'Delete', async () => {
+        rules.splice(index, 1);
+        await this.plugin.saveSettings();
+        this.display();
+      });
+    });
 
-    // Pattern header
-    const markdownRegexPatternHeader = markdownRegexHeaderRow.createEl('th');
-    markdownRegexPatternHeader.setText('Pattern');
-    markdownRegexPatternHeader.addClass('regex-th');
-    markdownRegexPatternHeader.addClass('regex-th-pattern');
+    if (rules.length === 0) {
+      const emptyCell = tbody.createEl('tr').createEl('td');
+      emptyCell.colSpan = 5;
+      emptyCell.addClass('regex-empty-message');
+      emptyCell.setText('No element rules defined. Click the + icon below to add one.');
+    }
 
-    // Replacement header
-    const markdownRegexReplacementHeader = markdownRegexHeaderRow.createEl('th');
-    markdownRegexReplacementHeader.setText('Replacement');
-    markdownRegexReplacementHeader.addClass('regex-th');
-    markdownRegexReplacementHeader.addClass('regex-th-replacement');
+    this.createIconButton(rulesContainer, 'regex-add-icon', 'plus-circle', 'Add element rule', async () => {
+      if (!rules.some(rule => rule.selector === '')) {
+        rules.push({ selector: '', action: 'remove' });
+        await this.plugin.saveSettings();
+        this.display();
+      }
+    });
+  }
 
-    // Actions header
-    const markdownRegexActionsHeader = markdownRegexHeaderRow.createEl('th');
-    markdownRegexActionsHeader.addClass('regex-th');
-    markdownRegexActionsHeader.addClass('regex-th-actions');
+  /**
+   * Renders an editable table of profile match rules
+   * @param containerEl The element to render the table into
+   * @param profile The profile whose match rules are edited
+   */
+  private renderMatchRules(containerEl: HTMLElement, profile: PasteProfile): void {
+    const rulesContainer = containerEl.createDiv();
+    rulesContainer.addClass('profile-rules-container');
 
-    // Create the table body
-    const markdownRegexTbody = markdownRegexTable.createEl('tbody');
+    const table = rulesContainer.createEl('table');
+    table.addClass('regex-table');
+
+    const headerRow = table.createEl('thead').createEl('tr');
+
+    const typeHeader = headerRow.createEl('th');
+    typeHeader.setText('Match');
+    typeHeader.addClass('regex-th');
+    typeHeader.addClass('profile-th-type');
+
+    const patternHeader = headerRow.createEl('th');
+    patternHeader.setText('Pattern');
+    patternHeader.addClass('regex-th');
+    patternHeader.addClass('profile-th-pattern');
 
-    // Add a row for each replacement
-    this.plugin.settings.markdownRegexReplacements.forEach((replacement, index) => {
-      const row = markdownRegexTbody.createEl('tr');
+    const actionsHeader = headerRow.createEl('th');
+    actionsHeader.addClass('regex-th');
+    actionsHeader.addClass('regex-th-actions');
+
+    const tbody = table.createEl('tbody');
+
+    profile.matchRules.forEach((rule, index) => {
+      const row = tbody.createEl('tr');
+
+      // Match type cell
+      const typeCell = row.createEl('td');
+      typeCell.addClass('regex-td');
+      const typeSelect = typeCell.createEl('select');
+      typeSelect.addClass('dropdown');
+      for (const [value, label] of Object.entries(MATCH_TYPE_LABELS)) {
+        typeSelect.createEl('option', { value, text: label });
+      }
+      typeSelect.value = rule.type;
+      typeSelect.addEventListener('change', async () => {
+        profile.matchRules[index].type = typeSelect.value as ProfileMatchType;
+        await this.plugin.saveSettings();
+      });
 
       // Pattern cell
       const patternCell = row.createEl('td');
       patternCell.addClass('regex-td');
-
-      // Pattern input
-      const patternInput = document.createElement('input');
+      const patternInput = patternCell.createEl('input');
       patternInput.type = 'text';
-      patternInput.value = replacement.pattern;
-      patternInput.placeholder = 'Regular expression pattern';
+      patternInput.value = rule.pattern;
+      patternInput.placeholder = 'Regular expression (case-insensitive)';
       patternInput.addClass('regex-input');
       patternInput.addEventListener('change', async () => {
-        this.plugin.settings.markdownRegexReplacements[index].pattern = patternInput.value;
+        profile.matchRules[index].pattern = patternInput.value;
         await this.plugin.saveSettings();
       });
-      patternCell.appendChild(patternInput);
-
-      // Replacement cell
-      const replacementCell = row.createEl('td');
-      replacementCell.addClass('regex-td');
-
-      // Replacement input
-      const replacementInput = document.createElement('input');
-      replacementInput.type = 'text';
-      replacementInput.value = replacement.replacement;
-      replacementInput.placeholder = 'Replacement value (can use $1, $2, etc.)';
-      replacementInput.addClass('regex-input');
-      replacementInput.addEventListener('change', async () => {
-        this.plugin.settings.markdownRegexReplacements[index].replacement = replacementInput.value;
-        await this.plugin.saveSettings();
-      });
-      replacementCell.appendChild(replacementInput);
 
       // Actions cell
       const actionsCell = row.createEl('td');
       actionsCell.addClass('regex-td');
       actionsCell.addClass('regex-td-actions');
-
-      // Remove icon
-      const removeIcon = document.createElement('span');
-      removeIcon.className = 'regex-remove-icon';
-      removeIcon.setAttribute('title', 'Delete');
-      removeIcon.setAttribute('aria-label', 'Delete');
-      removeIcon.setAttribute('role', 'button');
-      removeIcon.setAttribute('tabindex', '0');
-      setIcon(removeIcon, 'trash-2');
-      removeIcon.addEventListener('click', async () => {
-        this.plugin.settings.markdownRegexReplacements.splice(index, 1);
+      this.createIconButton(actionsCell, 'regex-remove-icon', 'trash-2', 'Delete', async () => {
+        profile.matchRules.splice(index, 1);
         await this.plugin.saveSettings();
-        this.display(); // Refresh the display
-      });
-      // Add keyboard support for accessibility
-      removeIcon.addEventListener('keydown', (e) => {
-        if (e.key === 'Enter' || e.key === ' ') {
-          e.preventDefault();
-          removeIcon.click();
-        }
+        this.display();
       });
-      actionsCell.appendChild(removeIcon);
     });
 
-    // Add a message if no replacements are defined
-    if (this.plugin.settings.markdownRegexReplacements.length === 0) {
-      const emptyRow = markdownRegexTbody.createEl('tr');
-      const emptyCell = emptyRow.createEl('td');
+    if (profile.matchRules.length === 0) {
+      const emptyCell = tbody.createEl('tr').createEl('td');
       emptyCell.colSpan = 3;
       emptyCell.addClass('regex-empty-message');
-      emptyCell.setText('No replacements defined. Click the + icon below to add one.');
+      emptyCell.setText('No match rules defined. This profile will never be selected automatically.');
     }
 
-    // Add plus-circle icon for adding new Markdown replacements
-    const markdownAddIcon = markdownRegexContainer.createEl('div');
-    markdownAddIcon.className = 'regex-add-icon';
-    markdownAddIcon.setAttribute('title', 'Add replacement');
-    markdownAddIcon.setAttribute('aria-label', 'Add replacement');
-    markdownAddIcon.setAttribute('role', 'button');
-    markdownAddIcon.setAttribute('tabindex', '0');
-    setIcon(markdownAddIcon, 'plus-circle');
-    markdownAddIcon.addEventListener('click', () => {
-      // Check if there's already an empty row
-      const hasEmptyRow = this.plugin.settings.markdownRegexReplacements.some(
-        replacement => replacement.pattern === '' && replacement.replacement === ''
-      );
+    this.createIconButton(rulesContainer, 'regex-add-icon', 'plus-circle', 'Add match rule', async () => {
+      profile.matchRules.push({ type: 'source-url', pattern: '' });
+      await this.plugin.saveSettings();
+      this.display();
+    });
+  }
 
-      // Only add a new row if there isn't already an empty one
-      if (!hasEmptyRow) {
-        // Add a new empty replacement
-        this.plugin.settings.markdownRegexReplacements.push({
-          pattern: '',
-          replacement: ''
-        });
-        // Save settings and refresh display, preserving scroll position and scrolling new row into view if needed
-        const scrollTop = this.containerEl.scrollTop;
-        this.plugin.saveSettings().then(() => {
+  /**
+   * Renders a toggle for each family of syntax the "Paste with Escaped Markdown" command escapes
+   * @param containerEl The element to render into
+   */
+  private renderEscapedSyntax(containerEl: HTMLElement): void {
+    const { settings } = this.plugin;
+
+    new Setting(containerEl)
+      .setName('Escaped Markdown')
+      .setHeading()
+      .setDesc('The syntax that "Paste with Escaped Markdown" escapes, so that it shows as typed instead of being formatted. Syntax that is not escaped keeps working.');
+
+    for (const syntax of ESCAPED_SYNTAX) {
+      new Setting(containerEl)
+        .setName(ESCAPED_SYNTAX_NAMES[syntax])
+        .addToggle(toggle => toggle
+          .setValue(settings.escapedSyntax.includes(syntax))
+          .onChange(async (value) => {
+            // Keep the families in their display order
+            settings.escapedSyntax = ESCAPED_SYNTAX.filter(other => other === syntax ? value : settings.escapedSyntax.includes(other));
+            await this.plugin.saveSettings();
+          }));
+    }
+  }
+
+  /**
+   * Renders the folder rules, each with its folder path and the step settings it overrides
+   * @param containerEl The element to render into
+   */
+  private renderFolderOverrides(containerEl: HTMLElement): void {
+    const { settings } = this.plugin;
+
+    new Setting(containerEl)
+      .setName('Folder settings')
+      .setHeading()
+      .setDesc(`Override step settings for the notes in a folder and its subfolders, one "step.option: value" pair per line, e.g. "headings.maxHeadingLevel: 3" or "remove-empty-lines: true" to turn a step on. Overrides apply to all steps of the type in the selected profile, rules for subfolders win over their parents, and a note's ${NOTE_OVERRIDES_PROPERTY} property wins over both.`)
+      .addExtraButton(button => button
+        .setIcon('plus')
+        .setTooltip('Add folder')
+        .onClick(async () => {
+          settings.folderOverrides.push({ folder: '', overrides: {} });
+          await this.plugin.saveSettings();
           this.display();
-          // Restore original scroll position
-          this.containerEl.scrollTop = scrollTop;
-          // Then scroll the newly added row into view if it's not visible
-          this.scrollNewRowIntoView('markdown');
-        });
-      }
+        }));
+
+    settings.folderOverrides.forEach((rule: FolderOverride, index) => {
+      new Setting(containerEl)
+        .setName('Folder')
+        .addText(text => text
+          .setPlaceholder('Meetings/2025')
+          .setValue(rule.folder)
+          .onChange(async (value) => {
+            rule.folder = value;
+            await this.plugin.saveSettings();
+          }))
+        .addExtraButton(button => button
+          .setIcon('trash-2')
+          .setTooltip('Delete folder')
+          .onClick(async () => {
+            settings.folderOverrides.splice(index, 1);
+            await this.plugin.saveSettings();
+            this.display();
+          }));
+
+      const overridesSetting = new Setting(containerEl)
+        .setName('Overrides')
+        .addTextArea(text => text
+          .setPlaceholder('headings.maxHeadingLevel: 3\nremove-empty-lines: true')
+          .setValue(formatOverrides(rule.overrides))
+          .onChange(async (value) => {
+            // Invalid lines are left out of the saved overrides
+            const { overrides, errors } = parseOverrides(value);
+            rule.overrides = overrides;
+            overridesSetting.setDesc(errors.join('; '));
+            await this.plugin.saveSettings();
+          }));
     });
-    // Add keyboard support for accessibility
-    markdownAddIcon.addEventListener('keydown', (e) => {
-      if (e.key === 'Enter' || e.key === ' ') {
-        e.preventDefault();
-        markdownAddIcon.click();
+  }
+
+  /**
+   * Renders the profile selector and, for named profiles, the profile name and match rules
+   * @param containerEl The element to render into
+   */
+  private renderProfiles(containerEl: HTMLElement): void {
+    const { settings } = this.plugin;
+
+    new Setting(containerEl)
+      .setName('Profiles')
+      .setHeading()
+      .setDesc('Profiles are selected automatically based on where the pasted content was copied from. When no profile matches, the default profile is used.');
+
+    const profileOptions: Record<string, string> = { '-1': 'Default' };
+    settings.profiles.forEach((profile, index) => {
+      profileOptions[index.toString()] = profile.name;
+    });
+
+    new Setting(containerEl)
+      .setName('Edit profile')
+      .setDesc('The HTML and Markdown transformations below apply to the selected profile. Profiles are checked in order; the first match wins.')
+      .addDropdown(dropdown => dropdown
+        .addOptions(profileOptions)
+        .setValue(this.editingProfile.toString())
+        .onChange((value) => {
+          this.editingProfile = parseInt(value);
+          this.display();
+        }))
+      .addExtraButton(button => button
+        .setIcon('plus')
+        .setTooltip('Add profile (copies the default profile)')
+        .onClick(async () => {
+          settings.profiles.push({
+            ...copyReformatOptions(settings),
+            name: `Profile ${settings.profiles.length + 1}`,
+            matchRules: []
+          });
+          this.editingProfile = settings.profiles.length - 1;
+          await this.plugin.saveSettings();
+          this.display();
+        }));
+
+    const profile = settings.profiles[this.editingProfile];
+    if (!profile) {
+      return;
+    }
+
+    new Setting(containerEl)
+      .setName('Profile name')
+      .addText(text => text
+        .setValue(profile.name)
+        .onChange(async (value) => {
+          profile.name = value;
+          await this.plugin.saveSettings();
+        }))
+      .addExtraButton(button => button
+        .setIcon('arrow-up')
+        .setTooltip('Move up')
+        .setDisabled(this.editingProfile === 0)
+        .onClick(async () => {
+          const index = this.editingProfile;
+          if (index > 0) {
+            settings.profiles.splice(index - 1, 0, settings.profiles.splice(index, 1)[0]);
+            this.editingProfile = index - 1;
+            await this.plugin.saveSettings();
+            this.display();
+          }
+        }))
+      .addExtraButton(button => button
+        .setIcon('trash-2')
+        .setTooltip('Delete profile')
+        .onClick(async () => {
+          settings.profiles.splice(this.editingProfile, 1);
+          this.editingProfile = -1;
+          await this.plugin.saveSettings();
+          this.display();
+        }));
+
+    new Setting(containerEl)
+      .setName('Match rules')
+      .setDesc('The profile is used when any rule matches. Source URL rules test the page address recorded by the browser, generator rules test detected applications (google-docs, microsoft-office, confluence, notion, github, or a generator meta tag), and HTML rules test the raw clipboard HTML.');
+
+    this.renderMatchRules(containerEl, profile);
+  }
+
+  /**
+   * Renders the presets gallery and the settings import and export controls
+   * @param containerEl The element to render into
+   */
+  private renderPresetsAndTransfer(containerEl: HTMLElement): void {
+    const { settings } = this.plugin;
+    const profileName = settings.profiles[this.editingProfile]?.name ?? 'default';
+
+    new Setting(containerEl)
+      .setName('Presets')
+      .setDesc('Start from built-in transformations for common sources, such as web articles, Google Docs and Notion.')
+      .addButton(button => button
+        .setButtonText('Browse presets')
+        .onClick(() => {
+          new PresetsModal(this.app, profileName, async (preset) => {
+            Object.assign(this.options, preset.options());
+            await this.plugin.saveSettings();
+            new Notice(`Applied the ${preset.name} preset to the ${profileName} profile`);
+            this.display();
+          }, async (preset) => {
+            settings.profiles.push({ ...preset.options(), name: preset.name, matchRules: preset.matchRules.map(rule => ({ ...rule })) });
+            this.editingProfile = settings.profiles.length - 1;
+            await this.plugin.saveSettings();
+            this.display();
+          }).open();
+        }));
+
+    let section: SettingsSection = 'all';
+    new Setting(containerEl)
+      .setName('Export settings')
+      .setDesc('Save settings as a JSON file in your vault to share them or keep a backup. HTML and Markdown transformations are exported from the profile being edited.')
+      .addDropdown(dropdown => dropdown
+        .addOptions(SETTINGS_SECTION_NAMES)
+        .setValue(section)
+        .onChange(value => {
+          section = value as SettingsSection;
+        }))
+      .addButton(button => button
+        .setButtonText('Export')
+        .onClick(() => {
+          new ExportSettingsModal(this.app, `paste-reformatter-${section}.json`, path => this.exportSettingsFile(section, path)).open();
+        }));
+
+    new Setting(containerEl)
+      .setName('Import settings')
+      .setDesc('Load settings from an exported JSON file. Imported HTML and Markdown transformations replace those of the profile being edited, and imported profiles replace profiles with the same name.')
+      .addButton(button => button
+        .setButtonText('Import')
+        .onClick(() => {
+          new ImportSettingsModal(this.app, file => this.importSettingsFile(file)).open();
+        }));
+  }
+
+  private async exportSettingsFile(section: SettingsSection, path: string): Promise<void> {
+    try {
+      const json = exportSettings(this.plugin.settings, section, this.options);
+      const existing = this.app.vault.getAbstractFileByPath(path);
+      if (existing instanceof TFile) {
+        await this.app.vault.modify(existing, json);
+      } else {
+        await this.app.vault.create(path, json);
+      }
+      new Notice(`Exported ${SETTINGS_SECTION_NAMES[section].toLowerCase()} to ${path}`);
+    } catch (error) {
+      console.error(`Error exporting settings: ${error}`);
+      new Notice(`Could not export settings: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+
+  private async importSettingsFile(file: TFile): Promise<void> {
+    try {
+      const section = importSettings(this.plugin.settings, await this.app.vault.read(file), this.options);
+      await this.plugin.saveSettings();
+      new Notice(`Imported ${SETTINGS_SECTION_NAMES[section].toLowerCase()} from ${file.path}`);
+      this.display();
+    } catch (error) {
+      console.error(`Error importing settings: ${error}`);
+      new Notice(`Could not import settings: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+
+  /**
+   * Renders an editable pipeline: each step can be enabled, moved, duplicated or removed,
+   * and new steps can be added at the end
+   * @param containerEl The element to render into
+   * @param steps The steps of the pipeline
+   * @param types The step types available in this pipeline
+   * @param defaults Creates the default pipeline
+   */
+  private renderPipeline<T extends PipelineStep>(containerEl: HTMLElement, steps: T[], types: T['type'][], defaults: () => T[]): void {
+    steps.forEach((step, index) => {
+      const stepSetting = new Setting(containerEl)
+        .setName(stepDisplayName(steps, step))
+        .setDesc(STEP_DESCRIPTIONS[step.type])
+        .addToggle(toggle => toggle
+          .setValue(step.enabled)
+          .onChange(async (value) => {
+            step.enabled = value;
+            await this.plugin.saveSettings();
+            this.display();
+          }))
+        .addExtraButton(button => button
+          .setIcon('arrow-up')
+          .setTooltip('Move up')
+          .setDisabled(index === 0)
+          .onClick(async () => {
+            if (index > 0) {
+              steps.splice(index - 1, 0, steps.splice(index, 1)[0]);
+              await this.plugin.saveSettings();
+              this.display();
+            }
+          }))
+        .addExtraButton(button => button
+          .setIcon('arrow-down')
+          .setTooltip('Move down')
+          .setDisabled(index === steps.length - 1)
+          .onClick(async () => {
+            if (index < steps.length - 1) {
+              steps.splice(index + 1, 0, steps.splice(index, 1)[0]);
+              await this.plugin.saveSettings();
+              this.display();
+            }
+          }))
+        .addExtraButton(button => button
+          .setIcon('copy')
+          .setTooltip('Duplicate step')
+          .onClick(async () => {
+            steps.splice(index + 1, 0, copySteps([step])[0]);
+            await this.plugin.saveSettings();
+            this.display();
+          }))
+        .addExtraButton(button => button
+          .setIcon('trash-2')
+          .setTooltip('Remove step')
+          .onClick(async () => {
+            steps.splice(index, 1);
+            await this.plugin.saveSettings();
+            this.display();
+          }));
+      stepSetting.settingEl.addClass('paste-reformatter-step');
+
+      if (step.enabled) {
+        const optionsEl = containerEl.createDiv('paste-reformatter-step-options');
+        this.renderStepOptions(optionsEl, step);
       }
     });
+
+    let newStepType = types[0];
+    new Setting(containerEl)
+      .setName('Add step')
+      .setDesc('Steps can be added more than once, for example to run regex replacements both before and after headings are adjusted.')
+      .addDropdown(dropdown => {
+        for (const type of types) {
+          dropdown.addOption(type, STEP_NAMES[type]);
+        }
+        dropdown
+          .setValue(newStepType)
+          .onChange(value => {
+            newStepType = value as T['type'];
+          });
+      })
+      .addExtraButton(button => button
+        .setIcon('plus')
+        .setTooltip('Add step')
+        .onClick(async () => {
+          const step: PipelineStep = createStep(newStepType);
+          steps.push(step as T);
+          await this.plugin.saveSettings();
+          this.display();
+        }))
+      .addExtraButton(button => button
+        .setIcon('rotate-ccw')
+        .setTooltip('Restore default steps')
+        .onClick(async () => {
+          steps.splice(0, steps.length, ...defaults());
+          await this.plugin.saveSettings();
+          this.display();
+        }));
+  }
+
+  /**
+   * Renders the options of a pipeline step
+   * @param containerEl The element to render into
+   * @param step The step whose options are edited
+   */
+  private renderStepOptions(containerEl: HTMLElement, step: PipelineStep): void {
+    switch (step.type) {
+      case 'html-regex':
+        this.renderRegexReplacements(containerEl, step.options.replacements, 'html');
+        break;
+
+      case 'markdown-regex':
+        this.renderRegexReplacements(containerEl, step.options.replacements, 'markdown');
+        break;
+
+      case 'callouts':
+        new Setting(containerEl)
+          .setName('Callout types')
+          .setDesc('The callout type for each admonition class, one "class: type" pair per line. A class also matches the end of a longer class, e.g. warning matches admonition-warning.')
+          .addTextArea(text => text
+            .setValue(formatCalloutClasses(step.options.classMap))
+            .onChange(async (value) => {
+              step.options.classMap = parseCalloutClasses(value);
+              await this.plugin.saveSettings();
+            }))
+          .addExtraButton(button => button
+            .setIcon('rotate-ccw')
+            .setTooltip('Restore default types')
+            .onClick(async () => {
+              step.options.classMap = createStep('callouts').options.classMap;
+              await this.plugin.saveSettings();
+              this.display();
+            }));
+        break;
+
+      case 'dom-rules':
+        this.renderDOMRules(containerEl, step.options.rules);
+        break;
+
+      case 'images':
+        new Setting(containerEl)
+          .setName('Image handling')
+          .setDesc('Saved images are named after a hash of their source and stored in the attachment folder configured in Obsidian\'s Files and links settings.')
+          .addDropdown(dropdown => dropdown
+            .addOptions({
+              'keep': 'Keep original links',
+              'localize': 'Save into vault',
+              'alt-text': 'Replace with alt text',
+              'remove': 'Remove'
+            })
+            .setValue(step.options.handling)
+            .onChange(async (value) => {
+              step.options.handling = value as ImageHandling;
+              await this.plugin.saveSettings();
+            }));
+        break;
+
+      case 'normalize-tables':
+        new Setting(containerEl)
+          .setName('Table fallback')
+          .setDesc('How to paste tables that cannot be represented as Markdown tables, such as tables containing other tables or code blocks')
+          .addDropdown(dropdown => dropdown
+            .addOptions({
+              'html': 'Cleaned HTML table',
+              'list': 'List of rows'
+            })
+            .setValue(step.options.fallback)
+            .onChange(async (value) => {
+              step.options.fallback = value as TableFallback;
+              await this.plugin.saveSettings();
+            }));
+        break;
+
+      case 'plain-text':
+        this.renderPlainTextOptions(containerEl, step.options);
+        break;
+
+      case 'links':
+        this.renderLinkOptions(containerEl, step.options);
+        break;
+
+      case 'attribution':
+        this.renderAttributionOptions(containerEl, step.options);
+        break;
+
+      case 'headings':
+        this.renderHeadingOptions(containerEl, step.options);
+        break;
+
+      case 'lists':
+        this.renderListOptions(containerEl, step.options);
+        break;
+    }
+  }
+
+  private renderPlainTextOptions(containerEl: HTMLElement, options: PlainTextStep['options']): void {
+    new Setting(containerEl)
+      .setName('Tables')
+      .setDesc('Convert tab-separated data, such as cells copied from a spreadsheet, and comma-separated data into tables. The first row becomes the header.')
+      .addToggle(toggle => toggle
+        .setValue(options.tables)
+        .onChange(async (value) => {
+          options.tables = value;
+          await this.plugin.saveSettings();
+        }));
+
+    new Setting(containerEl)
+      .setName('Code and terminal output')
+      .setDesc('Put source code, terminal sessions and logs in a code block, with the language guessed from the code')
+      .addToggle(toggle => toggle
+        .setValue(options.code)
+        .onChange(async (value) => {
+          options.code = value;
+          await this.plugin.saveSettings();
+        }));
+
+    new Setting(containerEl)
+      .setName('JSON and YAML')
+      .setDesc('Put JSON and YAML in a code block. JSON is pretty-printed.')
+      .addToggle(toggle => toggle
+        .setValue(options.structuredData)
+        .onChange(async (value) => {
+          options.structuredData = value;
+          await this.plugin.saveSettings();
+        }));
+  }
+
+  private renderAttributionOptions(containerEl: HTMLElement, options: AttributionStep['options']): void {
+    new Setting(containerEl)
+      .setName('Template')
+      .setDesc('The text to insert, for example a quote line or a callout. Use {{url}}, {{title}}, {{domain}}, {{date}} and {{time}}; {{date}} and {{time}} accept a format, such as {{date:D MMMM YYYY}}. Leave empty to insert nothing.')
+      .addTextArea(text => text
+        .setPlaceholder(DEFAULT_ATTRIBUTION_TEMPLATE)
+        .setValue(options.template)
+        .onChange(async (value) => {
+          options.template = value;
+          await this.plugin.saveSettings();
+        }))
+      .addExtraButton(button => button
+        .setIcon('rotate-ccw')
+        .setTooltip('Restore default template')
+        .onClick(async () => {
+          options.template = DEFAULT_ATTRIBUTION_TEMPLATE;
+          await this.plugin.saveSettings();
+          this.display();
+        }));
+
+    new Setting(containerEl)
+      .setName('Position')
+      .setDesc('Where the text is inserted')
+      .addDropdown(dropdown => dropdown
+        .addOptions({
+          'before': 'Before the pasted content',
+          'after': 'After the pasted content'
+        })
+        .setValue(options.position)
+        .onChange(async (value) => {
+          options.position = value as AttributionPosition;
+          await this.plugin.saveSettings();
+        }));
+
+    new Setting(containerEl)
+      .setName('Date format')
+      .setDesc('The format of {{date}}, using moment.js syntax')
+      .addMomentFormat(format => format
+        .setDefaultFormat('YYYY-MM-DD')
+        .setValue(options.dateFormat)
+        .onChange(async (value) => {
+          options.dateFormat = value || 'YYYY-MM-DD';
+          await this.plugin.saveSettings();
+        }));
+
+    new Setting(containerEl)
+      .setName('Frontmatter property')
+      .setDesc('Also record the address in this property of the note, such as "source", unless the note already has it. Leave empty to leave the frontmatter alone.')
+      .addText(text => text
+        .setPlaceholder('source')
+        .setValue(options.property)
+        .onChange(async (value) => {
+          options.property = value.trim();
+          await this.plugin.saveSettings();
+        }));
+  }
+
+  private renderLinkOptions(containerEl: HTMLElement, options: LinksStep['options']): void {
+    new Setting(containerEl)
+      .setName('Strip tracking parameters')
+      .setDesc('Remove tracking query parameters, such as utm_source and fbclid, from link URLs')
+      .addToggle(toggle => toggle
+        .setValue(options.stripTrackingParameters)
+        .onChange(async (value) => {
+          options.stripTrackingParameters = value;
+          await this.plugin.saveSettings();
+          this.display();
+        }));
+
+    if (options.stripTrackingParameters) {
+      new Setting(containerEl)
+        .setName('Tracking parameters')
+        .setDesc('The query parameters to remove, one per line. End a name with * to match any parameter with that prefix.')
+        .addTextArea(text => text
+          .setValue(options.trackingParameters.join('\n'))
+          .onChange(async (value) => {
+            options.trackingParameters = value.split(/[\n,]/).map(parameter => parameter.trim()).filter(parameter => parameter !== '');
+            await this.plugin.saveSettings();
+          }))
+        .addExtraButton(button => button
+          .setIcon('rotate-ccw')
+          .setTooltip('Restore default parameters')
+          .onClick(async () => {
+            options.trackingParameters = [...DEFAULT_TRACKING_PARAMETERS];
+            await this.plugin.saveSettings();
+            this.display();
+          }));
+    }
+
+    new Setting(containerEl)
+      .setName('Unwrap redirect links')
+      .setDesc('Replace links through redirectors, such as Google search results and Outlook safe links, with the address they redirect to')
+      .addToggle(toggle => toggle
+        .setValue(options.unwrapRedirects)
+        .onChange(async (value) => {
+          options.unwrapRedirects = value;
+          await this.plugin.saveSettings();
+        }));
+
+    new Setting(containerEl)
+      .setName('Link to existing notes')
+      .setDesc('Convert links to pages that are recorded in a note\'s source or url property into wikilinks to that note')
+      .addToggle(toggle => toggle
+        .setValue(options.linkToNotes)
+        .onChange(async (value) => {
+          options.linkToNotes = value;
+          await this.plugin.saveSettings();
+        }));
+  }
+
+  private renderHeadingOptions(containerEl: HTMLElement, options: HeadingsStep['options']): void {
+    new Setting(containerEl)
+      .setName('Max heading level')
+      .setDesc('The maximum heading level to allow when reformatting pasted content (H1 is treated as disabled)')
+      .addDropdown(dropdown => dropdown
+        .addOptions({
+          '1': 'Disabled (H1)',
+          '2': 'H2',
+          '3': 'H3',
+          '4': 'H4',
+          '5': 'H5',
+          '6': 'H6'
+        })
+        .setValue(options.maxHeadingLevel.toString())
+        .onChange(async (value) => {
+          options.maxHeadingLevel = parseInt(value);
+          await this.plugin.saveSettings();
+
+          // Always refresh the display to update the cascade heading levels toggle visibility
+          this.display();
+        }));
+
+    // Only show cascade heading levels setting if max heading level is not H1 (disabled)
+    if (options.maxHeadingLevel > 1) {
+      new Setting(containerEl)
+        .setName('Cascade heading levels')
+        .setDesc('Preserve the heading hierarchy by cascading levels (e.g., H1→H2→H3 becomes H2→H3→H4 when max level is H2)')
+        .addToggle(toggle => toggle
+          .setValue(options.cascadeHeadingLevels)
+          .onChange(async (value) => {
+            options.cascadeHeadingLevels = value;
+            await this.plugin.saveSettings();
+          }));
+    }
+
+    new Setting(containerEl)
+      .setName('Contextual cascade')
+      .setDesc('Cascade headings based on the current context (e.g., if cursor is in an H2 section, headings will start from H3)')
+      .addToggle(toggle => toggle
+        .setValue(options.contextualCascade)
+        .onChange(async (value) => {
+          options.contextualCascade = value;
+          await this.plugin.saveSettings();
+        }));
+
+    new Setting(containerEl)
+      .setName('Close level gaps')
+      .setDesc('Make each heading at most one level below the heading it belongs to (e.g., H1→H3 becomes H1→H2)')
+      .addToggle(toggle => toggle
+        .setValue(options.closeLevelGaps)
+        .onChange(async (value) => {
+          options.closeLevelGaps = value;
+          await this.plugin.saveSettings();
+        }));
+
+    new Setting(containerEl)
+      .setName('Bold text for headings below H6')
+      .setDesc('Turn headings that cascading would push below H6 into bold paragraphs instead of keeping them at H6')
+      .addToggle(toggle => toggle
+        .setValue(options.overflowToBold)
+        .onChange(async (value) => {
+          options.overflowToBold = value;
+          await this.plugin.saveSettings();
+        }));
+
+    new Setting(containerEl)
+      .setName('Strip heading numbers')
+      .setDesc('Remove manual numbering such as "2.3.1" or "4." from the start of headings')
+      .addToggle(toggle => toggle
+        .setValue(options.stripNumbering)
+        .onChange(async (value) => {
+          options.stripNumbering = value;
+          await this.plugin.saveSettings();
+        }));
+
+    new Setting(containerEl)
+      .setName('Heading that repeats the note title')
+      .setDesc('What to do with an H1 at the start of the content that is the only H1 and matches the note title')
+      .addDropdown(dropdown => dropdown
+        .addOptions({
+          'keep': 'Keep',
+          'bold': 'Turn into bold text',
+          'remove': 'Remove'
+        })
+        .setValue(options.titleHeading)
+        .onChange(async (value) => {
+          options.titleHeading = value as TitleHeadingHandling;
+          await this.plugin.saveSettings();
+        }));
+  }
+
+  private renderListOptions(containerEl: HTMLElement, options: ListsStep['options']): void {
+    new Setting(containerEl)
+      .setName('Bullet marker')
+      .setDesc('The marker of bulleted list items')
+      .addDropdown(dropdown => dropdown
+        .addOptions({
+          'keep': 'Keep',
+          '-': 'Dash (-)',
+          '*': 'Asterisk (*)',
+          '+': 'Plus (+)'
+        })
+        .setValue(options.bulletMarker)
+        .onChange(async (value) => {
+          options.bulletMarker = value as BulletMarker;
+          await this.plugin.saveSettings();
+        }));
+
+    new Setting(containerEl)
+      .setName('Indentation')
+      .setDesc('How nested list items are indented. Changing the indentation also leaves a single space after each marker.')
+      .addDropdown(dropdown => dropdown
+        .addOptions({
+          'keep': 'Keep',
+          'tab': 'Tabs',
+          'spaces': 'Spaces'
+        })
+        .setValue(options.indentation)
+        .onChange(async (value) => {
+          options.indentation = value as ListIndentation;
+          await this.plugin.saveSettings();
+
+          // The indent size only applies to spaces
+          this.display();
+        }));
+
+    if (options.indentation === 'spaces') {
+      new Setting(containerEl)
+        .setName('Indent size')
+        .setDesc('The number of spaces per nesting level. Items nested in numbered items may need 3 or more spaces.')
+        .addSlider(slider => slider
+          .setLimits(2, 8, 1)
+          .setValue(options.indentSize)
+          .setDynamicTooltip()
+          .onChange(async (value) => {
+            options.indentSize = value;
+            await this.plugin.saveSettings();
+          }));
+    }
+
+    new Setting(containerEl)
+      .setName('Renumber ordered lists')
+      .setDesc('Number the items of each numbered list consecutively, starting from the number of its first item')
+      .addToggle(toggle => toggle
+        .setValue(options.renumber)
+        .onChange(async (value) => {
+          options.renumber = value;
+          await this.plugin.saveSettings();
+        }));
+
+    new Setting(containerEl)
+      .setName('Spacing')
+      .setDesc('Whether list items are separated by blank lines (loose) or not (tight)')
+      .addDropdown(dropdown => dropdown
+        .addOptions({
+          'keep': 'Keep',
+          'tight': 'Tight',
+          'loose': 'Loose'
+        })
+        .setValue(options.spacing)
+        .onChange(async (value) => {
+          options.spacing = value as ListSpacing;
+          await this.plugin.saveSettings();
+        }));
+
+    new Setting(containerEl)
+      .setName('Convert checkboxes')
+      .setDesc('Turn checkbox characters (☐ ☑ ☒ ✓) and [ ] or [x] at the start of a line into tasks')
+      .addToggle(toggle => toggle
+        .setValue(options.convertCheckboxes)
+        .onChange(async (value) => {
+          options.convertCheckboxes = value;
+          await this.plugin.saveSettings();
+        }));
+  }
+
+  display(): void {
+    const { containerEl } = this;
+
+    containerEl.empty();
+
+    if (!this.plugin.settings.profiles[this.editingProfile]) {
+      this.editingProfile = -1;
+    }
+    const options = this.options;
+
+    new Setting(containerEl)
+      .setName('Override default paste behavior')
+      .setDesc('Alter the behavior of the default paste action to reformat pasted content.')
+      .addToggle(toggle => toggle
+        .setValue(this.plugin.settings.pasteOverride)
+        .onChange(async (value) => {
+          this.plugin.settings.pasteOverride = value;
+          await this.plugin.saveSettings();
+        }));
+
+    new Setting(containerEl)
+      .setName('Show paste notifications')
+      .setDesc('Display a notice when pasted content is reformatted.')
+      .addToggle(toggle => toggle
+        .setValue(this.plugin.settings.showPasteNotifications)
+        .onChange(async (value) => {
+          this.plugin.settings.showPasteNotifications = value;
+          await this.plugin.saveSettings();
+          this.display();
+        }));
+
+    if (this.plugin.settings.showPasteNotifications) {
+      new Setting(containerEl)
+        .setName('Offer to undo reformatting')
+        .setDesc('Add an Undo link to the notice, which replaces the reformatted content with what a regular paste would have produced. The "Undo reformatting of last paste" command does the same.')
+        .addToggle(toggle => toggle
+          .setValue(this.plugin.settings.showUndoAction)
+          .onChange(async (value) => {
+            this.plugin.settings.showUndoAction = value;
+            await this.plugin.saveSettings();
+          }));
+    }
+
+    this.renderEscapedSyntax(containerEl);
+
+    this.renderProfiles(containerEl);
+
+    this.renderFolderOverrides(containerEl);
+
+    new Setting(containerEl)
+      .setName('Presets, import and export')
+      .setHeading();
+
+    this.renderPresetsAndTransfer(containerEl);
+
+    // HTML Transformations
+    new Setting(containerEl)
+      .setName('HTML transformations')
+      .setHeading()
+      .setDesc('Control how the HTML content is processed before being converted to Markdown. Steps run from top to bottom.');
+
+    this.renderPipeline(containerEl, options.htmlSteps, HTML_STEP_TYPES, defaultHTMLSteps);
+
+    new Setting(containerEl)
+      .setName('Markdown transformations')
+      .setDesc('Control how the Markdown content is adjusted after HTML conversion or when pasted as plain text. Steps run from top to bottom.')
+      .setHeading();
+
+    this.renderPipeline(containerEl, options.markdownSteps, MARKDOWN_STEP_TYPES, defaultMarkdownSteps);
   }
 
 }
@@ -0,0 +1,170 @@
+// Paste Reformatter - A plugin that re-formats pasted HTML text in Obsidian.
+// Copyright (C) 2025 by Keath Milligan.
+
+// The families of Markdown syntax that can be escaped: CommonMark and GFM syntax, then Obsidian's extensions
+export type EscapedSyntax = 'headings' | 'emphasis' | 'lists' | 'blockquotes' | 'code' | 'links' | 'tables' | 'rules' | 'html'
+    | 'wikilinks' | 'highlights' | 'comments' | 'tags' | 'math' | 'block-ids';
+
+export const ESCAPED_SYNTAX_NAMES: Record<EscapedSyntax, string> = {
+    'headings': 'Headings (# Heading)',
+    'emphasis': 'Bold, italic and strikethrough (**, _, ~~)',
+    'lists': 'Lists and tasks (- item, 1. item)',
+    'blockquotes': 'Quotes and callouts (> quote)',
+    'code': 'Code (`code`, ``` blocks)',
+    'links': 'Links, images and footnotes ([text](url), [^1])',
+    'tables': 'Tables (|)',
+    'rules': 'Horizontal rules (---)',
+    'html': 'HTML tags and entities (<b>, &amp;)',
+    'wikilinks': 'Wikilinks and embeds ([[note]], ![[image]])',
+    'highlights': 'Highlights (==text==)',
+    'comments': 'Comments (%%comment%%)',
+    'tags': 'Tags (#tag)',
+    'math': 'Math ($x$, $$x$$)',
+    'block-ids': 'Block IDs (^block-id)'
+};
+
+// All families, in the order they are shown; escaping all of them is the default
+export const ESCAPED_SYNTAX = Object.keys(ESCAPED_SYNTAX_NAMES) as EscapedSyntax[];
+
+// The blockquote markers and indentation at the start of a line, which line-based syntax may follow
+const LINE_PREFIX = '^((?:[ \\t]*>)*[ \\t]*)';
+
+// Rules that find the characters to escape for each family. Each regex captures what comes
+// before the characters in group 1 and the characters to escape in group 2.
+const ESCAPE_RULES: Record<EscapedSyntax, RegExp[]> = {
+    'headings': [
+        new RegExp(`${LINE_PREFIX}(#)(?=#{0,5}(?:[ \\t]|$))`, 'gm'),
+        // Setext underlines, which turn the line above into a heading
+        new RegExp(`${LINE_PREFIX}([=-])(?=\\2*[ \\t]*$)`, 'gm')
+    ],
+    'emphasis': [/()([*_~])/g],
+    'lists': [
+        new RegExp(`${LINE_PREFIX}([-+*])(?=[ \\t]|$)`, 'gm'),
+        /^((?:[ \t]*>)*[ \t]*\d{1,9})([.)])(?=[ \t]|$)/gm
+    ],
+    'blockquotes': [/^([ \t]*)(>)/gm],
+    'code': [/()(`)/g, new RegExp(`${LINE_PREFIX}(~)(?=~~)`, 'gm')],
+    'links': [/()(\[)/g],
+    'tables': [/()(\|)/g],
+    'rules': [new RegExp(`${LINE_PREFIX}([-*_])(?=(?:[ \\t]*\\2){2,}[ \\t]*$)`, 'gm')],
+    'html': [/()(<)(?=[a-zA-Z/!?])/g, /()(&)(?=#?\w+;)/g],
+    'wikilinks': [/()(\[\[)/g],
+    'highlights': [/()(={2,})/g],
+    'comments': [/()(%%)/g],
+    'tags': [/(^|\s)(#)(?=[^\s#.,;:!?'"()[\]{}<>|\\=*+&^%$@`~])/gm],
+    'math': [/()(\$)/g],
+    'block-ids': [/(\s)(\^)(?=[\w-]+[ \t]*$)/gm]
+};
+
+// Backslashes that would escape the next character or break the line, which are always escaped
+const BACKSLASH_RULE = /()(\\)(?=[!-/:-@[-`{-~]|$)/gm;
+
+// Syntax whose content must be kept as it is when the family is not escaped: backslashes are
+// not escapes in code, math and comments, and would change link targets, tags and HTML attributes
+const PROTECTED_SYNTAX: Partial<Record<EscapedSyntax, RegExp[]>> = {
+    'code': [/^([ \t]*)(`{3,}|~{3,})[^\n]*\n[\s\S]*?(?:^[ \t]*\2[`~]*[ \t]*$|(?![\s\S]))/gm, /(`+)(?!`)[\s\S]*?[^`]\1(?!`)/g],
+    'math': [/\$\$[\s\S]+?\$\$/g, /\$[^\s$](?:[^$\n]*[^\s$])?\$/g],
+    'comments': [/%%[\s\S]*?%%/g],
+    'html': [/<!--[\s\S]*?-->/g, /<\/?[a-zA-Z][^>\n]*>/g],
+    'wikilinks': [/!?\[\[[^\]\n]*\]\]/g],
+    'links': [/\]\([^)\n]*\)/g],
+    'tags': [/(^|\s)#[^\s#.,;:!?'"()[\]{}<>|\\=*+&^%$@`~][^\s#,;:!?'"()[\]{}<>|\\=*+&^%$@`~]*/g]
+};
+
+// Bare URLs are shown as they are, and escapes would change them. A URL ends at a backslash,
+// which is escaped so that it shows.
+const URL_REGEX = /\bhttps?:\/\/[^\s<>()[\]\\]+/g;
+
+// The indentation of a line, after any blockquote markers
+const INDENTATION_REGEX = /^((?:[ \t]*>)*)([ \t]+)/gm;
+
+// List items, which indented lines may continue
+const LIST_ITEM_REGEX = /^(?:[ \t]*>)*[ \t]*(?:[-+*]|\d{1,9}[.)])(?:[ \t]|$)/;
+
+/**
+ * Escapes Markdown syntax with backslashes, so that the escaped text renders as the characters
+ * of the source. Only the selected families of syntax are escaped; the rest is kept working,
+ * and the content of code, math, comments, tags, HTML tags and link targets that are kept is
+ * left alone. Backslashes that would escape the next character are always escaped.
+ * @param markdown The Markdown to escape
+ * @param syntax The families of syntax to escape
+ * @returns The escaped Markdown
+ */
+export function escapeMarkdownSyntax(markdown: string, syntax: EscapedSyntax[] = ESCAPED_SYNTAX): string {
+    // Backslashes show in indented code. Without lists to continue, indented lines would only be
+    // code, so their indentation is reduced; it doesn't show in paragraphs.
+    if (syntax.includes('code') && syntax.includes('lists')) {
+        markdown = markdown.replace(INDENTATION_REGEX, (match, quotes, indentation) => indentationWidth(indentation) >= 4 ? `${quotes}   ` : match);
+    }
+
+    const kept = new Array<boolean>(markdown.length).fill(false);
+    const keep = (regex: RegExp): void => {
+        for (const match of markdown.matchAll(regex)) {
+            kept.fill(true, match.index ?? 0, (match.index ?? 0) + match[0].length);
+        }
+    };
+    keep(URL_REGEX);
+    if (!syntax.includes('code')) {
+        for (const [start, end] of indentedCodeBlocks(markdown)) {
+            kept.fill(true, start, end);
+        }
+    }
+    for (const [family, regexes] of Object.entries(PROTECTED_SYNTAX) as [EscapedSyntax, RegExp[]][]) {
+        if (!syntax.includes(family)) {
+            regexes.forEach(keep);
+        }
+    }
+
+    const escaped = new Set<number>();
+    for (const regex of [BACKSLASH_RULE, ...syntax.flatMap(family => ESCAPE_RULES[family] ?? [])]) {
+        for (const match of markdown.matchAll(regex)) {
+            const start = (match.index ?? 0) + match[1].length;
+            for (let i = start; i < start + match[2].length; i++) {
+                if (!kept[i]) {
+                    escaped.add(i);
+                }
+            }
+        }
+    }
+
+    let result = '';
+    for (let i = 0; i < markdown.length; i++) {
+        result += escaped.has(i) ? `\\${markdown[i]}` : markdown[i];
+    }
+    return result;
+}
+
+/**
+ * Finds indented code blocks: indented lines after a blank line that don't continue a list item
+ * @returns The start and end offset of each block
+ */
+function indentedCodeBlocks(markdown: string): [number, number][] {
+    const blocks: [number, number][] = [];
+    let offset = 0;
+    let previous = '';
+    let inList = false;
+    let block: [number, number] | null = null;
+    for (const line of markdown.split('\n')) {
+        const indented = indentationWidth(line.match(/^[ \t]*/)?.[0] ?? '') >= 4;
+        if (block && (indented || line.trim() === '')) {
+            block[1] = offset + line.length;
+        } else if (indented && previous.trim() === '' && !inList) {
+            block = [offset, offset + line.length];
+            blocks.push(block);
+        } else if (line.trim() !== '') {
+            block = null;
+            // Lists continue through indented lines and blank lines
+            inList = LIST_ITEM_REGEX.test(line) || (inList && (indented || /^[ \t]/.test(line)));
+        }
+        previous = line;
+        offset += line.length + 1;
+    }
+    return blocks;
+}
+
+/**
+ * Gets the width of indentation, counting tabs as four spaces
+ */
+function indentationWidth(indentation: string): number {
+    return Array.from(indentation).reduce((width, char) => char === '\t' ? width + 4 - width % 4 : width + 1, 0);
+}
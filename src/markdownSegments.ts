@@ -0,0 +1,130 @@
+// Paste Reformatter - A plugin that re-formats pasted HTML text in Obsidian.
+// Copyright (C) 2025 by Keath Milligan.
+
+// Protected regions are replaced with tokens built from Unicode private use characters
+// so that prose transformations cannot match or alter them.
+const TOKEN_START = '\uE000';
+const TOKEN_END = '\uE001';
+const TOKEN_REGEX = /\uE000(\d+)\uE001/g;
+
+/**
+ * Markdown with its code, math and comment regions replaced by tokens
+ */
+export interface ProtectedMarkdown {
+    text: string; // The prose, with a token in place of each protected region
+    regions: string[]; // The original content of each protected region, indexed by token number
+}
+
+/**
+ * Replaces the regions of Markdown that must not be reformatted with tokens: fenced and
+ * indented code blocks, $$ math blocks, HTML comments and inline code spans. Block regions
+ * are replaced by a single-line token, so line-based rules treat them as one line of text.
+ * @param markdown The Markdown content to protect
+ * @returns The prose with tokens and the protected regions
+ */
+export function protectMarkdown(markdown: string): ProtectedMarkdown {
+    const regions: string[] = [];
+    const token = (content: string): string => {
+        regions.push(content);
+        return `${TOKEN_START}${regions.length - 1}${TOKEN_END}`;
+    };
+
+    // Block-level regions are found line by line
+    const lines = markdown.split('\n');
+    const output: string[] = [];
+    let previousLine = '';
+    let lastContentLine = '';
+
+    for (let i = 0; i < lines.length; i++) {
+        const line = lines[i];
+
+        // Fenced code block, optionally inside a blockquote or list item
+        const fenceMatch = line.match(/^\s*(?:>\s*)*(`{3,}|~{3,})/);
+        if (fenceMatch) {
+            const fence = fenceMatch[1];
+            const closingFence = new RegExp(`^\\s*(?:>\\s*)*${fence[0] === '`' ? '`' : '~'}{${fence.length},}\\s*$`);
+            let end = i + 1;
+            while (end < lines.length && !closingFence.test(lines[end])) {
+                end++;
+            }
+            end = Math.min(end, lines.length - 1);
+            output.push(token(lines.slice(i, end + 1).join('\n')));
+            previousLine = lastContentLine = lines[end];
+            i = end;
+            continue;
+        }
+
+        // Display math block spanning multiple lines
+        const mathMatch = line.match(/^\s*\$\$/);
+        if (mathMatch && !/\$\$.*\$\$/.test(line)) {
+            let end = i + 1;
+            while (end < lines.length && !lines[end].includes('$$')) {
+                end++;
+            }
+            if (end < lines.length) {
+                output.push(token(lines.slice(i, end + 1).join('\n')));
+                previousLine = lastContentLine = lines[end];
+                i = end;
+                continue;
+            }
+        }
+
+        // Indented code block: indented lines after a blank line that don't continue a list
+        const isIndented = /^( {4}|\t)/.test(line) && line.trim() !== '';
+        const continuesList = /^\s*([-+*]|\d+[.)])\s/.test(lastContentLine) || /^( {2,}|\t)/.test(lastContentLine);
+        if (isIndented && previousLine.trim() === '' && !continuesList) {
+            let end = i;
+            while (end + 1 < lines.length && (/^( {4}|\t)/.test(lines[end + 1]) || lines[end + 1].trim() === '')) {
+                end++;
+            }
+            // Trailing blank lines belong to the prose
+            while (lines[end].trim() === '') {
+                end--;
+            }
+            output.push(token(lines.slice(i, end + 1).join('\n')));
+            previousLine = lastContentLine = lines[end];
+            i = end;
+            continue;
+        }
+
+        output.push(line);
+        previousLine = line;
+        if (line.trim() !== '') {
+            lastContentLine = line;
+        }
+    }
+
+    // Inline regions
+    const text = output.join('\n')
+        .replace(/<!--[\s\S]*?-->/g, match => token(match))
+        .replace(/\$\$[\s\S]+?\$\$/g, match => token(match))
+        .replace(/(^|[^`\\])(`+)(?!`)((?:(?!\n[ \t]*\n)[\s\S])*?[^`])\2(?!`)/g, (match, before, ticks, code) => before + token(ticks + code + ticks));
+
+    return { text, regions };
+}
+
+/**
+ * Gets the region a line of protected Markdown stands for, if the line is just a token
+ * @param line The line, without surrounding whitespace
+ * @param regions The protected regions returned by protectMarkdown
+ * @returns The content of the region, or null if the line is not a single token
+ */
+export function blockRegion(line: string, regions: string[]): string | null {
+    const match = line.match(/^\uE000(\d+)\uE001$/);
+    return match ? regions[parseInt(match[1])] ?? null : null;
+}
+
+/**
+ * Puts the protected regions back in place of their tokens
+ * @param text The text containing tokens
+ * @param regions The protected regions returned by protectMarkdown
+ * @returns The text with all protected regions restored
+ */
+export function restoreMarkdown(text: string, regions: string[]): string {
+    // Regions found in the inline pass may contain tokens for block regions
+    const restore = (value: string): string => value.replace(TOKEN_REGEX, (match, index) => {
+        const region = regions[parseInt(index)];
+        return region === undefined ? match : restore(region);
+    });
+    return restore(text);
+}
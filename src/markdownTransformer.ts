@@ -1,236 +1,360 @@
 // Paste Reformatter - A plugin that re-formats pasted HTML text in Obsidian.
 // Copyright (C) 2025 by Keath Milligan.
 
+import { PasteSource, addAttribution } from './attribution';
+import { NoteLinkResolver, rewriteLinks } from './linkRewriter';
+import { normalizeLists } from './listFormatter';
+import { ESCAPED_SYNTAX, EscapedSyntax, escapeMarkdownSyntax } from './markdownEscaper';
+import { formatPlainText } from './plainTextDetector';
+import { protectMarkdown, restoreMarkdown } from './markdownSegments';
+import { HTMLStep, HeadingsStep, MarkdownStep, RegexReplacement, TitleHeadingHandling, enabledSteps } from './pipeline';
+import { compileRule, decodeReplacement } from './regexRules';
+
 /**
- * Transforms the markdown content based on the plugin settings
+ * Transforms the markdown content by running the Markdown pipeline. Code blocks, inline code,
+ * math and HTML comments are protected: only regex replacements with applyToCode set can
+ * change them, and the other steps ignore them.
  * @param markdown The markdown content to transform
- * @param settings The settings to use for transformation
+ * @param settings The settings to use for transformation; the HTML pipeline is only consulted
+ * to find out whether hard line breaks were stripped, and escapedSyntax lists the syntax to escape
+ * when escaping (all syntax if it is missing)
  * @param contextLevel The current heading level for contextual cascade (0 if not in a heading section)
+ * @param escapeMarkdown Whether to escape Markdown syntax; heading steps are skipped and the
+ * result of the other steps is escaped
+ * @param resolveNoteLink Looks up notes by URL, used to convert links into wikilinks
+ * @param plainText Whether the content was pasted as plain text, which plain text detection steps only apply to
+ * @param source The page the content was copied from, used by source attribution steps
+ * @param noteTitle The title of the note the content goes into, used to recognize a leading heading that repeats it
  * @returns An object containing the transformed markdown content and whether any transformations were applied
  */
 export function transformMarkdown(
     markdown: string,
-    settings: {
-        markdownRegexReplacements: Array<{ pattern: string, replacement: string }>,
-        contextualCascade: boolean,
-        maxHeadingLevel: number,
-        cascadeHeadingLevels: boolean,
-        stripLineBreaks: boolean,
-        convertToSingleSpaced: boolean,
-        removeEmptyLines: boolean
-    },
+    settings: { markdownSteps: MarkdownStep[], htmlSteps?: HTMLStep[], escapedSyntax?: EscapedSyntax[] },
     contextLevel: number = 0,
-    escapeMarkdown: boolean = false
+    escapeMarkdown: boolean = false,
+    resolveNoteLink?: NoteLinkResolver,
+    plainText: boolean = false,
+    source: PasteSource | null = null,
+    noteTitle: string | null = null
 ): { markdown: string, appliedTransformations: boolean } {
     let appliedTransformations = false;
 
     console.log(`original: ${markdown}`);
 
-    // Apply regex replacements if defined
-    if (settings.markdownRegexReplacements && settings.markdownRegexReplacements.length > 0) {
-        for (const regex_replacement of settings.markdownRegexReplacements) {
-            try {
-                const regex = new RegExp(regex_replacement.pattern, 'g');
-                const replacement = regex_replacement.replacement
-                    .replace(/\\r\\n/g, '\r\n')
-                    .replace(/\\n/g, '\n')
-                    .replace(/\\r/g, '\r')
-                    .replace(/\\t/g, '\t')
-                    .replace(/\\'/g, "'")
-                    .replace(/\\"/g, '"')
-                    .replace(/\\\\/g, '\\');
-                const originalMarkdown = markdown;
-                // console.log(`applying ${JSON.stringify(regex_replacement.pattern)} replacement ${JSON.stringify(replacement)}`); console.log(JSON.stringify(markdown));
-                markdown = markdown.replace(regex, replacement);
-                if (originalMarkdown !== markdown) {
-                    appliedTransformations = true;
-                    console.log(`regex replacements: ${markdown}`);
-                }
-            } catch (error) {
-                console.error(`Error applying markdown regex replacement: ${error}`);
-            }
+    // Set aside code, math and comments so that only prose is transformed
+    const protectedMarkdown = protectMarkdown(markdown);
+    let regions = protectedMarkdown.regions;
+    markdown = protectedMarkdown.text;
+
+    for (const step of settings.markdownSteps) {
+        if (!step.enabled) {
+            continue;
         }
-    }
 
-    if (!escapeMarkdown) {
-        // Find all heading lines
-        const headingRegex = /^(#{1,6})\s/gm;
+        const originalMarkdown = markdown;
+        switch (step.type) {
+            case 'plain-text':
+                // Detection looks at the complete content, and escaped pastes are meant to be kept as text
+                if (plainText && !escapeMarkdown) {
+                    const formatted = formatPlainText(restoreMarkdown(markdown, regions), step.options);
+                    ({ text: markdown, regions } = protectMarkdown(formatted));
+                }
+                break;
 
-        // Process headings based on settings
-        if (settings.contextualCascade && contextLevel > 0) {
-            let delta = -1;
-            let cascading = false;
+            case 'links':
+                // Clean up link URLs and link to existing notes
+                markdown = rewriteLinks(markdown, step.options, resolveNoteLink);
+                break;
 
-            // Contextual cascade is enabled and we have a context level
-            markdown = markdown.replace(headingRegex, (match, hashes) => {
-                const currentLevel = hashes.length;
-                let newLevel = currentLevel;
+            case 'markdown-regex': {
+                // Changes inside protected regions don't show in the protected text, so the result reports them
+                const result = applyRegexReplacements(markdown, regions, step.options.replacements);
+                markdown = result.markdown;
+                regions = result.regions;
+                if (result.changed) {
+                    appliedTransformations = true;
+                }
+                break;
+            }
 
-                if (cascading) {
-                    // Cascade subsequent levels below the context level
-                    newLevel = Math.min(currentLevel + delta, 6);
-                    console.log(`contextual cascade: delta ${delta}`);
-                } else if (currentLevel <= contextLevel) {
-                    // Intiate contextual cascading
-                    newLevel = Math.min(contextLevel + 1, 6);
-                    delta = newLevel - currentLevel;
-                    cascading = true;
-                    console.log(`*** contextual cascade initiated: delta: ${delta}`);
-                } // else nothing to do
-
-                console.log(`result: current level: ${currentLevel}, new level: ${newLevel}`);
-
-                appliedTransformations = appliedTransformations || (newLevel !== currentLevel);
-                // Return the new heading with the adjusted level
-                return '#'.repeat(newLevel) + ' ';
-            });
-        } else if (settings.maxHeadingLevel > 1) {
-            let delta = -1;
-            let cascading = false;
-
-            markdown = markdown.replace(headingRegex, (match, hashes) => {
-                const currentLevel = hashes.length;
-                let newLevel = currentLevel;
-
-                if (settings.cascadeHeadingLevels) {
-                    // If cascading is enabled, start cascading subsequent headings down if needed
-                    if (cascading) {
-                        // Cascade subsequent headers down, don't go deeper than H6
-                        newLevel = Math.min(currentLevel + delta, 6);
-                        console.log(`cascading: delta: ${delta}`);
-                    } else if (currentLevel < settings.maxHeadingLevel) {
-                        newLevel = settings.maxHeadingLevel;
-                        delta = newLevel - currentLevel;
-                        cascading = true;  // we need to cascade
-                        console.log(`cascade initiated: delta: ${delta}`);
-                    } // else nothing to do, heading is good as is
-                } else {
-                    // Cascading not enabled, just cap heading levels at max
-                    newLevel = Math.max(currentLevel, settings.maxHeadingLevel)
+            case 'headings':
+                // When escaping markdown, we don't want to change headings
+                if (!escapeMarkdown) {
+                    markdown = adjustHeadings(markdown, step.options, contextLevel, noteTitle);
                 }
+                break;
 
-                console.log(`result: current level: ${currentLevel}, new level: ${newLevel}`);
+            case 'lists':
+                markdown = normalizeLists(markdown, step.options, regions);
+                break;
 
-                appliedTransformations = appliedTransformations || (newLevel !== currentLevel);
+            case 'single-spaced':
+                // Normalize line endings to ensure consistent processing
+                markdown = markdown.replace(/\r\n/g, '\n');
 
-                // Return the new heading with the adjusted level
-                return '#'.repeat(newLevel) + ' ';
-            });
+                // Replace 2 or more consecutive newlines with exactly 2 newlines (1 blank line)
+                markdown = markdown.replace(/\n{3,}/g, '\n\n');
+                break;
+
+            case 'attribution':
+                // Escaped pastes are meant to be kept as text
+                if (source && !escapeMarkdown) {
+                    markdown = addAttribution(markdown, step.options, source);
+                }
+                break;
+
+            case 'remove-empty-lines': {
+                const preserveLineBreaks = enabledSteps(settings.htmlSteps ?? [], 'strip-line-breaks').length === 0;
+                markdown = removeEmptyLines(markdown, preserveLineBreaks);
+                break;
+            }
         }
-    } else {
-        // If escaping markdown, we don't want to change headings
-        // Just escape the markdown content
-        const originalMarkdown = markdown;
 
-        // Escape all Markdown syntax that Obsidian recognizes
-        // Headings, bold/italic, lists, links, images, code blocks, blockquotes, etc.
-        markdown = markdown
-            // Escape headings
-            .replace(/^(#{1,6}\s)/gm, '\\$1')
-            // Escape bold/italic
-            .replace(/(\*\*|__|\*|_)/g, '\\$1')
-            // Escape lists
-            .replace(/^(\s*[-+*]\s)/gm, '\\$1')
-            // Escape numbered lists
-            .replace(/^(\s*\d+\.\s)/gm, '\\$1')
-            // Escape links and images
-            .replace(/(!?\[)/g, '\\$1')
-            // Escape code blocks and inline code
-            .replace(/(`{1,3})/g, '\\$1')
-            // Escape blockquotes
-            .replace(/^(\s*>\s)/gm, '\\$1')
-            // Escape horizontal rules
-            .replace(/^(\s*[-*_]{3,}\s*)$/gm, '\\$1')
-            // Escape table syntax
-            .replace(/(\|)/g, '\\$1')
-            // Escape task lists
-            .replace(/^(\s*- \[ \])/gm, '\\$1')
-            // Escape HTML tags that might be interpreted, but only if they're not already inside backticks
-            .replace(/(`.*?`)|(<\/?[a-z][^>]*>)/gi, (match, codeContent, htmlTag) => {
-                // If this is a code block (first capture group), return it unchanged
-                if (codeContent) return codeContent;
-                // Otherwise it's an HTML tag that needs escaping
-                return htmlTag ? '`' + htmlTag + '`' : match;
-            });
-
-        appliedTransformations = (originalMarkdown !== markdown);
+        if (originalMarkdown !== markdown) {
+            appliedTransformations = true;
+        }
     }
 
     console.log(`processed: ${markdown}`);
 
-    // First handle the special line break markers
-    let preserveLineBreaks = !settings.stripLineBreaks;
+    if (escapeMarkdown) {
+        // Escape the selected syntax in the complete content, code included
+        markdown = restoreMarkdown(markdown, regions);
+        regions = [];
+        const originalMarkdown = markdown;
+        markdown = escapeMarkdownSyntax(markdown, settings.escapedSyntax ?? ESCAPED_SYNTAX);
+        appliedTransformations = appliedTransformations || (originalMarkdown !== markdown);
+    }
 
-    // Convert multiple consecutive blank lines to single blank line if enabled
-    // Skip this if removeEmptyLines is enabled (optimization - lines will be removed anyway)
-    if (settings.convertToSingleSpaced && !settings.removeEmptyLines) {
-        // Normalize line endings to ensure consistent processing
-        markdown = markdown.replace(/\r\n/g, '\n');
+    markdown = restoreMarkdown(markdown, regions);
 
-        // Replace 2 or more consecutive newlines with exactly 2 newlines (1 blank line)
-        const originalMarkdown = markdown;
-        markdown = markdown.replace(/\n{3,}/g, '\n\n');
+    console.log(`final: ${markdown}`);
+    return {
+        markdown,
+        appliedTransformations
+    };
+}
 
-        if (originalMarkdown !== markdown) {
-            appliedTransformations = true;
+/**
+ * Applies regex replacements to protected Markdown. Rules that opt in to touching code
+ * see the complete content, after which the content is protected again.
+ * @returns The transformed Markdown, its protected regions and whether any replacement changed it
+ */
+function applyRegexReplacements(
+    markdown: string,
+    regions: string[],
+    replacements: RegexReplacement[]
+): { markdown: string, regions: string[], changed: boolean } {
+    let changed = false;
+    for (const regex_replacement of replacements) {
+        if (regex_replacement.enabled === false) {
+            continue;
+        }
+        try {
+            const regex = compileRule(regex_replacement);
+            const replacement = decodeReplacement(regex_replacement.replacement);
+            if (regex_replacement.applyToCode) {
+                markdown = restoreMarkdown(markdown, regions);
+            }
+            const originalMarkdown = markdown;
+            // console.log(`applying ${JSON.stringify(regex_replacement.pattern)} replacement ${JSON.stringify(replacement)}`); console.log(JSON.stringify(markdown));
+            markdown = markdown.replace(regex, replacement);
+            if (originalMarkdown !== markdown) {
+                changed = true;
+                console.log(`regex replacements: ${markdown}`);
+            }
+            if (regex_replacement.applyToCode) {
+                ({ text: markdown, regions } = protectMarkdown(markdown));
+            }
+        } catch (error) {
+            console.error(`Error applying markdown regex replacement: ${error}`);
         }
     }
+    return { markdown, regions, changed };
+}
 
-    // Process empty lines with a sliding window approach
-    if (settings.removeEmptyLines) {
-        // First, normalize line endings to ensure consistent processing
-        markdown = markdown.replace(/\r\n/g, '\n');
-
-        // Split the content into lines
-        const lines = markdown.split('\n');
-        const filteredLines: string[] = [];
-
-        // Sliding window processing with peek capability
-        for (let i = 0; i < lines.length; i++) {
-            const currentLine = lines[i];
-            const nextLine = i + 1 < lines.length ? lines[i + 1] : null;
-            const isCurrentLineEmpty = currentLine.trim() === '';
-
-            // Rule 1: Preserve line breaks - check for special markers
-            if (preserveLineBreaks) {
-                const hasPreserveMarker =
-                    /<p class="preserve-line-break"[^>]*>.*?<\/p>/.test(currentLine) ||
-                    /<p data-preserve="true"[^>]*>.*?<\/p>/.test(currentLine);
-
-                if (hasPreserveMarker) {
-                    // Insert an empty line instead of the marker
-                    filteredLines.push('');
-                    continue;
-                }
-            }
+/**
+ * Normalizes headings: handles a leading heading that repeats the note title, strips manual
+ * numbering and closes gaps between levels, then adjusts heading levels, either relative to
+ * the heading the content is pasted under (contextual cascade) or by capping them at the
+ * maximum heading level. Headings pushed beyond H6 stay at H6 or become bold paragraphs.
+ */
+function adjustHeadings(markdown: string, options: HeadingsStep['options'], contextLevel: number, noteTitle: string | null): string {
+    if (options.titleHeading !== 'keep' && noteTitle) {
+        markdown = handleTitleHeading(markdown, options.titleHeading, noteTitle);
+    }
 
-            // Rule 2: Keep empty line if next line is a horizontal rule (3+ dashes)
-            if (isCurrentLineEmpty && nextLine !== null && /^\s*-{3,}\s*$/.test(nextLine)) {
-                filteredLines.push(currentLine);
-                continue;
+    const closeGap = options.closeLevelGaps ? levelGapCloser() : (level: number) => level;
+    const adjustLevel = levelAdjuster(options, contextLevel);
+
+    return markdown.replace(/^(#{1,6})[ \t]+(.*)$/gm, (match, hashes: string, text: string) => {
+        if (options.stripNumbering) {
+            text = text.replace(HEADING_NUMBER_REGEX, '');
+        }
+
+        const newLevel = adjustLevel(closeGap(hashes.length));
+        if (newLevel > 6 && options.overflowToBold) {
+            // A closing sequence of hashes is part of the heading syntax, not its text
+            const content = text.replace(/\s+#+\s*$/, '').trim();
+            return content === '' ? '' : `**${content}**`;
+        }
+
+        // Return the new heading with the adjusted level
+        return `${'#'.repeat(Math.min(newLevel, 6))} ${text}`;
+    });
+}
+
+// Manual numbering at the start of a heading, e.g. "2.3.1 ", "4. " or "A.2 ". A number without
+// a dot, such as "2025 ", is more likely to be part of the text, and a letter is only numbering
+// when a number follows it, as "A. " is more likely an initial, as in "A. Smith".
+const HEADING_NUMBER_REGEX = /^(?:\d+(?:\.\d+)*\.|\d+(?:\.\d+)+|[A-Z](?:\.\d+)+\.?)[ \t]+(?=\S)/;
+
+/**
+ * Removes or turns into a bold paragraph the heading at the start of the content, if it is
+ * the only H1 and its text is the note title
+ */
+function handleTitleHeading(markdown: string, handling: TitleHeadingHandling, noteTitle: string): string {
+    const match = markdown.match(/^(\s*)# +(.*?)(?:[ \t]+#+)?[ \t]*(?:\n(?:[ \t]*\n)*|$)/);
+    if (!match || /^# /m.test(markdown.substring(match[0].length)) || headingText(match[2]) !== headingText(noteTitle)) {
+        return markdown;
+    }
+    const replacement = handling === 'bold' ? `**${match[2].trim()}**\n\n` : '';
+    return match[1] + replacement + markdown.substring(match[0].length);
+}
+
+/**
+ * Gets the text of a heading for comparison, without formatting, case and extra whitespace
+ */
+function headingText(text: string): string {
+    return text.replace(/[*_`[\]]/g, '').replace(/\s+/g, ' ').trim().toLowerCase();
+}
+
+/**
+ * Creates a function that closes gaps between heading levels, e.g. H1→H3 becomes H1→H2.
+ * Each heading is at most one level below the closest preceding heading of a higher level.
+ */
+function levelGapCloser(): (level: number) => number {
+    const parents: { level: number, newLevel: number }[] = [];
+    return level => {
+        while (parents.length > 0 && parents[parents.length - 1].level >= level) {
+            parents.pop();
+        }
+        const newLevel = parents.length > 0 ? Math.min(level, parents[parents.length - 1].newLevel + 1) : level;
+        parents.push({ level, newLevel });
+        return newLevel;
+    };
+}
+
+/**
+ * Creates a function that adjusts heading levels, in document order, for contextual cascade or
+ * the maximum heading level. Levels may exceed 6.
+ */
+function levelAdjuster(options: HeadingsStep['options'], contextLevel: number): (level: number) => number {
+    // Process headings based on settings
+    if (options.contextualCascade && contextLevel > 0) {
+        let delta = -1;
+        let cascading = false;
+
+        // Contextual cascade is enabled and we have a context level
+        return currentLevel => {
+            let newLevel = currentLevel;
+
+            if (cascading) {
+                // Cascade subsequent levels below the context level
+                newLevel = currentLevel + delta;
+                console.log(`contextual cascade: delta ${delta}`);
+            } else if (currentLevel <= contextLevel) {
+                // Intiate contextual cascading
+                newLevel = contextLevel + 1;
+                delta = newLevel - currentLevel;
+                cascading = true;
+                console.log(`*** contextual cascade initiated: delta: ${delta}`);
+            } // else nothing to do
+
+            console.log(`result: current level: ${currentLevel}, new level: ${newLevel}`);
+            return newLevel;
+        };
+    } else if (options.maxHeadingLevel > 1) {
+        let delta = -1;
+        let cascading = false;
+
+        return currentLevel => {
+            let newLevel = currentLevel;
+
+            if (options.cascadeHeadingLevels) {
+                // If cascading is enabled, start cascading subsequent headings down if needed
+                if (cascading) {
+                    // Cascade subsequent headers down
+                    newLevel = currentLevel + delta;
+                    console.log(`cascading: delta: ${delta}`);
+                } else if (currentLevel < options.maxHeadingLevel) {
+                    newLevel = options.maxHeadingLevel;
+                    delta = newLevel - currentLevel;
+                    cascading = true;  // we need to cascade
+                    console.log(`cascade initiated: delta: ${delta}`);
+                } // else nothing to do, heading is good as is
+            } else {
+                // Cascading not enabled, just cap heading levels at max
+                newLevel = Math.max(currentLevel, options.maxHeadingLevel)
             }
 
-            // Rule 3: Keep empty line if next line is the beginning of a table
-            if (isCurrentLineEmpty && nextLine !== null && /^\s*\|.*\|/.test(nextLine)) {
-                filteredLines.push(currentLine);
+            console.log(`result: current level: ${currentLevel}, new level: ${newLevel}`);
+            return newLevel;
+        };
+    }
+    return level => level;
+}
+
+/**
+ * Removes blank lines, keeping those that Markdown needs before horizontal rules and tables
+ * @param markdown The Markdown to process
+ * @param preserveLineBreaks Whether line break marker paragraphs are turned into blank lines
+ */
+function removeEmptyLines(markdown: string, preserveLineBreaks: boolean): string {
+    // First, normalize line endings to ensure consistent processing
+    markdown = markdown.replace(/\r\n/g, '\n');
+
+    // Split the content into lines
+    const lines = markdown.split('\n');
+    const filteredLines: string[] = [];
+
+    // Sliding window processing with peek capability
+    for (let i = 0; i < lines.length; i++) {
+        const currentLine = lines[i];
+        const nextLine = i + 1 < lines.length ? lines[i + 1] : null;
+        const isCurrentLineEmpty = currentLine.trim() === '';
+
+        // Rule 1: Preserve line breaks - check for special markers
+        if (preserveLineBreaks) {
+            const hasPreserveMarker =
+                /<p class="preserve-line-break"[^>]*>.*?<\/p>/.test(currentLine) ||
+                /<p data-preserve="true"[^>]*>.*?<\/p>/.test(currentLine);
+
+            if (hasPreserveMarker) {
+                // Insert an empty line instead of the marker
+                filteredLines.push('');
                 continue;
             }
+        }
 
-            // Default: Remove empty lines unless they meet the above criteria
-            if (!isCurrentLineEmpty) {
-                filteredLines.push(currentLine);
-            }
+        // Rule 2: Keep empty line if next line is a horizontal rule (3+ dashes)
+        if (isCurrentLineEmpty && nextLine !== null && /^\s*-{3,}\s*$/.test(nextLine)) {
+            filteredLines.push(currentLine);
+            continue;
         }
 
-        // Join the filtered lines back together
-        const originalMarkdown = markdown;
-        markdown = filteredLines.join('\n');
-        appliedTransformations = appliedTransformations || (originalMarkdown !== markdown);
+        // Rule 3: Keep empty line if next line is the beginning of a table
+        if (isCurrentLineEmpty && nextLine !== null && /^\s*\|.*\|/.test(nextLine)) {
+            filteredLines.push(currentLine);
+            continue;
+        }
+
+        // Default: Remove empty lines unless they meet the above criteria
+        if (!isCurrentLineEmpty) {
+            filteredLines.push(currentLine);
+        }
     }
 
-    console.log(`final: ${markdown}`);
-    return {
-        markdown,
-        appliedTransformations
-    };
+    // Join the filtered lines back together
+    return filteredLines.join('\n');
 }
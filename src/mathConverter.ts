@@ -0,0 +1,306 @@
+// Paste Reformatter - A plugin that re-formats pasted HTML text in Obsidian.
+// Copyright (C) 2025 by Keath Milligan.
+
+import { addToken } from './conversionTokens';
+
+// Images whose alt text is the TeX source, as rendered by Wikipedia, WordPress and equation editors
+const TEX_IMAGE_SELECTOR = 'img.tex, img.latex, img[class*="math"], img[src*="latex"], img[src*="codecogs"], img[src*="mathtex"]';
+
+// Elements MathJax 2 renders next to the script that holds the TeX source
+const MATHJAX_RENDERED_SELECTOR = '.MathJax_Preview, .MathJax, .MathJax_Display, .MathJax_SVG, .MathJax_SVG_Display, .MathJax_CHTML, .MathJax_MathML';
+
+// Unicode characters and the LaTeX commands for them
+const SYMBOLS: Record<string, string> = {
+    'α': '\\alpha', 'β': '\\beta', 'γ': '\\gamma', 'δ': '\\delta', 'ε': '\\epsilon', 'ϵ': '\\epsilon', 'ζ': '\\zeta',
+    'η': '\\eta', 'θ': '\\theta', 'ϑ': '\\vartheta', 'ι': '\\iota', 'κ': '\\kappa', 'λ': '\\lambda', 'μ': '\\mu',
+    'ν': '\\nu', 'ξ': '\\xi', 'π': '\\pi', 'ρ': '\\rho', 'σ': '\\sigma', 'ς': '\\varsigma', 'τ': '\\tau',
+    'υ': '\\upsilon', 'φ': '\\phi', 'ϕ': '\\phi', 'χ': '\\chi', 'ψ': '\\psi', 'ω': '\\omega',
+    'Γ': '\\Gamma', 'Δ': '\\Delta', 'Θ': '\\Theta', 'Λ': '\\Lambda', 'Ξ': '\\Xi', 'Π': '\\Pi', 'Σ': '\\Sigma',
+    'Υ': '\\Upsilon', 'Φ': '\\Phi', 'Ψ': '\\Psi', 'Ω': '\\Omega',
+    '∞': '\\infty', '±': '\\pm', '∓': '\\mp', '×': '\\times', '÷': '\\div', '·': '\\cdot', '⋅': '\\cdot', '∘': '\\circ',
+    '≤': '\\leq', '≥': '\\geq', '≠': '\\neq', '≈': '\\approx', '≡': '\\equiv', '∼': '\\sim', '≅': '\\cong', '∝': '\\propto',
+    '→': '\\to', '←': '\\leftarrow', '↔': '\\leftrightarrow', '⇒': '\\Rightarrow', '⇐': '\\Leftarrow', '⇔': '\\Leftrightarrow', '↦': '\\mapsto',
+    '∈': '\\in', '∉': '\\notin', '∋': '\\ni', '⊂': '\\subset', '⊆': '\\subseteq', '⊃': '\\supset', '⊇': '\\supseteq',
+    '∪': '\\cup', '∩': '\\cap', '∅': '\\emptyset', '∀': '\\forall', '∃': '\\exists', '¬': '\\neg', '∧': '\\wedge', '∨': '\\vee',
+    '∑': '\\sum', '∏': '\\prod', '∫': '\\int', '∬': '\\iint', '∮': '\\oint', '∂': '\\partial', '∇': '\\nabla',
+    '…': '\\ldots', '⋯': '\\cdots', '⋮': '\\vdots', '⋱': '\\ddots', '′': '\'', '″': '\'\'', '−': '-', '∗': '*',
+    'ℝ': '\\mathbb{R}', 'ℕ': '\\mathbb{N}', 'ℤ': '\\mathbb{Z}', 'ℚ': '\\mathbb{Q}', 'ℂ': '\\mathbb{C}', 'ℓ': '\\ell', 'ℏ': '\\hbar',
+    '⟨': '\\langle', '⟩': '\\rangle', '⌊': '\\lfloor', '⌋': '\\rfloor', '⌈': '\\lceil', '⌉': '\\rceil', '∣': '\\mid', '‖': '\\|',
+    '{': '\\{', '}': '\\}',
+    // Invisible operators: function application, times, separator and plus
+    '⁡': '', '⁢': '', '⁣': '', '⁤': ''
+};
+
+// Identifiers written as commands, e.g. sin becomes \sin
+const FUNCTIONS = ['sin', 'cos', 'tan', 'cot', 'sec', 'csc', 'arcsin', 'arccos', 'arctan', 'sinh', 'cosh', 'tanh',
+    'log', 'ln', 'lg', 'exp', 'lim', 'max', 'min', 'sup', 'inf', 'det', 'dim', 'gcd', 'deg', 'arg', 'ker', 'Pr'];
+
+// Accents written over a base with <mover>
+const ACCENTS: Record<string, string> = {
+    '^': '\\hat', 'ˆ': '\\hat', '¯': '\\bar', '‾': '\\overline', '→': '\\vec', '~': '\\tilde', '˜': '\\tilde',
+    '˙': '\\dot', '¨': '\\ddot', '⏞': '\\overbrace'
+};
+
+/**
+ * Converts rendered math back into LaTeX: $...$ for inline math and $$...$$ for display math.
+ * The TeX source is taken from TeX annotations in MathML, MathJax script tags, KaTeX markup
+ * and the alt text of equation images. MathML without TeX source is converted to LaTeX.
+ * The math is passed through conversion as tokens, so it is not escaped.
+ * @param doc The parsed HTML document to modify
+ * @param tokens The token values for the current paste (see addToken)
+ * @returns true if any math was converted
+ */
+export function convertMath(doc: Document, tokens: string[]): boolean {
+    let changed = false;
+    const replace = (element: Element, tex: string | null, display: boolean): void => {
+        if (tex === null || tex.trim() === '') {
+            return;
+        }
+        replaceWithMath(element, tex, display, tokens);
+        changed = true;
+    };
+
+    // Wikipedia shows an image and keeps MathML with a TeX annotation for accessibility
+    doc.querySelectorAll('.mwe-math-element').forEach(element => {
+        const math = element.querySelector('math');
+        const image = element.querySelector('img');
+        const tex = (math && annotationTeX(math)) ?? image?.getAttribute('alt') ?? null;
+        const display = element.querySelector('.mwe-math-fallback-image-display, .mwe-math-mathml-display') !== null
+            || math?.getAttribute('display') === 'block';
+        replace(element, tex, display);
+    });
+
+    // KaTeX keeps MathML with a TeX annotation next to its HTML rendering
+    doc.querySelectorAll('.katex-display, .katex').forEach(element => {
+        if (!element.isConnected) {
+            return;
+        }
+        const math = element.querySelector('math');
+        replace(element, math && mathTeX(math), element.classList.contains('katex-display'));
+    });
+
+    // MathJax 2 keeps the source in a script tag after its rendering
+    doc.querySelectorAll('script[type^="math/tex"]').forEach(script => {
+        const frame = script.id ? doc.getElementById(`${script.id}-Frame`) : null;
+        (frame?.closest('.MathJax_Display, .MathJax_SVG_Display') ?? frame)?.remove();
+        while (script.previousElementSibling?.matches(MATHJAX_RENDERED_SELECTOR)) {
+            script.previousElementSibling.remove();
+        }
+        replace(script, script.textContent, (script.getAttribute('type') ?? '').includes('mode=display'));
+    });
+
+    // MathJax 3 keeps MathML for assistive technology
+    doc.querySelectorAll('mjx-container').forEach(container => {
+        const math = container.querySelector('math');
+        replace(container, math && mathTeX(math), container.getAttribute('display') === 'true');
+    });
+
+    // MathML on its own, e.g. from arXiv
+    doc.querySelectorAll('math').forEach(math => {
+        if (math.isConnected) {
+            replace(math, mathTeX(math), math.getAttribute('display') === 'block');
+        }
+    });
+
+    doc.querySelectorAll(TEX_IMAGE_SELECTOR).forEach(image => {
+        const tex = image.getAttribute('alt')?.replace(/^\s*\$+|\$+\s*$/g, '') ?? null;
+        replace(image, tex, /display/i.test(image.getAttribute('class') ?? ''));
+    });
+
+    return changed;
+}
+
+/**
+ * Converts MathML into LaTeX for the common constructs: tokens, fractions, roots, scripts,
+ * limits, accents, fences and tables. Unknown elements contribute their content.
+ * @param element The <math> element or a MathML element inside it
+ * @returns The LaTeX
+ */
+export function mathMLToLaTeX(element: Element): string {
+    const children = Array.from(element.children);
+    const arg = (index: number): string => children[index] ? mathMLToLaTeX(children[index]) : '';
+    const text = (element.textContent ?? '').trim();
+
+    switch (element.localName) {
+        case 'mi':
+            if (FUNCTIONS.includes(text)) {
+                return `\\${text}`;
+            }
+            return text.length > 1 && !SYMBOLS[text] ? `\\mathrm{${text}}` : symbols(text);
+        case 'mn':
+            return text;
+        case 'mo':
+            return symbols(text);
+        case 'mtext':
+            return text === '' ? '' : `\\text{${text}}`;
+        case 'mspace':
+            return '\\ ';
+        case 'ms':
+            return `\\text{"${text}"}`;
+        case 'mfrac':
+            return element.getAttribute('linethickness') === '0' ? `\\binom{${arg(0)}}{${arg(1)}}` : `\\frac{${arg(0)}}{${arg(1)}}`;
+        case 'msqrt':
+            return `\\sqrt{${joinLaTeX(children.map(mathMLToLaTeX))}}`;
+        case 'mroot':
+            return `\\sqrt[${arg(1)}]{${arg(0)}}`;
+        case 'msup':
+            return `${base(children[0])}^${group(arg(1))}`;
+        case 'msub':
+            return `${base(children[0])}_${group(arg(1))}`;
+        case 'msubsup':
+            return `${base(children[0])}_${group(arg(1))}^${group(arg(2))}`;
+        case 'munder':
+            return underOver(children[0], children[1], null);
+        case 'mover':
+            return underOver(children[0], null, children[1]);
+        case 'munderover':
+            return underOver(children[0], children[1], children[2]);
+        case 'mfenced': {
+            const open = element.getAttribute('open') ?? '(';
+            const close = element.getAttribute('close') ?? ')';
+            const separator = (element.getAttribute('separators') ?? ',').trim().charAt(0);
+            return `\\left${fence(open)} ${children.map(mathMLToLaTeX).join(`${separator} `)} \\right${fence(close)}`;
+        }
+        case 'mtable': {
+            const rows = children.filter(row => row.localName === 'mtr' || row.localName === 'mlabeledtr')
+                .map(row => Array.from(row.children).map(mathMLToLaTeX).join(' & '));
+            return `\\begin{matrix} ${rows.join(' \\\\ ')} \\end{matrix}`;
+        }
+        case 'mphantom':
+        case 'annotation':
+        case 'annotation-xml':
+            return '';
+        case 'semantics':
+            return arg(0);
+        default:
+            // math, mrow, mstyle, mpadded, menclose, mtd and unknown elements
+            return joinLaTeX(children.map(mathMLToLaTeX));
+    }
+}
+
+/**
+ * Gets the TeX source of a <math> element from its TeX annotation or alttext attribute,
+ * or by converting the MathML
+ */
+function mathTeX(math: Element): string {
+    return annotationTeX(math) ?? mathMLToLaTeX(math);
+}
+
+/**
+ * Gets the TeX annotation of a <math> element, as written by MathJax, KaTeX, LaTeXML and MediaWiki
+ * @returns The TeX source, or null if the element has none
+ */
+function annotationTeX(math: Element): string | null {
+    const annotation = Array.from(math.querySelectorAll('annotation'))
+        .find(element => /^(application\/(x-)?tex|text\/latex)$/i.test(element.getAttribute('encoding') ?? ''));
+    return annotation?.textContent ?? math.getAttribute('alttext');
+}
+
+/**
+ * Replaces an element with its math. Display math becomes a block of its own.
+ * @param element The element that renders the math
+ * @param tex The TeX source
+ * @param display Whether the math is display math
+ * @param tokens The token values for the current paste
+ */
+function replaceWithMath(element: Element, tex: string, display: boolean, tokens: string[]): void {
+    // Math is kept on one line so that it stays inside lists and quotes; TeX ignores the line breaks
+    tex = unwrapStyle(tex.replace(/\s*\n\s*/g, ' ').trim());
+    const doc = element.ownerDocument;
+    if (display) {
+        const block = doc.createElement('div');
+        block.textContent = addToken(tokens, `$$${tex}$$`);
+        element.replaceWith(block);
+    } else {
+        element.replaceWith(doc.createTextNode(addToken(tokens, `$${tex}$`)));
+    }
+}
+
+/**
+ * Removes the {\displaystyle ...} group MediaWiki wraps around its TeX source
+ */
+function unwrapStyle(tex: string): string {
+    const match = tex.match(/^\{\\(?:displaystyle|textstyle)\s*([\s\S]*)\}$/);
+    if (!match) {
+        return tex;
+    }
+    // The wrapping group must end at the last brace, as in {\displaystyle a} but not {\displaystyle a}+{b}
+    let depth = 0;
+    for (const char of match[1]) {
+        depth += char === '{' ? 1 : char === '}' ? -1 : 0;
+        if (depth < 0) {
+            return tex;
+        }
+    }
+    return depth === 0 ? match[1].trim() : tex;
+}
+
+function symbols(text: string): string {
+    return joinLaTeX(Array.from(text).map(char => SYMBOLS[char] ?? char));
+}
+
+/**
+ * Joins LaTeX fragments, separating commands and single character scripts from letters and
+ * digits that follow them, e.g. \alpha x rather than \alphax and x^2 3 rather than x^23
+ */
+function joinLaTeX(parts: string[]): string {
+    return parts.reduce((result, part) => {
+        if (/(\\[a-zA-Z]+|[_^][a-zA-Z0-9])$/.test(result) && /^[a-zA-Z0-9]/.test(part)) {
+            return `${result} ${part}`;
+        }
+        return result + part;
+    }, '');
+}
+
+/**
+ * Wraps a script or argument in braces unless it is a single character
+ */
+function group(latex: string): string {
+    return latex.length === 1 ? latex : `{${latex}}`;
+}
+
+/**
+ * Gets the base of a script, wrapped in braces if it is made of several parts
+ */
+function base(element: Element | undefined): string {
+    if (!element) {
+        return '{}';
+    }
+    const latex = mathMLToLaTeX(element);
+    return element.localName === 'mrow' && element.children.length > 1 ? `{${latex}}` : latex;
+}
+
+/**
+ * Converts limits and accents: sums and limits get scripts, accents their command and
+ * anything else \underset or \overset
+ */
+function underOver(baseElement: Element | undefined, under: Element | null | undefined, over: Element | null | undefined): string {
+    const baseLaTeX = baseElement ? mathMLToLaTeX(baseElement) : '';
+    const overText = (over?.textContent ?? '').trim();
+    if (over && !under && ACCENTS[overText]) {
+        return `${ACCENTS[overText]}{${baseLaTeX}}`;
+    }
+    if (under && !over && (under.textContent ?? '').trim() === '_') {
+        return `\\underline{${baseLaTeX}}`;
+    }
+
+    const isOperator = baseElement?.localName === 'mo' || /^\\(sum|prod|int|iint|oint|lim|max|min|sup|inf|bigcup|bigcap)$/.test(baseLaTeX) || /^\\lim/.test(baseLaTeX);
+    if (isOperator) {
+        return `${baseLaTeX}${under ? `_${group(mathMLToLaTeX(under))}` : ''}${over ? `^${group(mathMLToLaTeX(over))}` : ''}`;
+    }
+    let latex = baseLaTeX;
+    if (under) {
+        latex = `\\underset{${mathMLToLaTeX(under)}}{${latex}}`;
+    }
+    if (over) {
+        latex = `\\overset{${mathMLToLaTeX(over)}}{${latex}}`;
+    }
+    return latex;
+}
+
+/**
+ * Gets the LaTeX for a fence character of <mfenced>
+ */
+function fence(char: string): string {
+    return char === '' ? '.' : char === '{' || char === '}' ? `\\${char}` : SYMBOLS[char] ?? char;
+}
@@ -0,0 +1,177 @@
+// Paste Reformatter - A plugin that re-formats pasted HTML text in Obsidian.
+// Copyright (C) 2025 by Keath Milligan.
+
+import { NestedListItem, buildNestedLists, nextElementSkippingWhitespace } from './lists';
+
+// Markup that only Word and Outlook produce
+const OFFICE_SELECTOR = '[class^="Mso"], [class*=" Mso"], [style*="mso-"], meta[name="ProgId"][content^="Word."], meta[name="Generator"][content^="Microsoft"]';
+
+// Word indents each list level by half an inch
+const LIST_INDENT_PT = 36;
+
+// List markers of numbered lists: 1. 1) (1) a. A) iv. etc.
+const NUMBERED_MARKER = /^\(?(\d+|[a-z]|[ivxlcdm]+)[.)]$/i;
+
+/**
+ * Checks whether a document was copied from Word or Outlook
+ * @param doc The parsed HTML document
+ */
+export function isOfficeDocument(doc: Document): boolean {
+    return doc.querySelector(OFFICE_SELECTOR) !== null || doc.documentElement.hasAttribute('xmlns:o');
+}
+
+/**
+ * Removes the Office-specific markup of Word and Outlook content: conditional comments,
+ * Office namespace elements such as <o:p>, mso- styles and Mso classes, and empty spacer
+ * paragraphs. Word's lists are paragraphs with a bullet or number typed in front, which are
+ * converted into real nested lists. Documents that were not copied from Word or Outlook are
+ * left unchanged.
+ * @param doc The parsed HTML document to modify
+ * @returns true if the document was copied from Word or Outlook and cleaned up
+ */
+export function cleanOffice(doc: Document): boolean {
+    if (!isOfficeDocument(doc)) {
+        return false;
+    }
+
+    // Lists are recognized from mso- styles, so they are converted first
+    convertLists(doc);
+
+    // Conditional comments and fragment markers
+    const walker = doc.createTreeWalker(doc.body, NodeFilter.SHOW_COMMENT);
+    const comments: Node[] = [];
+    while (walker.nextNode()) {
+        comments.push(walker.currentNode);
+    }
+    comments.forEach(comment => comment.parentNode?.removeChild(comment));
+
+    doc.body.querySelectorAll('style, xml, meta, link').forEach(element => element.remove());
+
+    // Office namespace elements such as <o:p>, which hold spacing, and VML shapes
+    Array.from(doc.body.querySelectorAll('*'))
+        .filter(element => element.tagName.includes(':'))
+        .forEach(element => {
+            if (hasText(element)) {
+                element.replaceWith(...Array.from(element.childNodes));
+            } else {
+                element.remove();
+            }
+        });
+
+    doc.body.querySelectorAll('[style], [class], [lang]').forEach(element => {
+        const style = (element.getAttribute('style') ?? '')
+            .split(';')
+            .filter(declaration => declaration.trim() !== '' && !/^\s*mso-/i.test(declaration))
+            .join(';');
+        setOrRemoveAttribute(element, 'style', style);
+        const classes = (element.getAttribute('class') ?? '').split(/\s+/).filter(name => name !== '' && !/^Mso/i.test(name));
+        setOrRemoveAttribute(element, 'class', classes.join(' '));
+        element.removeAttribute('lang');
+    });
+
+    // Spans left without attributes only add noise
+    doc.body.querySelectorAll('span').forEach(span => {
+        if (span.attributes.length === 0) {
+            span.replaceWith(...Array.from(span.childNodes));
+        }
+    });
+
+    // Word separates paragraphs with paragraphs containing only a non-breaking space
+    doc.body.querySelectorAll('p').forEach(paragraph => {
+        if (!hasText(paragraph) && !paragraph.querySelector('img, br, table, hr')) {
+            paragraph.remove();
+        }
+    });
+
+    return true;
+}
+
+/**
+ * Checks whether an element contains text other than whitespace and non-breaking spaces
+ */
+function hasText(element: Element): boolean {
+    return (element.textContent ?? '').replace(/\u00a0/g, ' ').trim() !== '';
+}
+
+function setOrRemoveAttribute(element: Element, name: string, value: string): void {
+    if (value.trim() === '') {
+        element.removeAttribute(name);
+    } else if (element.getAttribute(name) !== value) {
+        element.setAttribute(name, value);
+    }
+}
+
+/**
+ * Converts runs of Word list paragraphs into nested lists
+ */
+function convertLists(doc: Document): void {
+    const processed = new Set<Element>();
+
+    doc.body.querySelectorAll('p').forEach(paragraph => {
+        if (processed.has(paragraph) || !isListParagraph(paragraph)) {
+            return;
+        }
+
+        // Collect the paragraph and the list paragraphs directly following it
+        const group: Element[] = [paragraph];
+        let next = nextElementSkippingWhitespace(paragraph);
+        while (next && next.tagName === 'P' && isListParagraph(next)) {
+            group.push(next);
+            next = nextElementSkippingWhitespace(next);
+        }
+        group.forEach(element => processed.add(element));
+
+        const items: NestedListItem[] = group.map(element => {
+            const marker = removeListMarker(element);
+            const item = doc.createElement('li');
+            item.append(...Array.from(element.childNodes));
+            return { element: item, level: listParagraphLevel(element), type: NUMBERED_MARKER.test(marker) ? 'ol' : 'ul' };
+        });
+
+        paragraph.replaceWith(...buildNestedLists(doc, items));
+        group.slice(1).forEach(element => element.remove());
+    });
+}
+
+function isListParagraph(paragraph: Element): boolean {
+    return /mso-list:\s*l\d+/i.test(paragraph.getAttribute('style') ?? '') || /^MsoListParagraph/i.test(paragraph.getAttribute('class') ?? '');
+}
+
+/**
+ * Gets the nesting level of a list paragraph from its mso-list style, or else its indentation
+ */
+function listParagraphLevel(paragraph: Element): number {
+    const style = paragraph.getAttribute('style') ?? '';
+    const levelMatch = style.match(/mso-list:\s*l\d+\s+level(\d+)/i);
+    if (levelMatch) {
+        return parseInt(levelMatch[1]);
+    }
+
+    const margin = style.match(/margin-left:\s*([\d.]+)(in|pt|px|cm)/i);
+    if (margin) {
+        const points = parseFloat(margin[1]) * { in: 72, pt: 1, px: 0.75, cm: 28.35 }[margin[2].toLowerCase() as 'in' | 'pt' | 'px' | 'cm'];
+        return Math.max(1, Math.round(points / LIST_INDENT_PT));
+    }
+    return 1;
+}
+
+/**
+ * Removes the bullet or number Word types in front of a list paragraph
+ * @returns The marker text, e.g. "·" or "1."
+ */
+function removeListMarker(paragraph: Element): string {
+    const ignored = paragraph.querySelector('[style*="mso-list:Ignore"], [style*="mso-list: Ignore"]');
+    if (!ignored) {
+        return '';
+    }
+
+    // The marker is usually nested in a span that sets the bullet font
+    const marker = (ignored.textContent ?? '').replace(/\u00a0/g, ' ').trim();
+    let outermost: Element = ignored;
+    while (outermost.parentElement && outermost.parentElement !== paragraph &&
+        (outermost.parentElement.textContent ?? '').trim() === (outermost.textContent ?? '').trim()) {
+        outermost = outermost.parentElement;
+    }
+    outermost.remove();
+    return marker.split(/\s+/)[0];
+}
@@ -0,0 +1,266 @@
+// Paste Reformatter - A plugin that re-formats pasted HTML text in Obsidian.
+// Copyright (C) 2025 by Keath Milligan.
+
+import { AttributionPosition } from './attribution';
+import { ImageHandling } from './imageLocalizer';
+import { BulletMarker, ListIndentation, ListSpacing } from './listFormatter';
+import { PipelineStep, STEP_NAMES, StepType, TitleHeadingHandling, createStep } from './pipeline';
+import { ReformatOptions, copyReformatOptions } from './settings';
+import { TableFallback } from './tableTransformer';
+
+// The frontmatter property that holds the overrides of a note
+export const NOTE_OVERRIDES_PROPERTY = 'paste-reformatter';
+
+// The values of the options that are one of a set of choices
+const OPTION_CHOICES: Record<string, string[]> = {
+    'images.handling': ['keep', 'localize', 'alt-text', 'remove'] as ImageHandling[],
+    'normalize-tables.fallback': ['html', 'list'] as TableFallback[],
+    'headings.titleHeading': ['keep', 'bold', 'remove'] as TitleHeadingHandling[],
+    'lists.bulletMarker': ['keep', '-', '*', '+'] as BulletMarker[],
+    'lists.indentation': ['keep', 'tab', 'spaces'] as ListIndentation[],
+    'lists.spacing': ['keep', 'tight', 'loose'] as ListSpacing[],
+    'attribution.position': ['before', 'after'] as AttributionPosition[]
+};
+
+// The range of the options that are whole numbers
+const OPTION_RANGES: Record<string, { min: number, max?: number }> = {
+    'headings.maxHeadingLevel': { min: 1, max: 6 },
+    'lists.indentSize': { min: 1 }
+};
+
+/**
+ * Where the settings of a paste come from, from the base settings to the most specific overrides:
+ * - global: the default profile
+ * - profile: the profile matching the clipboard content
+ * - folder: a folder rule matching the note's folder
+ * - note: the paste-reformatter property of the note
+ */
+export type SettingsLayer = 'global' | 'profile' | 'folder' | 'note';
+
+export type OverrideValue = string | number | boolean;
+
+/**
+ * Overrides of step settings, applied to all steps of a type. The keys are a step type and
+ * option, e.g. "headings.maxHeadingLevel", or a step type and "enabled" to turn the steps on or off.
+ */
+export type SettingsOverrides = Record<string, OverrideValue>;
+
+/**
+ * Overrides for the notes in a folder and its subfolders
+ */
+export interface FolderOverride {
+    folder: string; // The vault path of the folder, e.g. "Meetings/2025"
+    overrides: SettingsOverrides;
+}
+
+/**
+ * A set of overrides and where it comes from
+ */
+export interface OverrideLayer {
+    layer: SettingsLayer;
+    name: string; // The folder path or note name, shown next to the values it supplies
+    overrides: SettingsOverrides;
+}
+
+/**
+ * A value that differs from the base settings and the layer that supplied it
+ */
+export interface OverriddenValue {
+    key: string;
+    value: OverrideValue;
+    layer: SettingsLayer;
+    name: string;
+}
+
+/**
+ * Checks whether a value can be an override: text, a number, or true or false
+ */
+export function isOverrideValue(value: unknown): value is OverrideValue {
+    return typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean';
+}
+
+/**
+ * Parses overrides written one "key: value" pair per line, e.g. "headings.maxHeadingLevel: 3".
+ * A step type on its own stands for its enabled setting, so "lists: false" turns the lists steps off.
+ * @param text The overrides as text
+ * @returns The overrides and a message for each line that is not a valid override
+ */
+export function parseOverrides(text: string): { overrides: SettingsOverrides, errors: string[] } {
+    const overrides: SettingsOverrides = {};
+    const errors: string[] = [];
+    for (const line of text.split('\n')) {
+        if (line.trim() === '') {
+            continue;
+        }
+        const separator = line.indexOf(':');
+        if (separator < 0) {
+            errors.push(`"${line.trim()}" is not a "key: value" pair`);
+            continue;
+        }
+        const key = overrideKey(line.slice(0, separator).trim());
+        const value = parseValue(line.slice(separator + 1).trim());
+        const error = validateOverride(key, value);
+        if (error) {
+            errors.push(error);
+        } else {
+            overrides[key] = value;
+        }
+    }
+    return { overrides, errors };
+}
+
+/**
+ * Formats overrides as text, one "key: value" pair per line (see parseOverrides)
+ */
+export function formatOverrides(overrides: SettingsOverrides): string {
+    return Object.entries(overrides).map(([key, value]) => `${key}: ${value}`).join('\n');
+}
+
+/**
+ * Reads the overrides from the paste-reformatter property of a note. The property holds
+ * either a step type and option per key or an object per step type:
+ *
+ *     paste-reformatter:
+ *       headings:
+ *         maxHeadingLevel: 3
+ *       remove-empty-lines: true
+ *
+ * @param property The value of the property
+ * @returns The valid overrides and a message for each invalid one
+ */
+export function noteOverrides(property: unknown): { overrides: SettingsOverrides, errors: string[] } {
+    const overrides: SettingsOverrides = {};
+    const errors: string[] = [];
+    if (!property || typeof property !== 'object' || Array.isArray(property)) {
+        return { overrides, errors: property === undefined || property === null ? [] : [`The ${NOTE_OVERRIDES_PROPERTY} property is not a list of settings`] };
+    }
+
+    const add = (key: string, value: unknown): void => {
+        if (value && typeof value === 'object' && !Array.isArray(value)) {
+            Object.entries(value).forEach(([option, optionValue]) => add(`${key}.${option}`, optionValue));
+            return;
+        }
+        key = overrideKey(key);
+        if (!isOverrideValue(value)) {
+            errors.push(`${key} has no value`);
+            return;
+        }
+        const error = validateOverride(key, value);
+        if (error) {
+            errors.push(error);
+        } else {
+            overrides[key] = value;
+        }
+    };
+    Object.entries(property).forEach(([key, value]) => add(key, value));
+    return { overrides, errors };
+}
+
+/**
+ * Finds the folder rules for a note, from the outermost folder to the innermost, so that
+ * rules for subfolders override rules for their parents
+ * @param rules The folder rules
+ * @param path The vault path of the note
+ * @returns The matching rules
+ */
+export function matchingFolders(rules: FolderOverride[], path: string): FolderOverride[] {
+    return rules
+        .map(rule => ({ rule, folder: rule.folder.trim().replace(/^\/+|\/+$/g, '') }))
+        .filter(({ folder }) => folder === '' || path.startsWith(`${folder}/`))
+        .sort((a, b) => a.folder.split('/').length - b.folder.split('/').length || a.folder.length - b.folder.length)
+        .map(({ rule }) => rule);
+}
+
+/**
+ * Applies layers of overrides to settings, each layer overriding the ones before it
+ * @param options The base settings, which are not modified
+ * @param layers The overrides, from the least to the most specific
+ * @returns The resulting settings and, for each overridden value, the layer that supplied it
+ */
+export function applyOverrides(options: ReformatOptions, layers: OverrideLayer[]): { options: ReformatOptions, overridden: OverriddenValue[] } {
+    const result = copyReformatOptions(options);
+    const overridden = new Map<string, OverriddenValue>();
+    const steps: PipelineStep[] = [...result.htmlSteps, ...result.markdownSteps];
+
+    for (const { layer, name, overrides } of layers) {
+        for (const [key, value] of Object.entries(overrides)) {
+            if (validateOverride(key, value)) {
+                continue;
+            }
+            const [type, option] = key.split('.');
+            const matching = steps.filter(step => step.type === type);
+            if (matching.length === 0) {
+                // Overrides change the steps of the pipeline but don't add steps to it
+                continue;
+            }
+            for (const step of matching) {
+                if (option === 'enabled') {
+                    step.enabled = value as boolean;
+                } else {
+                    (step.options as Record<string, unknown>)[option] = value;
+                }
+            }
+            overridden.set(key, { key, value, layer, name });
+        }
+    }
+
+    return { options: result, overridden: Array.from(overridden.values()) };
+}
+
+/**
+ * Describes where an overridden value comes from, e.g. "folder Meetings"
+ */
+export function describeLayer(value: Pick<OverriddenValue, 'layer' | 'name'>): string {
+    return value.name ? `${value.layer} ${value.name}` : value.layer;
+}
+
+/**
+ * Expands a step type on its own into its enabled setting
+ */
+function overrideKey(key: string): string {
+    return key.includes('.') ? key : `${key}.enabled`;
+}
+
+/**
+ * Reads true, false and numbers as such and anything else as text, without surrounding quotes
+ */
+function parseValue(text: string): OverrideValue {
+    if (text === 'true' || text === 'false') {
+        return text === 'true';
+    } else if (/^-?\d+(\.\d+)?$/.test(text)) {
+        return parseFloat(text);
+    }
+    return text.replace(/^(["'])(.*)\1$/, '$2');
+}
+
+/**
+ * Checks that an override names a step type and one of its options, and that the value has
+ * the type of the option and is one of its choices or within its range. Only options holding
+ * a single value can be overridden.
+ * @returns A message describing the problem, or null if the override is valid
+ */
+function validateOverride(key: string, value: OverrideValue): string | null {
+    const [type, option, ...rest] = key.split('.');
+    if (!(type in STEP_NAMES)) {
+        return `${type} is not a step type`;
+    }
+    if (option === 'enabled') {
+        return typeof value === 'boolean' ? null : `${key} must be true or false`;
+    }
+    const defaults = createStep(type as StepType).options as Record<string, unknown>;
+    if (rest.length > 0 || !(option in defaults) || typeof defaults[option] === 'object') {
+        return `${option} is not an option of the ${STEP_NAMES[type as StepType]} step that can be overridden`;
+    }
+    if (typeof value !== typeof defaults[option]) {
+        return `${key} must be ${typeof defaults[option] === 'boolean' ? 'true or false' : `a ${typeof defaults[option]}`}`;
+    }
+    const choices = OPTION_CHOICES[key];
+    if (choices && !choices.includes(value as string)) {
+        return `${key} must be one of ${choices.map(choice => `"${choice}"`).join(', ')}`;
+    }
+    const range = OPTION_RANGES[key];
+    if (range && (!Number.isInteger(value) || (value as number) < range.min || (range.max !== undefined && (value as number) > range.max))) {
+        return `${key} must be a whole number ${range.max !== undefined ? `from ${range.min} to ${range.max}` : `of at least ${range.min}`}`;
+    }
+    return null;
+}
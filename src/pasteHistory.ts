@@ -0,0 +1,94 @@
+// Paste Reformatter - A plugin that re-formats pasted HTML text in Obsidian.
+// Copyright (C) 2025 by Keath Milligan.
+
+import { convertWithoutReformatting } from './pasteProcessor';
+
+// The clipboard formats the plugin reads
+const CLIPBOARD_TYPES = ['text/html', 'text/plain'];
+
+/**
+ * A copy of clipboard content that stays available after the paste event
+ */
+export type ClipboardSnapshot = Pick<DataTransfer, 'types' | 'getData'>;
+
+/**
+ * What is needed to replace a reformatted paste with the raw clipboard content
+ */
+export interface LastPaste {
+    filePath: string; // The note the content was pasted into
+    clipboard: ClipboardSnapshot; // The original clipboard content
+    markdown: string; // The text that was inserted
+    offset: number; // Where the text was inserted
+}
+
+/**
+ * How to paste the original clipboard content instead of the reformatted content:
+ * - default: converted the way Obsidian does without reformatting
+ * - plain-text: the plain text of the clipboard
+ */
+export type RawPasteMode = 'default' | 'plain-text';
+
+/**
+ * Copies the clipboard content the plugin uses. The data of a paste event is only
+ * available while the event is handled.
+ * @param clipboardData The clipboard content
+ * @returns The copy
+ */
+export function snapshotClipboard(clipboardData: ClipboardSnapshot): ClipboardSnapshot {
+    const data: Record<string, string> = {};
+    for (const type of CLIPBOARD_TYPES) {
+        if (clipboardData.types.includes(type)) {
+            data[type] = clipboardData.getData(type);
+        }
+    }
+    return { types: Object.keys(data), getData: (type: string) => data[type] ?? '' };
+}
+
+/**
+ * Gets the text to paste instead of the reformatted content
+ * @param clipboard The original clipboard content
+ * @param mode How to paste the content
+ * @returns The text; for plain text, the text of the HTML is used if the clipboard had no plain text
+ */
+export function rawPasteText(clipboard: ClipboardSnapshot, mode: RawPasteMode): string {
+    if (mode === 'default') {
+        return convertWithoutReformatting(clipboard) ?? '';
+    }
+    if (clipboard.types.includes('text/plain')) {
+        return clipboard.getData('text/plain');
+    }
+    return new DOMParser().parseFromString(clipboard.getData('text/html'), 'text/html').body.textContent ?? '';
+}
+
+/**
+ * Updates a paste after text in the note was replaced, such as the embed of an image saved
+ * under another name, so that the pasted text can still be found
+ * @param paste The paste
+ * @param search The text that was replaced
+ * @param replacement The text it was replaced with
+ * @returns The paste with the replacement made in its text
+ */
+export function replaceInPaste(paste: LastPaste, search: string, replacement: string): LastPaste {
+    return { ...paste, markdown: paste.markdown.split(search).join(replacement) };
+}
+
+/**
+ * Finds pasted text in a note. Edits made since the paste, such as properties added to the
+ * frontmatter, can move the text, so the occurrence closest to where it was inserted is used.
+ * @param text The content of the note
+ * @param paste The paste to find
+ * @returns The offset of the pasted text, or null if the note no longer contains it
+ */
+export function findPastedText(text: string, paste: LastPaste): number | null {
+    if (paste.markdown === '') {
+        return paste.offset <= text.length ? paste.offset : null;
+    }
+
+    let closest: number | null = null;
+    for (let offset = text.indexOf(paste.markdown); offset >= 0; offset = text.indexOf(paste.markdown, offset + 1)) {
+        if (closest === null || Math.abs(offset - paste.offset) < Math.abs(closest - paste.offset)) {
+            closest = offset;
+        }
+    }
+    return closest;
+}
@@ -0,0 +1,100 @@
+// Paste Reformatter - A plugin that re-formats pasted HTML text in Obsidian.
+// Copyright (C) 2025 by Keath Milligan.
+
+import { htmlToMarkdown } from 'obsidian';
+import { PasteSource, pasteSource } from './attribution';
+import { restoreTokens } from './conversionTokens';
+import { renumberFootnotes } from './footnotes';
+import { PastedImage } from './imageLocalizer';
+import { NoteLinkResolver } from './linkRewriter';
+import { transformHTML } from './htmlTransformer';
+import { transformMarkdown } from './markdownTransformer';
+import { enabledSteps } from './pipeline';
+
+/**
+ * Runs the complete reformatting pipeline over clipboard content: HTML transformations,
+ * conversion to Markdown and Markdown transformations. Plain text is treated as Markdown, apart
+ * from the content recognized by plain text detection steps.
+ * @param clipboardData The clipboard content to reformat
+ * @param settings The settings to use for transformation
+ * @param contextLevel The current heading level for contextual cascade (0 if not in a heading section)
+ * @param escapeMarkdown Whether to escape all Markdown syntax in the result
+ * @param resolveNoteLink Looks up notes by URL, used to convert links into wikilinks
+ * @param noteTitle The title of the note being pasted into, used by heading steps
+ * @param noteFootnotes The footnote labels already used in the note, which pasted footnotes are renumbered to avoid
+ * @returns The reformatted Markdown, whether any transformations were applied and the images to
+ * save into the vault, or null if the clipboard contains neither HTML nor plain text
+ */
+export function reformatPaste(
+    clipboardData: Pick<DataTransfer, 'types' | 'getData'>,
+    settings: Parameters<typeof transformHTML>[1] & Parameters<typeof transformMarkdown>[1],
+    contextLevel: number = 0,
+    escapeMarkdown: boolean = false,
+    resolveNoteLink?: NoteLinkResolver,
+    noteTitle: string | null = null,
+    noteFootnotes: string[] = []
+): { markdown: string, appliedTransformations: boolean, images: PastedImage[] } | null {
+    let originalMarkdown = '';
+    let appliedHTMLTransformations = false;
+    let images: PastedImage[] = [];
+    let plainText = false;
+    let source: PasteSource | null = null;
+
+    // Check if HTML format is available
+    if (clipboardData.types.includes('text/html')) {
+        // Transform HTML before converting to Markdown
+        const result = transformHTML(clipboardData.getData('text/html'), settings);
+        console.log(`Transformed HTML: ${result.html}`);
+
+        // Use Obsidian's built-in htmlToMarkdown function
+        originalMarkdown = restoreTokens(htmlToMarkdown(result.html), result.tokens);
+
+        appliedHTMLTransformations = result.appliedTransformations;
+        images = result.images;
+
+        // Finding the page title means parsing the HTML again, so it is only done when needed
+        if (enabledSteps(settings.markdownSteps, 'attribution').length > 0) {
+            source = pasteSource(clipboardData.getData('text/html'));
+        }
+    } else if (clipboardData.types.includes('text/plain')) {
+        // Process as plain text - treat it as already being Markdown
+        originalMarkdown = clipboardData.getData('text/plain');
+        plainText = true;
+    } else {
+        // No supported format found
+        return null;
+    }
+
+    // Apply settings to transform the markdown
+    console.log(`original markdown: ${originalMarkdown}`);
+    const markdownResult = transformMarkdown(originalMarkdown, settings, contextLevel, escapeMarkdown, resolveNoteLink, plainText, source, noteTitle);
+
+    // Footnotes are renumbered last, once steps that add or remove content have run
+    let markdown = markdownResult.markdown;
+    let renumberedFootnotes = false;
+    if (!escapeMarkdown && noteFootnotes.length > 0 && enabledSteps(settings.htmlSteps, 'footnotes').length > 0) {
+        markdown = renumberFootnotes(markdownResult.markdown, noteFootnotes);
+        renumberedFootnotes = markdown !== markdownResult.markdown;
+    }
+
+    return {
+        markdown,
+        appliedTransformations: appliedHTMLTransformations || markdownResult.appliedTransformations || renumberedFootnotes,
+        images
+    };
+}
+
+/**
+ * Converts clipboard content the way Obsidian does without any reformatting:
+ * HTML is converted directly to Markdown and plain text is used as-is.
+ * @param clipboardData The clipboard content to convert
+ * @returns The converted Markdown, or null if the clipboard contains neither HTML nor plain text
+ */
+export function convertWithoutReformatting(clipboardData: Pick<DataTransfer, 'types' | 'getData'>): string | null {
+    if (clipboardData.types.includes('text/html')) {
+        return htmlToMarkdown(clipboardData.getData('text/html'));
+    } else if (clipboardData.types.includes('text/plain')) {
+        return clipboardData.getData('text/plain');
+    }
+    return null;
+}
@@ -0,0 +1,240 @@
+// Paste Reformatter - A plugin that re-formats pasted HTML text in Obsidian.
+// Copyright (C) 2025 by Keath Milligan.
+
+import { AttributionOptions, DEFAULT_ATTRIBUTION_TEMPLATE } from './attribution';
+import { CalloutOptions, DEFAULT_CALLOUT_CLASSES } from './callouts';
+import { DOMRule } from './domRules';
+import { ImageHandling } from './imageLocalizer';
+import { DEFAULT_TRACKING_PARAMETERS } from './linkRewriter';
+import { ListFormatOptions } from './listFormatter';
+import { PlainTextOptions } from './plainTextDetector';
+import { TableFallback } from './tableTransformer';
+
+export interface RegexReplacement {
+    pattern: string;
+    replacement: string;
+    name?: string; // Display name of the rule
+    description?: string; // What the rule is for
+    enabled?: boolean; // Whether the rule is applied (rules without this flag are enabled)
+    flags?: string; // Regular expression flags in addition to 'g': any of i, m, s and u
+    applyToCode?: boolean; // Whether a Markdown replacement also applies inside code blocks, inline code, math and comments
+}
+
+/**
+ * A single transformation in a pipeline. Steps run in order; disabled steps are skipped.
+ * A step type may appear any number of times, each with its own options.
+ */
+interface Step<Type extends string, Options> {
+    type: Type;
+    enabled: boolean;
+    options: Options;
+}
+
+// Steps that transform the pasted HTML before it is converted to Markdown
+export type HTMLRegexStep = Step<'html-regex', {
+    replacements: RegexReplacement[]; // Regular expression replacements applied to the HTML source
+}>;
+export type GoogleDocsStep = Step<'google-docs', Record<string, never>>;
+export type OfficeStep = Step<'office', Record<string, never>>;
+export type CalloutsStep = Step<'callouts', CalloutOptions>;
+export type CodeBlocksStep = Step<'code-blocks', Record<string, never>>;
+export type MathStep = Step<'math', Record<string, never>>;
+export type FootnotesStep = Step<'footnotes', Record<string, never>>;
+export type DOMRulesStep = Step<'dom-rules', {
+    rules: DOMRule[]; // CSS selector rules that remove, unwrap, rename or strip attributes from elements
+}>;
+export type StripLineBreaksStep = Step<'strip-line-breaks', Record<string, never>>;
+export type ImagesStep = Step<'images', {
+    handling: ImageHandling; // Keep, save into the vault, replace with alt text, or remove
+}>;
+export type RemoveEmptyElementsStep = Step<'remove-empty-elements', Record<string, never>>;
+export type NormalizeTablesStep = Step<'normalize-tables', {
+    fallback: TableFallback; // How to convert tables that cannot be represented as pipe tables
+}>;
+
+export type HTMLStep = HTMLRegexStep | GoogleDocsStep | OfficeStep | CalloutsStep | CodeBlocksStep | MathStep | FootnotesStep | DOMRulesStep | StripLineBreaksStep | ImagesStep | RemoveEmptyElementsStep | NormalizeTablesStep;
+
+// Steps that transform the Markdown after conversion, or plain text pastes
+export type PlainTextStep = Step<'plain-text', PlainTextOptions>;
+export type LinksStep = Step<'links', {
+    stripTrackingParameters: boolean; // Whether to remove tracking query parameters from link URLs
+    trackingParameters: string[]; // The query parameters to remove, a trailing * matches any parameter with that prefix
+    unwrapRedirects: boolean; // Whether to replace redirector URLs (Google, Outlook safe links) with their destination
+    linkToNotes: boolean; // Whether to convert links to pages recorded in a note's source or url property into wikilinks
+}>;
+export type MarkdownRegexStep = Step<'markdown-regex', {
+    replacements: RegexReplacement[]; // Regular expression replacements applied to the Markdown
+}>;
+// What to do with a lone H1 at the start of the content that repeats the note title
+export type TitleHeadingHandling = 'keep' | 'bold' | 'remove';
+export type HeadingsStep = Step<'headings', {
+    maxHeadingLevel: number; // The maximum heading level to allow (1-6, where 1 is disabled)
+    cascadeHeadingLevels: boolean; // Whether to cascade heading levels (e.g., H1→H2→H3 becomes H2→H3→H4 when max level is H2)
+    contextualCascade: boolean; // Whether to cascade headings based on the current context (e.g., if cursor is in an H2 section, headings will start from H3)
+    closeLevelGaps: boolean; // Whether to close gaps between heading levels (e.g., H1→H3 becomes H1→H2)
+    overflowToBold: boolean; // Whether headings pushed beyond H6 become bold paragraphs instead of staying at H6
+    stripNumbering: boolean; // Whether to remove manual numbering such as "2.3.1 " from the start of headings
+    titleHeading: TitleHeadingHandling;
+}>;
+export type ListsStep = Step<'lists', ListFormatOptions>;
+export type SingleSpacedStep = Step<'single-spaced', Record<string, never>>;
+export type RemoveEmptyLinesStep = Step<'remove-empty-lines', Record<string, never>>;
+export type AttributionStep = Step<'attribution', AttributionOptions>;
+
+export type MarkdownStep = PlainTextStep | LinksStep | MarkdownRegexStep | HeadingsStep | ListsStep | SingleSpacedStep | RemoveEmptyLinesStep | AttributionStep;
+
+export type PipelineStep = HTMLStep | MarkdownStep;
+export type StepType = PipelineStep['type'];
+
+export const HTML_STEP_TYPES: HTMLStep['type'][] = ['html-regex', 'google-docs', 'office', 'callouts', 'code-blocks', 'math', 'footnotes', 'dom-rules', 'strip-line-breaks', 'images', 'remove-empty-elements', 'normalize-tables'];
+export const MARKDOWN_STEP_TYPES: MarkdownStep['type'][] = ['plain-text', 'links', 'markdown-regex', 'headings', 'lists', 'single-spaced', 'remove-empty-lines', 'attribution'];
+
+export const STEP_NAMES: Record<StepType, string> = {
+    'html-regex': 'HTML regex replacements',
+    'google-docs': 'Google Docs cleanup',
+    'office': 'Word and Outlook cleanup',
+    'callouts': 'Callouts',
+    'code-blocks': 'Code blocks',
+    'math': 'Math',
+    'footnotes': 'Footnotes',
+    'dom-rules': 'Element rules',
+    'strip-line-breaks': 'Strip hard line breaks',
+    'images': 'Images',
+    'remove-empty-elements': 'Remove empty elements',
+    'normalize-tables': 'Normalize tables',
+    'plain-text': 'Plain text detection',
+    'links': 'Links',
+    'markdown-regex': 'Markdown regex replacements',
+    'headings': 'Headings',
+    'lists': 'Lists',
+    'single-spaced': 'Convert to single-spaced',
+    'remove-empty-lines': 'Remove empty lines',
+    'attribution': 'Source attribution'
+};
+
+/**
+ * Gets the name to show for a step. Steps whose type appears more than once in the
+ * pipeline are numbered so they can be told apart.
+ * @param steps The pipeline containing the step
+ * @param step The step
+ * @returns The display name, e.g. "Markdown regex replacements (2)"
+ */
+export function stepDisplayName(steps: PipelineStep[], step: PipelineStep): string {
+    const sameType = steps.filter(s => s.type === step.type);
+    return sameType.length > 1 ? `${STEP_NAMES[step.type]} (${sameType.indexOf(step) + 1})` : STEP_NAMES[step.type];
+}
+
+/**
+ * Creates a step with its default options
+ * @param type The type of step to create
+ * @returns The new step, enabled
+ */
+export function createStep<Type extends StepType>(type: Type): Extract<PipelineStep, { type: Type }>;
+export function createStep(type: StepType): PipelineStep {
+    switch (type) {
+        case 'html-regex':
+        case 'markdown-regex':
+            return { type, enabled: true, options: { replacements: [] } };
+        case 'dom-rules':
+            return { type, enabled: true, options: { rules: [] } };
+        case 'callouts':
+            return { type, enabled: true, options: { classMap: DEFAULT_CALLOUT_CLASSES.map(mapping => ({ ...mapping })) } };
+        case 'images':
+            return { type, enabled: true, options: { handling: 'keep' } };
+        case 'normalize-tables':
+            return { type, enabled: true, options: { fallback: 'html' } };
+        case 'links':
+            return {
+                type,
+                enabled: true,
+                options: {
+                    stripTrackingParameters: false,
+                    trackingParameters: [...DEFAULT_TRACKING_PARAMETERS],
+                    unwrapRedirects: false,
+                    linkToNotes: false
+                }
+            };
+        case 'attribution':
+            return { type, enabled: true, options: { template: DEFAULT_ATTRIBUTION_TEMPLATE, position: 'after', dateFormat: 'YYYY-MM-DD', property: '' } };
+        case 'plain-text':
+            return { type, enabled: true, options: { tables: true, code: true, structuredData: true } };
+        case 'headings':
+            return {
+                type,
+                enabled: true,
+                options: {
+                    maxHeadingLevel: 1,
+                    cascadeHeadingLevels: true,
+                    contextualCascade: true,
+                    closeLevelGaps: false,
+                    overflowToBold: false,
+                    stripNumbering: false,
+                    titleHeading: 'keep'
+                }
+            };
+        case 'lists':
+            return {
+                type,
+                enabled: true,
+                options: { bulletMarker: 'keep', indentation: 'keep', indentSize: 4, renumber: false, spacing: 'keep', convertCheckboxes: false }
+            };
+        default:
+            return { type, enabled: true, options: {} };
+    }
+}
+
+/**
+ * Creates the default HTML pipeline, which matches the fixed order used before pipelines were
+ * configurable, plus Google Docs, Word and Outlook cleanup, callouts, code blocks, math, footnotes and an empty element rules step
+ */
+export function defaultHTMLSteps(): HTMLStep[] {
+    return [
+        createStep('html-regex'),
+        createStep('google-docs'),
+        createStep('office'),
+        createStep('callouts'),
+        createStep('code-blocks'),
+        createStep('math'),
+        createStep('footnotes'),
+        createStep('dom-rules'),
+        { ...createStep('strip-line-breaks'), enabled: false },
+        createStep('images'),
+        { ...createStep('remove-empty-elements'), enabled: false },
+        { ...createStep('normalize-tables'), enabled: false }
+    ];
+}
+
+/**
+ * Creates the default Markdown pipeline, which matches the fixed order used before pipelines were
+ * configurable, plus plain text detection and a lists step that keeps lists as they are until configured
+ */
+export function defaultMarkdownSteps(): MarkdownStep[] {
+    return [
+        createStep('plain-text'),
+        createStep('links'),
+        createStep('markdown-regex'),
+        createStep('headings'),
+        createStep('lists'),
+        { ...createStep('single-spaced'), enabled: false },
+        { ...createStep('remove-empty-lines'), enabled: false }
+    ];
+}
+
+/**
+ * Copies a list of steps, including their options
+ * @param steps The steps to copy
+ * @returns A standalone copy of the steps
+ */
+export function copySteps<T extends PipelineStep>(steps: T[]): T[] {
+    return JSON.parse(JSON.stringify(steps));
+}
+
+/**
+ * Finds the enabled steps of a type
+ * @param steps The pipeline to search
+ * @param type The type of step to find
+ * @returns The enabled steps of that type, in pipeline order
+ */
+export function enabledSteps<Type extends StepType>(steps: PipelineStep[], type: Type): Extract<PipelineStep, { type: Type }>[] {
+    return steps.filter((step): step is Extract<PipelineStep, { type: Type }> => step.enabled && step.type === type);
+}
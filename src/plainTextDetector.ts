@@ -0,0 +1,299 @@
+// Paste Reformatter - A plugin that re-formats pasted HTML text in Obsidian.
+// Copyright (C) 2025 by Keath Milligan.
+
+/**
+ * The kinds of plain text that can be recognized
+ */
+export interface PlainTextOptions {
+    tables: boolean; // Whether to convert tab- and comma-separated data into tables
+    code: boolean; // Whether to put source code, terminal sessions and logs in code blocks
+    structuredData: boolean; // Whether to put JSON, pretty-printed, and YAML in code blocks
+}
+
+// Lines of code recognized for each language, scored to guess the language of a code block
+const LANGUAGE_PATTERNS: { language: string, patterns: RegExp[] }[] = [
+    {
+        language: 'python',
+        patterns: [/^\s*def \w+\(.*\)(\s*->\s*[\w[\], .]+)?:\s*$/, /^\s*(from [\w.]+ )?import [\w.]+(, [\w.]+)*( as \w+)?$/, /^\s*(elif .+|else|try|except.*|finally):\s*$/, /\bself\./, /^\s*print\(/]
+    },
+    {
+        language: 'typescript',
+        patterns: [/^\s*(export )?(interface|type) \w+/, /\w\??: (string|number|boolean|void|any|unknown)\b/, /^\s*(public|private|readonly) \w+(\?)?:/]
+    },
+    {
+        language: 'javascript',
+        patterns: [/^\s*(export )?(const|let|var) \w+ =/, /=>/, /^\s*(export )?(async )?function\b/, /\bconsole\.\w+\(/, /\brequire\(['"]/, /^\s*import .* from ['"]/]
+    },
+    {
+        language: 'java',
+        patterns: [/^\s*(public|private|protected) (static )?(final )?[\w<>[\], ]+ \w+\(.*\)\s*(throws [\w, ]+)?\s*\{?$/, /\bSystem\.out\./, /^\s*package [\w.]+;$/, /^\s*import [\w.*]+;$/]
+    },
+    {
+        language: 'csharp',
+        patterns: [/^\s*using [\w.]+;$/, /^\s*namespace [\w.]+/, /\bConsole\.Write/, /\{ get; (private )?set; \}/]
+    },
+    {
+        language: 'cpp',
+        patterns: [/^\s*#include\s*[<"]/, /\bstd::/, /\b(printf|cout|cin)\b/, /^\s*int main\(/]
+    },
+    {
+        language: 'go',
+        patterns: [/^\s*package \w+$/, /^\s*func (\(\w+ \*?\w+\) )?\w+\(/, /\w := /, /\bfmt\.\w+\(/]
+    },
+    {
+        language: 'rust',
+        patterns: [/^\s*(pub )?fn \w+/, /\blet mut\b/, /\b\w+!\(/, /^\s*use [\w:{}, ]+;$/, /^\s*impl\b/]
+    },
+    {
+        language: 'php',
+        patterns: [/<\?php/, /\$\w+\s*=.*;$/, /\$this->/]
+    },
+    {
+        language: 'ruby',
+        patterns: [/^\s*def \w+[?!]?(\(.*\))?$/, /^\s*end$/, /^\s*puts\b/, /^\s*require ['"]/]
+    },
+    {
+        language: 'sql',
+        patterns: [/^\s*(SELECT|INSERT INTO|UPDATE|DELETE FROM|CREATE (TABLE|INDEX|VIEW)|ALTER TABLE|DROP TABLE)\b/i, /^\s*(FROM|WHERE|JOIN|LEFT JOIN|GROUP BY|ORDER BY|VALUES)\b/]
+    },
+    {
+        language: 'html',
+        patterns: [/^\s*<!DOCTYPE/i, /^\s*<\/?[a-z][\w-]*(\s[^>]*)?\/?>/]
+    },
+    {
+        language: 'css',
+        patterns: [/^\s*[.#@]?[\w-]+([ ,>+~:]+[.#]?[\w-]+)*\s*\{\s*$/, /^\s*[\w-]+:\s*[^;]+;\s*$/]
+    },
+    {
+        language: 'shell',
+        patterns: [/^#!\/(usr\/)?bin\/(env )?(ba|z)?sh/, /^\s*(echo|cd|export|sudo|apt(-get)?|brew|npm|npx|yarn|pip|git|curl|wget|ls|mkdir|rm|chmod|docker) /]
+    }
+];
+
+// Lines that look like code whatever the language: lines ending in code punctuation, lines of
+// closing brackets, and lines with operators rarely found in prose. A line ending in ")" or a
+// call such as "foo()" is not enough, as prose has both.
+const CODE_LINE = /[;{}[(]\s*$|^\s*[}\])]+[;,)]*\s*$|=>|===|!==|&&|\|\||::|->|^\s*(\/\/|\/\*)/;
+
+// Prompts that start a terminal session: $, user@host:~$, PowerShell and Command Prompt
+const PROMPT = /^(\$ |[\w.-]+@[\w.-]+(:[^\s$#]*)?[$#] |PS [A-Z]:\\[^>]*> |[A-Z]:\\[^>]*>)/;
+
+// Lines of logs and stack traces: a date and time, a time followed by a log level, or a log level.
+// A time alone is not enough, as notes and agendas start lines with times.
+const LOG_LINE = /^\[?(\d{4}-\d{2}-\d{2}[T ]\d{2}:\d{2}|(\d{2}:\d{2}:\d{2}(\.\d+)?\]?\s+\[?)?(TRACE|DEBUG|INFO|WARN|WARNING|ERROR|FATAL|CRITICAL)\b)|^\s+at \S+.*[(:]\d+|^Traceback \(most recent call last\):|^\s+File ".*", line \d+/;
+
+// A line of YAML: a key with a value or nested content, a list item, or a comment
+const YAML_KEY = /^\s*(- )?("[^"]*"|'[^']*'|[\w.-]+):(\s|$)/;
+const YAML_LINE = /^\s*(- |-$|#)/;
+
+// Cells of this many words or more are sentences rather than data
+const MAX_CELL_WORDS = 7;
+
+// Lines starting with Markdown block syntax: list items, headings, quotes and tables
+const MARKDOWN_BLOCK_LINE = /^\s*([-+*][ \t]|\d{1,9}[.)][ \t]|#{1,6}[ \t]|>|\|)/;
+
+/**
+ * Formats plain text according to what it contains: tab- and comma-separated data becomes
+ * a Markdown table, source code, terminal sessions and logs are put in a code block with a
+ * guessed language, and JSON and YAML are put in a code block, with JSON pretty-printed.
+ * Text that isn't recognized is returned unchanged, as it is treated as Markdown.
+ * @param text The plain text
+ * @param options The kinds of content to recognize
+ * @returns The formatted text
+ */
+export function formatPlainText(text: string, options: PlainTextOptions): string {
+    const content = text.replace(/\r\n?/g, '\n').replace(/^\n+|\s+$/g, '');
+    if (content === '') {
+        return text;
+    }
+
+    // Text with code blocks is Markdown already
+    const isMarkdown = /^\s*(`{3,}|~{3,})/m.test(content);
+
+    if (options.structuredData) {
+        const json = formatJSON(content);
+        if (json !== null) {
+            return fence(json, 'json');
+        }
+        if (!isMarkdown && isYAML(content)) {
+            return fence(content, 'yaml');
+        }
+    }
+
+    const lines = content.split('\n');
+    const codeLines = lines.filter(line => line.trim() !== '');
+    const markdownLines = codeLines.filter(line => MARKDOWN_BLOCK_LINE.test(line));
+    if (options.tables) {
+        // An empty first cell is indentation rather than a column, except at the top left of a spreadsheet
+        const rows = isMarkdown || markdownLines.length > 0 ? null : parseDelimited(content, '\t');
+        if (rows && rows.every((row, index) => index === 0 || row[0].trim() !== '')) {
+            return markdownTable(rows);
+        }
+    }
+
+    // Lists and quotes are Markdown even if their lines end like code
+    if (options.code && !isMarkdown && markdownLines.length <= codeLines.length / 2 && lines.length > 1) {
+        if (PROMPT.test(lines[0])) {
+            return fence(content, 'shell');
+        }
+        if (codeLines.filter(line => LOG_LINE.test(line)).length >= codeLines.length / 2) {
+            return fence(content, '');
+        }
+        const language = guessLanguage(codeLines);
+        const codeLike = codeLines.filter(line => CODE_LINE.test(line) || (language !== '' && languageMatches(language, line)));
+        if (codeLike.length >= codeLines.length * 0.6) {
+            return fence(content, language);
+        }
+    }
+
+    if (options.tables) {
+        const rows = isMarkdown || markdownLines.length > 0 ? null : parseDelimited(content, ',');
+        if (rows && !isProse(lines, rows) && rows.every(row => row.every(cell => cell.trim().split(/\s+/).length < MAX_CELL_WORDS))) {
+            return markdownTable(rows);
+        }
+    }
+
+    return text;
+}
+
+/**
+ * Pretty-prints JSON objects and arrays
+ * @returns The pretty-printed JSON, or null if the text is not a JSON object or array
+ */
+function formatJSON(text: string): string | null {
+    if (!/^[{[]/.test(text)) {
+        return null;
+    }
+    let value: unknown;
+    try {
+        value = JSON.parse(text);
+    } catch (error) {
+        return null;
+    }
+    if (typeof value !== 'object' || value === null || Object.keys(value).length === 0) {
+        return null;
+    }
+
+    // Parsing would round numbers that JavaScript can't represent exactly, such as 64-bit IDs
+    if (/(^|[^\w".])\d{16,}/.test(text.replace(/"(\\.|[^"\\])*"/g, '""'))) {
+        return text;
+    }
+    return JSON.stringify(value, null, 2);
+}
+
+/**
+ * Checks whether text is YAML with some structure: nested keys, or a document marker.
+ * Flat "key: value" lines are more likely to be prose, such as email headers.
+ */
+function isYAML(text: string): boolean {
+    const lines = text.split('\n').filter(line => line.trim() !== '');
+    const documentStart = lines[0] === '---';
+    const content = documentStart ? lines.slice(1) : lines;
+    const keys = content.filter(line => YAML_KEY.test(line));
+    if (keys.length < 2 || !content.every(line => YAML_KEY.test(line) || YAML_LINE.test(line) || /^\s/.test(line))) {
+        return false;
+    }
+    const nested = keys.some(line => /:\s*$/.test(line)) && content.some(line => /^(\s+\S|- )/.test(line));
+    return documentStart || nested;
+}
+
+/**
+ * Checks whether comma-separated lines read as prose rather than data: lines ending like
+ * sentences, or pairs of words separated by a comma and a space, such as "Hello, world".
+ * @param lines The lines of the text
+ * @param rows The cells of each line
+ */
+function isProse(lines: string[], rows: string[][]): boolean {
+    if (lines.some(line => /[.!?;:][')]?\s*$/.test(line))) {
+        return true;
+    }
+    return rows[0].length === 2 && rows.every(row => /^\s/.test(row[1]) && /^[A-Za-z]/.test(row[0].trim()) && !/\d/.test(row.join('')));
+}
+
+/**
+ * Parses delimited data, with cells optionally in double quotes
+ * @param text The data
+ * @param delimiter The cell delimiter
+ * @returns The rows, or null unless there are at least two rows with the same number of cells, and at least two cells
+ */
+function parseDelimited(text: string, delimiter: string): string[][] | null {
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let cell = '';
+    let quoted = false;
+
+    for (let i = 0; i < text.length; i++) {
+        const character = text[i];
+        if (quoted) {
+            if (character === '"' && text[i + 1] === '"') {
+                cell += '"';
+                i++;
+            } else if (character === '"') {
+                quoted = false;
+            } else {
+                cell += character;
+            }
+        } else if (character === '"' && cell.trim() === '') {
+            quoted = true;
+            cell = '';
+        } else if (character === delimiter) {
+            row.push(cell);
+            cell = '';
+        } else if (character === '\n') {
+            row.push(cell);
+            rows.push(row);
+            row = [];
+            cell = '';
+        } else {
+            cell += character;
+        }
+    }
+    row.push(cell);
+    rows.push(row);
+
+    const columns = rows[0].length;
+    if (quoted || rows.length < 2 || columns < 2 || rows.some(r => r.length !== columns)) {
+        return null;
+    }
+    return rows;
+}
+
+/**
+ * Builds a Markdown table, using the first row as the header
+ */
+function markdownTable(rows: string[][]): string {
+    const formatRow = (row: string[]) => `| ${row.map(cell => cell.trim().replace(/\|/g, '\\|').replace(/\n/g, '<br>')).join(' | ')} |`;
+    return [
+        formatRow(rows[0]),
+        `| ${rows[0].map(() => '---').join(' | ')} |`,
+        ...rows.slice(1).map(formatRow)
+    ].join('\n');
+}
+
+/**
+ * Guesses the language of source code from the lines matching each language's patterns
+ * @returns The language, or an empty string if no language has matching lines
+ */
+function guessLanguage(lines: string[]): string {
+    let best = { language: '', score: 0 };
+    for (const { language } of LANGUAGE_PATTERNS) {
+        const score = lines.filter(line => languageMatches(language, line)).length;
+        if (score > best.score) {
+            best = { language, score };
+        }
+    }
+    return best.language;
+}
+
+function languageMatches(language: string, line: string): boolean {
+    return LANGUAGE_PATTERNS.find(entry => entry.language === language)?.patterns.some(pattern => pattern.test(line)) ?? false;
+}
+
+/**
+ * Puts text in a fenced code block, with a fence longer than any backtick run in the text
+ */
+function fence(text: string, language: string): string {
+    const longestRun = Math.max(2, ...(text.match(/`+/g) ?? []).map(run => run.length));
+    const marker = '`'.repeat(longestRun + 1);
+    return `${marker}${language}\n${text}\n${marker}`;
+}
@@ -0,0 +1,104 @@
+// Paste Reformatter - A plugin that re-formats pasted HTML text in Obsidian.
+// Copyright (C) 2025 by Keath Milligan.
+
+import { DOMRule } from './domRules';
+import { PipelineStep, StepType, defaultHTMLSteps, defaultMarkdownSteps } from './pipeline';
+import { ProfileMatchRule } from './profiles';
+import { ReformatOptions } from './settings';
+
+/**
+ * A built-in set of pipelines for a common kind of pasted content
+ */
+export interface Preset {
+    name: string;
+    description: string;
+    matchRules: ProfileMatchRule[]; // The match rules used when the preset is added as a profile
+    options: () => ReformatOptions; // Creates the preset's pipelines
+}
+
+/**
+ * Creates pipelines by adjusting the default pipelines
+ * @param configure Changes the steps of the default pipelines, looked up by type
+ */
+function presetOptions(configure: (step: <Type extends StepType>(type: Type) => Extract<PipelineStep, { type: Type }>) => void): ReformatOptions {
+    const options: ReformatOptions = { htmlSteps: defaultHTMLSteps(), markdownSteps: defaultMarkdownSteps() };
+    const steps: PipelineStep[] = [...options.htmlSteps, ...options.markdownSteps];
+    configure(<Type extends StepType>(type: Type) => steps.find(step => step.type === type) as Extract<PipelineStep, { type: Type }>);
+    return options;
+}
+
+// Page furniture that is rarely wanted in a note
+const WEB_PAGE_FURNITURE: DOMRule[] = [
+    { selector: 'nav, header, footer, aside, [role="navigation"], [role="banner"], [role="complementary"]', action: 'remove' },
+    { selector: 'script, style, noscript, form, button, iframe', action: 'remove' },
+    { selector: '[class*="share"], [class*="social"], [class*="advert"], [class*="newsletter"], [id*="cookie"]', action: 'remove' }
+];
+
+export const PRESETS: Preset[] = [
+    {
+        name: 'Web article cleanup',
+        description: 'Drops navigation, sharing widgets and ads, removes tracking parameters and redirects from links, and fixes tables.',
+        matchRules: [],
+        options: () => presetOptions(step => {
+            step('dom-rules').options.rules = WEB_PAGE_FURNITURE.map(rule => ({ ...rule }));
+            step('normalize-tables').enabled = true;
+            step('links').options.stripTrackingParameters = true;
+            step('links').options.unwrapRedirects = true;
+            step('single-spaced').enabled = true;
+        })
+    },
+    {
+        name: 'Docs cleanup',
+        description: 'For Google Docs: converts Docs formatting, and removes remaining inline styles and empty paragraphs.',
+        matchRules: [{ type: 'generator', pattern: '^google-docs$' }],
+        options: () => presetOptions(step => {
+            step('dom-rules').options.rules = [
+                { selector: '*', action: 'strip-attributes', attributes: ['style', 'dir', 'id', 'class'] }
+            ];
+            step('remove-empty-elements').enabled = true;
+            step('normalize-tables').enabled = true;
+            step('links').options.unwrapRedirects = true;
+            step('single-spaced').enabled = true;
+        })
+    },
+    {
+        name: 'Notion cleanup',
+        description: 'For Notion: unwraps styling spans, removes inline styles and empty blocks, and keeps headings below the note title.',
+        matchRules: [{ type: 'generator', pattern: '^notion$' }],
+        options: () => presetOptions(step => {
+            step('dom-rules').options.rules = [
+                { selector: 'span:not([class*="math"])', action: 'unwrap' },
+                { selector: '*', action: 'strip-attributes', attributes: ['style', 'data-*'] }
+            ];
+            step('remove-empty-elements').enabled = true;
+            step('normalize-tables').enabled = true;
+            step('headings').options.maxHeadingLevel = 2;
+            step('single-spaced').enabled = true;
+        })
+    },
+    {
+        name: 'Word and Outlook cleanup',
+        description: 'For Microsoft Office: removes remaining styles and empty elements, and unwraps Outlook safe links.',
+        matchRules: [{ type: 'generator', pattern: '^microsoft-office$' }],
+        options: () => presetOptions(step => {
+            step('dom-rules').options.rules = [
+                { selector: 'span, font', action: 'unwrap' },
+                { selector: '*', action: 'strip-attributes', attributes: ['style', 'class', 'lang'] }
+            ];
+            step('remove-empty-elements').enabled = true;
+            step('normalize-tables').enabled = true;
+            step('links').options.unwrapRedirects = true;
+            step('single-spaced').enabled = true;
+        })
+    },
+    {
+        name: 'Compact',
+        description: 'Pastes content as compactly as possible: no hard line breaks, empty elements or blank lines.',
+        matchRules: [],
+        options: () => presetOptions(step => {
+            step('strip-line-breaks').enabled = true;
+            step('remove-empty-elements').enabled = true;
+            step('remove-empty-lines').enabled = true;
+        })
+    }
+];
@@ -0,0 +1,51 @@
+// Paste Reformatter - A plugin that re-formats pasted HTML text in Obsidian.
+// Copyright (C) 2025 by Keath Milligan.
+
+import { App, Modal, Setting } from 'obsidian';
+import { PRESETS, Preset } from './presets';
+
+/**
+ * Lists the built-in presets, which can replace the pipelines of the profile being edited
+ * or be added as a new profile
+ */
+export class PresetsModal extends Modal {
+  constructor(
+    app: App,
+    private profileName: string,
+    private onApply: (preset: Preset) => void,
+    private onAddProfile: (preset: Preset) => void
+  ) {
+    super(app);
+  }
+
+  onOpen() {
+    const { contentEl } = this;
+    this.titleEl.setText('Presets');
+    contentEl.createEl('p', {
+      cls: 'setting-item-description',
+      text: `Applying a preset replaces the HTML and Markdown transformations of the ${this.profileName} profile. Adding a preset as a profile keeps your current settings.`
+    });
+
+    for (const preset of PRESETS) {
+      new Setting(contentEl)
+        .setName(preset.name)
+        .setDesc(preset.description)
+        .addButton(button => button
+          .setButtonText('Apply')
+          .onClick(() => {
+            this.onApply(preset);
+            this.close();
+          }))
+        .addButton(button => button
+          .setButtonText('Add as profile')
+          .onClick(() => {
+            this.onAddProfile(preset);
+            this.close();
+          }));
+    }
+  }
+
+  onClose() {
+    this.contentEl.empty();
+  }
+}
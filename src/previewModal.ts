@@ -0,0 +1,217 @@
+// Paste Reformatter - A plugin that re-formats pasted HTML text in Obsidian.
+// Copyright (C) 2025 by Keath Milligan.
+
+import { App, Modal, Setting } from 'obsidian';
+import { diffLines } from './diff';
+import { ImageHandling, PastedImage } from './imageLocalizer';
+import { NoteLinkResolver } from './linkRewriter';
+import { OverriddenValue, describeLayer } from './overrides';
+import { convertWithoutReformatting, reformatPaste } from './pasteProcessor';
+import { HeadingsStep, PipelineStep, RegexReplacement, stepDisplayName } from './pipeline';
+import { ReformatOptions, copyReformatOptions } from './settings';
+
+type PreviewPane = 'source' | 'result' | 'diff';
+
+/**
+ * Shows the reformatted clipboard content before it is inserted, with controls to
+ * adjust the settings for this paste only. The saved settings are never modified.
+ */
+export class PastePreviewModal extends Modal {
+  private options: ReformatOptions;
+  private pane: PreviewPane = 'result';
+  private markdown = '';
+  private images: PastedImage[] = [];
+  private previewEl: HTMLElement;
+  private tabEls: Partial<Record<PreviewPane, HTMLElement>> = {};
+
+  constructor(
+    app: App,
+    private clipboardData: DataTransfer,
+    options: ReformatOptions,
+    private contextLevel: number,
+    private escapeMarkdown: boolean,
+    private resolveNoteLink: NoteLinkResolver,
+    private noteTitle: string | null,
+    private noteFootnotes: string[],
+    private overridden: OverriddenValue[],
+    private onInsert: (markdown: string, images: PastedImage[]) => void
+  ) {
+    super(app);
+    // Work on a copy so adjustments only apply to this paste
+    this.options = copyReformatOptions(options);
+  }
+
+  onOpen() {
+    const { contentEl } = this;
+    this.titleEl.setText('Reformat and Paste');
+    this.modalEl.addClass('paste-reformatter-preview-modal');
+
+    const layoutEl = contentEl.createDiv('paste-reformatter-preview-layout');
+    const controlsEl = layoutEl.createDiv('paste-reformatter-preview-controls');
+    const outputEl = layoutEl.createDiv('paste-reformatter-preview-output');
+
+    // Pane selector
+    const tabsEl = outputEl.createDiv('paste-reformatter-preview-tabs');
+    const paneLabels: Record<PreviewPane, string> = { source: 'Source', result: 'Reformatted', diff: 'Diff' };
+    for (const [pane, label] of Object.entries(paneLabels) as [PreviewPane, string][]) {
+      const tabEl = tabsEl.createEl('button', { text: label });
+      tabEl.addEventListener('click', () => {
+        this.pane = pane;
+        this.renderPreview();
+      });
+      this.tabEls[pane] = tabEl;
+    }
+    this.previewEl = outputEl.createDiv('paste-reformatter-preview-content');
+
+    this.renderControls(controlsEl);
+
+    new Setting(contentEl)
+      .addButton(button => button
+        .setButtonText('Cancel')
+        .onClick(() => this.close()))
+      .addButton(button => button
+        .setButtonText('Insert')
+        .setCta()
+        .onClick(() => {
+          this.onInsert(this.markdown, this.images);
+          this.close();
+        }));
+
+    this.refresh();
+  }
+
+  onClose() {
+    this.contentEl.empty();
+  }
+
+  /**
+   * Renders the controls for adjusting the settings of this paste
+   * @param containerEl The element to render the controls into
+   */
+  private renderControls(containerEl: HTMLElement): void {
+    if (this.overridden.length > 0) {
+      new Setting(containerEl).setName('Overridden settings').setHeading();
+      for (const value of this.overridden) {
+        new Setting(containerEl)
+          .setName(`${value.key}: ${value.value}`)
+          .setDesc(`From ${describeLayer(value)}`);
+      }
+    }
+    new Setting(containerEl).setName('HTML steps').setHeading();
+    this.renderStepControls(containerEl, this.options.htmlSteps);
+    new Setting(containerEl).setName('Markdown steps').setHeading();
+    this.renderStepControls(containerEl, this.options.markdownSteps);
+  }
+
+  /**
+   * Renders a toggle for each step of a pipeline, along with its most commonly adjusted options
+   * and a toggle for each of its regex replacements
+   */
+  private renderStepControls(containerEl: HTMLElement, steps: PipelineStep[]): void {
+    for (const step of steps) {
+      const setting = new Setting(containerEl).setName(stepDisplayName(steps, step));
+
+      if (step.type === 'headings') {
+        setting.addDropdown(dropdown => dropdown
+          .addOptions({ '1': 'Disabled (H1)', '2': 'H2', '3': 'H3', '4': 'H4', '5': 'H5', '6': 'H6' })
+          .setValue(step.options.maxHeadingLevel.toString())
+          .onChange(value => {
+            step.options.maxHeadingLevel = parseInt(value);
+            this.refresh();
+          }));
+      } else if (step.type === 'images') {
+        setting.addDropdown(dropdown => dropdown
+          .addOptions({ keep: 'Keep links', localize: 'Save to vault', 'alt-text': 'Replace with alt text', remove: 'Remove' })
+          .setValue(step.options.handling)
+          .onChange(value => {
+            step.options.handling = value as ImageHandling;
+            this.refresh();
+          }));
+      }
+
+      setting.addToggle(toggle => toggle
+        .setValue(step.enabled)
+        .onChange(value => {
+          step.enabled = value;
+          this.refresh();
+        }));
+
+      if (step.type === 'headings') {
+        this.addHeadingToggle(containerEl, 'Cascade heading levels', step, 'cascadeHeadingLevels');
+        this.addHeadingToggle(containerEl, 'Contextual cascade', step, 'contextualCascade');
+      } else if (step.type === 'html-regex' || step.type === 'markdown-regex') {
+        this.addRuleToggles(containerEl, step.options.replacements);
+      }
+    }
+  }
+
+  private addHeadingToggle(containerEl: HTMLElement, name: string, step: HeadingsStep, key: 'cascadeHeadingLevels' | 'contextualCascade'): void {
+    new Setting(containerEl)
+      .setName(name)
+      .setClass('paste-reformatter-preview-rule')
+      .addToggle(toggle => toggle
+        .setValue(step.options[key])
+        .onChange(value => {
+          step.options[key] = value;
+          this.refresh();
+        }));
+  }
+
+  private addRuleToggles(containerEl: HTMLElement, rules: RegexReplacement[]): void {
+    for (const rule of rules) {
+      const target = rule.replacement ? `→ ${rule.replacement}` : '→ (remove)';
+      new Setting(containerEl)
+        .setName(rule.name || rule.pattern || '(empty pattern)')
+        .setDesc(rule.name ? `${rule.pattern} ${target}` : target)
+        .setClass('paste-reformatter-preview-rule')
+        .addToggle(toggle => toggle
+          .setValue(rule.enabled !== false)
+          .onChange(value => {
+            rule.enabled = value;
+            this.refresh();
+          }));
+    }
+  }
+
+  /**
+   * Re-runs the pipeline with the adjusted settings and updates the preview
+   */
+  private refresh(): void {
+    try {
+      const result = reformatPaste(this.clipboardData, this.options, this.contextLevel, this.escapeMarkdown, this.resolveNoteLink, this.noteTitle, this.noteFootnotes);
+      this.markdown = result ? result.markdown : '';
+      this.images = result ? result.images : [];
+    } catch (error) {
+      console.error("Error processing paste content:", error);
+      this.markdown = '';
+      this.images = [];
+    }
+    this.renderPreview();
+  }
+
+  private renderPreview(): void {
+    for (const [pane, tabEl] of Object.entries(this.tabEls)) {
+      tabEl?.toggleClass('is-active', pane === this.pane);
+    }
+
+    this.previewEl.empty();
+    const preEl = this.previewEl.createEl('pre');
+
+    if (this.pane === 'source') {
+      const source = this.clipboardData.types.includes('text/html')
+        ? this.clipboardData.getData('text/html')
+        : this.clipboardData.getData('text/plain');
+      preEl.setText(source);
+    } else if (this.pane === 'result') {
+      preEl.setText(this.markdown);
+    } else {
+      // Compare against what a regular paste would have produced
+      const original = convertWithoutReformatting(this.clipboardData) ?? '';
+      for (const line of diffLines(original, this.markdown)) {
+        const prefix = line.type === 'added' ? '+ ' : line.type === 'removed' ? '- ' : '  ';
+        const lineEl = preEl.createDiv({ text: prefix + line.text });
+        lineEl.addClass(`paste-reformatter-diff-${line.type}`);
+      }
+    }
+  }
+}
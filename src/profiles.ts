@@ -0,0 +1,112 @@
+// Paste Reformatter - A plugin that re-formats pasted HTML text in Obsidian.
+// Copyright (C) 2025 by Keath Milligan.
+
+/**
+ * What a profile match rule is tested against:
+ * - source-url: the URL of the page the content was copied from
+ * - generator: the names of the applications detected as having produced the HTML
+ * - html: the raw clipboard HTML
+ */
+export type ProfileMatchType = 'source-url' | 'generator' | 'html';
+
+export interface ProfileMatchRule {
+    type: ProfileMatchType;
+    pattern: string; // Case-insensitive regular expression
+}
+
+/**
+ * Information about where the clipboard content came from
+ */
+export interface ClipboardSource {
+    sourceUrl: string | null; // The page URL, if the browser recorded it
+    generators: string[]; // Known generator identifiers and <meta name="generator"> values
+}
+
+/**
+ * Markers that identify HTML produced by common applications. The keys are the
+ * identifiers that "generator" match rules are tested against.
+ */
+export const KNOWN_GENERATORS: Record<string, RegExp> = {
+    'google-docs': /id="docs-internal-guid-/i,
+    'microsoft-office': /urn:schemas-microsoft-com:office|<meta[^>]+content=["']?(Word\.Document|Microsoft Word|Microsoft Excel)|class=["']?Mso/i,
+    'confluence': /class="[^"]*\bconfluence|data-macro-name=|atlassian/i,
+    'notion': /class="[^"]*\bnotion-/i,
+    'github': /class="[^"]*\bmarkdown-body\b/i
+};
+
+/**
+ * Detects the origin of clipboard HTML. Chromium-based browsers record the page
+ * URL as a "SourceURL" entry (either as a clipboard header line or as an HTML comment),
+ * and many applications leave recognizable markup or a generator meta tag behind.
+ * @param html The raw clipboard HTML
+ * @returns The detected source information
+ */
+export function detectClipboardSource(html: string): ClipboardSource {
+    let sourceUrl: string | null = null;
+    const sourceUrlMatch = html.match(/<!--\s*SourceURL:\s*(\S+?)\s*-->/i) || html.match(/^SourceURL:(\S+)/im);
+    if (sourceUrlMatch) {
+        sourceUrl = sourceUrlMatch[1];
+    }
+
+    const generators: string[] = [];
+    for (const [name, marker] of Object.entries(KNOWN_GENERATORS)) {
+        if (marker.test(html)) {
+            generators.push(name);
+        }
+    }
+
+    const metaMatch = html.match(/<meta[^>]+name=["']?generator["']?[^>]+content=["']([^"']*)["']/i);
+    if (metaMatch && metaMatch[1].trim() !== '') {
+        generators.push(metaMatch[1].trim());
+    }
+
+    return { sourceUrl, generators };
+}
+
+/**
+ * Tests a single match rule against the clipboard content
+ * @param rule The rule to test
+ * @param source The detected clipboard source
+ * @param html The raw clipboard HTML
+ * @returns true if the rule matches
+ */
+export function matchesRule(rule: ProfileMatchRule, source: ClipboardSource, html: string): boolean {
+    if (!rule.pattern) {
+        return false;
+    }
+
+    try {
+        const regex = new RegExp(rule.pattern, 'i');
+        switch (rule.type) {
+            case 'source-url':
+                return source.sourceUrl !== null && regex.test(source.sourceUrl);
+            case 'generator':
+                return source.generators.some(generator => regex.test(generator));
+            case 'html':
+                return regex.test(html);
+        }
+    } catch (error) {
+        console.error(`Error applying profile match rule: ${error}`);
+    }
+    return false;
+}
+
+/**
+ * Selects the first profile with a match rule that matches the clipboard content
+ * @param profiles The profiles to choose from, in priority order
+ * @param html The raw clipboard HTML (empty for plain text pastes)
+ * @returns The matching profile, or null if the default profile should be used
+ */
+export function selectProfile<T extends { matchRules: ProfileMatchRule[] }>(profiles: T[], html: string): T | null {
+    if (!html) {
+        return null;
+    }
+
+    const source = detectClipboardSource(html);
+    for (const profile of profiles) {
+        if (profile.matchRules.some(rule => matchesRule(rule, source, html))) {
+            return profile;
+        }
+    }
+    return null;
+}
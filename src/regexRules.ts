@@ -0,0 +1,133 @@
+// Paste Reformatter - A plugin that re-formats pasted HTML text in Obsidian.
+// Copyright (C) 2025 by Keath Milligan.
+
+import { protectMarkdown, restoreMarkdown } from './markdownSegments';
+import { RegexReplacement } from './pipeline';
+
+// Flags a rule may add; rules always replace every match, so 'g' is implied
+export const REGEX_FLAGS = ['i', 'm', 's', 'u'];
+
+/**
+ * Compiles the regular expression of a rule
+ * @param rule The rule to compile
+ * @returns The global regular expression for the rule
+ * @throws SyntaxError if the pattern or flags are invalid
+ */
+export function compileRule(rule: RegexReplacement): RegExp {
+    const flags = rule.flags ?? '';
+    const invalid = flags.split('').find((flag, index) => !REGEX_FLAGS.includes(flag) || flags.indexOf(flag) !== index);
+    if (invalid) {
+        throw new SyntaxError(`Invalid flag "${invalid}", use ${REGEX_FLAGS.join(', ')}`);
+    }
+    return new RegExp(rule.pattern, 'g' + flags);
+}
+
+/**
+ * Checks that a rule can be compiled
+ * @param rule The rule to check
+ * @returns A description of the problem, or null if the rule is valid
+ */
+export function validateRule(rule: RegexReplacement): string | null {
+    if (rule.pattern === '') {
+        return 'Pattern is empty';
+    }
+    try {
+        compileRule(rule);
+        return null;
+    } catch (error) {
+        return error instanceof Error ? error.message : `${error}`;
+    }
+}
+
+/**
+ * Converts the escape sequences that can be typed into a Markdown replacement (\n, \t, etc.)
+ * into the characters they stand for
+ * @param replacement The replacement as entered
+ * @returns The replacement string to pass to String.replace
+ */
+export function decodeReplacement(replacement: string): string {
+    return replacement
+        .replace(/\\r\\n/g, '\r\n')
+        .replace(/\\n/g, '\n')
+        .replace(/\\r/g, '\r')
+        .replace(/\\t/g, '\t')
+        .replace(/\\'/g, "'")
+        .replace(/\\"/g, '"')
+        .replace(/\\\\/g, '\\');
+}
+
+/**
+ * The result of running one rule in the test bench
+ */
+export interface RuleTestResult {
+    rule: RegexReplacement;
+    skipped: boolean; // Whether the rule is disabled
+    error: string | null; // Why the rule could not be applied
+    segments: { text: string, match: boolean }[]; // The rule's input, split into matched and unmatched text
+    matchCount: number;
+    output: string; // The content after the rule was applied
+}
+
+/**
+ * Runs rules over sample content the same way the pipeline does, recording what each rule
+ * matched and produced
+ * @param input The sample HTML or Markdown
+ * @param rules The rules to run, in order
+ * @param type Whether the rules are HTML or Markdown replacements; Markdown rules skip code
+ * unless they apply to code, and their replacements may contain escape sequences
+ * @returns The result of each rule
+ */
+export function testRules(input: string, rules: RegexReplacement[], type: 'html' | 'markdown'): RuleTestResult[] {
+    let { text, regions } = type === 'markdown' ? protectMarkdown(input) : { text: input, regions: [] as string[] };
+    const results: RuleTestResult[] = [];
+
+    for (const rule of rules) {
+        const result: RuleTestResult = { rule, skipped: false, error: null, segments: [], matchCount: 0, output: '' };
+        results.push(result);
+
+        if (rule.enabled === false) {
+            result.skipped = true;
+        } else {
+            result.error = validateRule(rule);
+        }
+        if (result.skipped || result.error) {
+            result.segments = [{ text: restoreMarkdown(text, regions), match: false }];
+            result.output = restoreMarkdown(text, regions);
+            continue;
+        }
+
+        const applyToCode = type === 'markdown' && rule.applyToCode;
+        if (applyToCode) {
+            text = restoreMarkdown(text, regions);
+            regions = [];
+        }
+
+        // Split the input into matched and unmatched segments
+        const regex = compileRule(rule);
+        let position = 0;
+        let match: RegExpExecArray | null;
+        while ((match = regex.exec(text)) !== null) {
+            if (match.index > position) {
+                result.segments.push({ text: restoreMarkdown(text.substring(position, match.index), regions), match: false });
+            }
+            result.segments.push({ text: restoreMarkdown(match[0], regions), match: true });
+            result.matchCount++;
+            position = match.index + match[0].length;
+            if (match[0] === '') {
+                // Avoid looping forever on empty matches
+                regex.lastIndex++;
+            }
+        }
+        if (position < text.length) {
+            result.segments.push({ text: restoreMarkdown(text.substring(position), regions), match: false });
+        }
+
+        text = text.replace(compileRule(rule), type === 'markdown' ? decodeReplacement(rule.replacement) : rule.replacement);
+        if (applyToCode) {
+            ({ text, regions } = protectMarkdown(text));
+        }
+        result.output = restoreMarkdown(text, regions);
+    }
+
+    return results;
+}
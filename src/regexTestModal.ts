@@ -0,0 +1,143 @@
+// Paste Reformatter - A plugin that re-formats pasted HTML text in Obsidian.
+// Copyright (C) 2025 by Keath Milligan.
+
+import { App, Modal, Setting } from 'obsidian';
+import { RegexReplacement } from './pipeline';
+import { REGEX_FLAGS, testRules } from './regexRules';
+
+/**
+ * A test bench for regex replacements: runs the rules over sample content and shows what
+ * each rule matched and produced. Rules are edited on a copy, which replaces the saved
+ * rules only when the user saves.
+ */
+export class RegexTestModal extends Modal {
+  private rules: RegexReplacement[];
+  private sample = '';
+  private resultEls: HTMLElement[] = [];
+  private outputEl: HTMLElement;
+
+  constructor(
+    app: App,
+    rules: RegexReplacement[],
+    private type: 'html' | 'markdown',
+    private onSave: (rules: RegexReplacement[]) => void
+  ) {
+    super(app);
+    this.rules = rules.map(rule => ({ ...rule }));
+  }
+
+  onOpen() {
+    const { contentEl } = this;
+    this.titleEl.setText(this.type === 'html' ? 'Test HTML regex replacements' : 'Test Markdown regex replacements');
+    this.modalEl.addClass('paste-reformatter-regex-test-modal');
+
+    const sampleEl = contentEl.createEl('textarea', {
+      cls: 'paste-reformatter-regex-test-sample',
+      attr: { placeholder: this.type === 'html' ? 'Paste sample HTML here' : 'Paste sample Markdown here', rows: '6' }
+    });
+    sampleEl.addEventListener('input', () => {
+      this.sample = sampleEl.value;
+      this.refresh();
+    });
+
+    const rulesEl = contentEl.createDiv('paste-reformatter-regex-test-rules');
+    this.rules.forEach((rule, index) => {
+      const ruleEl = rulesEl.createDiv('paste-reformatter-regex-test-rule');
+      new Setting(ruleEl)
+        .setName(rule.name || `Rule ${index + 1}`)
+        .setDesc(rule.description ?? '')
+        .addText(text => text
+          .setPlaceholder('Pattern')
+          .setValue(rule.pattern)
+          .onChange(value => {
+            rule.pattern = value;
+            this.refresh();
+          }))
+        .addText(text => text
+          .setPlaceholder(REGEX_FLAGS.join(''))
+          .setValue(rule.flags ?? '')
+          .onChange(value => {
+            rule.flags = value;
+            this.refresh();
+          }))
+        .addText(text => text
+          .setPlaceholder('Replacement')
+          .setValue(rule.replacement)
+          .onChange(value => {
+            rule.replacement = value;
+            this.refresh();
+          }))
+        .addToggle(toggle => toggle
+          .setValue(rule.enabled !== false)
+          .onChange(value => {
+            rule.enabled = value;
+            this.refresh();
+          }));
+      this.resultEls[index] = ruleEl.createDiv('paste-reformatter-regex-test-result');
+    });
+
+    if (this.rules.length === 0) {
+      rulesEl.createDiv({ cls: 'regex-empty-message', text: 'No replacements defined.' });
+    }
+
+    new Setting(contentEl).setName('Output').setHeading();
+    this.outputEl = contentEl.createEl('pre', { cls: 'paste-reformatter-regex-test-output' });
+
+    new Setting(contentEl)
+      .addButton(button => button
+        .setButtonText('Cancel')
+        .onClick(() => this.close()))
+      .addButton(button => button
+        .setButtonText('Save rules')
+        .setCta()
+        .onClick(() => {
+          this.onSave(this.rules);
+          this.close();
+        }));
+
+    this.refresh();
+  }
+
+  onClose() {
+    this.contentEl.empty();
+  }
+
+  /**
+   * Re-runs the rules over the sample and shows each rule's matches and output
+   */
+  private refresh(): void {
+    const results = testRules(this.sample, this.rules, this.type);
+
+    results.forEach((result, index) => {
+      const resultEl = this.resultEls[index];
+      resultEl.empty();
+
+      if (result.skipped) {
+        resultEl.createDiv({ cls: 'paste-reformatter-regex-test-status', text: 'Disabled' });
+        return;
+      }
+      if (result.error) {
+        resultEl.createDiv({ cls: 'regex-error', text: result.error });
+        return;
+      }
+
+      resultEl.createDiv({
+        cls: 'paste-reformatter-regex-test-status',
+        text: result.matchCount === 1 ? '1 match' : `${result.matchCount} matches`
+      });
+      if (result.matchCount > 0) {
+        const matchesEl = resultEl.createEl('pre');
+        for (const segment of result.segments) {
+          if (segment.match) {
+            matchesEl.createEl('mark', { text: segment.text });
+          } else {
+            matchesEl.appendText(segment.text);
+          }
+        }
+        resultEl.createEl('pre', { cls: 'paste-reformatter-regex-test-rule-output', text: result.output });
+      }
+    });
+
+    this.outputEl.setText(results.length > 0 ? results[results.length - 1].output : this.sample);
+  }
+}
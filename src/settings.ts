@@ -0,0 +1,389 @@
+// Paste Reformatter - A plugin that re-formats pasted HTML text in Obsidian.
+// Copyright (C) 2025 by Keath Milligan.
+
+import { ImageHandling } from './imageLocalizer';
+import { DEFAULT_TRACKING_PARAMETERS } from './linkRewriter';
+import { ESCAPED_SYNTAX, EscapedSyntax } from './markdownEscaper';
+import { FolderOverride, SettingsOverrides, isOverrideValue } from './overrides';
+import {
+  HTMLStep, MarkdownStep, PipelineStep, RegexReplacement, STEP_NAMES, StepType, copySteps, createStep, defaultHTMLSteps, defaultMarkdownSteps
+} from './pipeline';
+import { ProfileMatchRule, ProfileMatchType } from './profiles';
+import { TableFallback } from './tableTransformer';
+
+// The version of the saved settings format. Bump it and add a migration to SETTINGS_MIGRATIONS
+// whenever a change to the settings would otherwise lose or misread saved data.
+export const SETTINGS_VERSION = 10;
+
+export interface ReformatOptions {
+  htmlSteps: HTMLStep[]; // The steps applied to the HTML content before converting to Markdown, in order
+  markdownSteps: MarkdownStep[]; // The steps applied to the Markdown content after HTML conversion, in order
+}
+
+export interface PasteProfile extends ReformatOptions {
+  name: string; // Display name of the profile
+  matchRules: ProfileMatchRule[]; // The profile is used when any of these rules match the clipboard content
+}
+
+export interface PasteReformmatterSettings extends ReformatOptions {
+  settingsVersion: number; // The settings format version the settings were saved with
+  pasteOverride: boolean; // Whether to override the default paste behavior
+  showPasteNotifications: boolean; // Whether to show a notice after successful paste reformatting
+  showUndoAction: boolean; // Whether the paste notice offers to undo the reformatting
+  escapedSyntax: EscapedSyntax[]; // The syntax escaped by the "Paste with Escaped Markdown" command
+  profiles: PasteProfile[]; // Source-specific profiles, checked in order before falling back to the default options above
+  folderOverrides: FolderOverride[]; // Overrides of the step settings for the notes in a folder, applied after the profile
+}
+
+export const DEFAULT_OPTIONS: ReformatOptions = {
+  htmlSteps: defaultHTMLSteps(),
+  markdownSteps: defaultMarkdownSteps()
+}
+
+export const DEFAULT_SETTINGS: PasteReformmatterSettings = {
+  ...DEFAULT_OPTIONS,
+  settingsVersion: SETTINGS_VERSION,
+  pasteOverride: true,
+  showPasteNotifications: true,
+  showUndoAction: true,
+  escapedSyntax: [...ESCAPED_SYNTAX],
+  profiles: [],
+  folderOverrides: []
+}
+
+/**
+ * The options as saved before transformations were organized into pipelines, with
+ * a fixed order of steps
+ */
+export interface LegacyReformatOptions {
+  maxHeadingLevel: number;
+  removeEmptyElements: boolean;
+  cascadeHeadingLevels: boolean;
+  contextualCascade: boolean;
+  stripLineBreaks: boolean;
+  imageHandling: ImageHandling;
+  normalizeTables: boolean;
+  tableFallback: TableFallback;
+  stripTrackingParameters: boolean;
+  trackingParameters: string[];
+  unwrapRedirects: boolean;
+  linkToNotes: boolean;
+  convertToSingleSpaced: boolean;
+  removeEmptyLines: boolean;
+  htmlRegexReplacements: RegexReplacement[];
+  markdownRegexReplacements: RegexReplacement[];
+}
+
+export const LEGACY_DEFAULT_OPTIONS: LegacyReformatOptions = {
+  maxHeadingLevel: 1,
+  removeEmptyElements: false,
+  cascadeHeadingLevels: true,
+  contextualCascade: true,
+  stripLineBreaks: false,
+  imageHandling: 'keep',
+  normalizeTables: false,
+  tableFallback: 'html',
+  stripTrackingParameters: false,
+  trackingParameters: DEFAULT_TRACKING_PARAMETERS,
+  unwrapRedirects: false,
+  linkToNotes: false,
+  convertToSingleSpaced: false,
+  removeEmptyLines: false,
+  htmlRegexReplacements: [],
+  markdownRegexReplacements: []
+}
+
+/**
+ * Converts options saved with the fixed step order into pipelines that behave the same
+ * @param legacy The saved options; missing values use the defaults of that time
+ * @returns The equivalent pipelines
+ */
+export function migrateLegacyOptions(legacy: Partial<LegacyReformatOptions>): ReformatOptions {
+  const options: LegacyReformatOptions = { ...LEGACY_DEFAULT_OPTIONS, ...legacy };
+  return {
+    htmlSteps: [
+      { type: 'html-regex', enabled: true, options: { replacements: options.htmlRegexReplacements.map(r => ({ ...r })) } },
+      { type: 'google-docs', enabled: true, options: {} },
+      { type: 'office', enabled: true, options: {} },
+      createStep('callouts'),
+      createStep('code-blocks'),
+      createStep('math'),
+      createStep('footnotes'),
+      { type: 'dom-rules', enabled: true, options: { rules: [] } },
+      { type: 'strip-line-breaks', enabled: options.stripLineBreaks, options: {} },
+      { type: 'images', enabled: true, options: { handling: options.imageHandling } },
+      { type: 'remove-empty-elements', enabled: options.removeEmptyElements, options: {} },
+      { type: 'normalize-tables', enabled: options.normalizeTables, options: { fallback: options.tableFallback } }
+    ],
+    markdownSteps: [
+      createStep('plain-text'),
+      {
+        type: 'links',
+        enabled: true,
+        options: {
+          stripTrackingParameters: options.stripTrackingParameters,
+          trackingParameters: [...options.trackingParameters],
+          unwrapRedirects: options.unwrapRedirects,
+          linkToNotes: options.linkToNotes
+        }
+      },
+      { type: 'markdown-regex', enabled: true, options: { replacements: options.markdownRegexReplacements.map(r => ({ ...r })) } },
+      {
+        type: 'headings',
+        enabled: true,
+        options: {
+          ...createStep('headings').options,
+          maxHeadingLevel: options.maxHeadingLevel,
+          cascadeHeadingLevels: options.cascadeHeadingLevels,
+          contextualCascade: options.contextualCascade
+        }
+      },
+      createStep('lists'),
+      { type: 'single-spaced', enabled: options.convertToSingleSpaced, options: {} },
+      { type: 'remove-empty-lines', enabled: options.removeEmptyLines, options: {} }
+    ]
+  };
+}
+
+/**
+ * Saved or imported settings data, or part of it. The data comes from outside the plugin, so
+ * its properties are checked as they are loaded.
+ */
+export type SettingsData = Record<string, unknown>;
+
+/**
+ * Checks whether a saved value is an object whose properties can be read
+ */
+export function isSettingsData(value: unknown): value is SettingsData {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Migrations of saved settings, keyed by the version they convert from. Each migration returns
+ * the data in the format of the next version. Migrations also receive partial settings, such as
+ * a single exported section, and must leave missing properties missing.
+ */
+const SETTINGS_MIGRATIONS: Record<number, (data: SettingsData) => SettingsData> = {
+  // Version 1 had a fixed step order with flat options; version 2 has pipelines
+  1: data => migrateWithProfiles(data, migrateLegacyData),
+  // Version 3 added the Google Docs cleanup step
+  2: data => migrateWithProfiles(data, options => addStep(options, 'htmlSteps', 'google-docs', 'html-regex')),
+  // Version 4 added the Word and Outlook cleanup step
+  3: data => migrateWithProfiles(data, options => addStep(options, 'htmlSteps', 'office', 'google-docs')),
+  // Version 5 added the lists step
+  4: data => migrateWithProfiles(data, options => addStep(options, 'markdownSteps', 'lists', 'headings')),
+  // Version 6 added plain text detection
+  5: data => migrateWithProfiles(data, options => addStep(options, 'markdownSteps', 'plain-text', null)),
+  // Version 7 added the callouts step
+  6: data => migrateWithProfiles(data, options => addStep(options, 'htmlSteps', 'callouts', 'office')),
+  // Version 8 added the code blocks step
+  7: data => migrateWithProfiles(data, options => addStep(options, 'htmlSteps', 'code-blocks', 'callouts')),
+  // Version 9 added the math step
+  8: data => migrateWithProfiles(data, options => addStep(options, 'htmlSteps', 'math', 'code-blocks')),
+  // Version 10 added the footnotes step
+  9: data => migrateWithProfiles(data, options => addStep(options, 'htmlSteps', 'footnotes', 'math'))
+};
+
+/**
+ * Applies a migration of reformatting options to settings and each of their profiles
+ */
+function migrateWithProfiles(data: SettingsData, migrate: (options: SettingsData) => SettingsData): SettingsData {
+  const migrated = migrate(data);
+  const profiles: unknown = data.profiles;
+  if (Array.isArray(profiles)) {
+    migrated.profiles = profiles.map((profile: unknown) => isSettingsData(profile) ? migrate(profile) : profile);
+  }
+  return migrated;
+}
+
+/**
+ * Adds a new step to a saved pipeline, enabled with its default options
+ * @param data The settings or profile
+ * @param pipeline The pipeline to add the step to
+ * @param type The type of step to add, unless the pipeline already has one
+ * @param after The type of step to add it after; it is added first if this is null or there is no such step
+ */
+function addStep(data: SettingsData, pipeline: keyof ReformatOptions, type: StepType, after: StepType | null): SettingsData {
+  const saved: unknown = data[pipeline];
+  if (!Array.isArray(saved) || saved.some((step: unknown) => isSettingsData(step) && step.type === type)) {
+    return { ...data };
+  }
+  const steps: unknown[] = [...saved];
+  steps.splice(steps.findIndex(step => isSettingsData(step) && step.type === after) + 1, 0, createStep(type));
+  return { ...data, [pipeline]: steps };
+}
+
+/**
+ * Converts an object with flat version 1 options into one with pipelines, keeping its other properties
+ */
+function migrateLegacyData(data: SettingsData): SettingsData {
+  if (Array.isArray(data.htmlSteps) && Array.isArray(data.markdownSteps)) {
+    return { ...data };
+  }
+  const migrated: SettingsData = {};
+  const legacy: SettingsData = {};
+  const defaults: SettingsData = { ...LEGACY_DEFAULT_OPTIONS };
+  for (const [key, value] of Object.entries(data)) {
+    if (!(key in defaults)) {
+      migrated[key] = value;
+    } else if (typeof value === typeof defaults[key] && Array.isArray(value) === Array.isArray(defaults[key])) {
+      // Values of the wrong type are left to the defaults of that time
+      legacy[key] = value;
+    }
+  }
+  return { ...migrated, ...migrateLegacyOptions(legacy as Partial<LegacyReformatOptions>) };
+}
+
+/**
+ * Gets the settings format version of saved data. Data saved before settings were versioned
+ * is version 2 if it has pipelines and version 1 otherwise.
+ * @param data The saved data
+ */
+export function settingsDataVersion(data: unknown): number {
+  if (!isSettingsData(data)) {
+    return 2;
+  }
+  if (typeof data.settingsVersion === 'number') {
+    return data.settingsVersion;
+  }
+  return Array.isArray(data.htmlSteps) || Array.isArray(data.markdownSteps) || !hasLegacyOptions(data) ? 2 : 1;
+}
+
+function hasLegacyOptions(data: SettingsData): boolean {
+  const profiles: unknown = data.profiles;
+  const objects = [data, ...(Array.isArray(profiles) ? profiles.filter(isSettingsData) : [])];
+  return objects.some(object => Object.keys(object).some(key => key in LEGACY_DEFAULT_OPTIONS));
+}
+
+/**
+ * Runs the migrations needed to bring saved data to the current settings format
+ * @param data The saved settings, or part of them
+ * @returns The migrated data, with settingsVersion set to SETTINGS_VERSION
+ * @throws Error if the data was saved by a newer version of the plugin
+ */
+export function migrateSettingsData(data: SettingsData): SettingsData {
+  let version = settingsDataVersion(data);
+  if (version > SETTINGS_VERSION) {
+    throw new Error(`These settings were saved by a newer version of Paste Reformatter (settings version ${version}). Update the plugin to use them.`);
+  }
+  let migrated = { ...data };
+  for (; version < SETTINGS_VERSION; version++) {
+    migrated = SETTINGS_MIGRATIONS[version](migrated);
+  }
+  return { ...migrated, settingsVersion: SETTINGS_VERSION };
+}
+
+/**
+ * Loads saved pipelines. Options missing from a step are filled in with the step's defaults;
+ * steps of unknown types are kept so that they survive being saved again. Entries that are
+ * not steps at all are left out.
+ * @param steps The saved steps
+ * @param defaults Creates the steps to use if nothing was saved
+ */
+export function loadSteps<T extends PipelineStep>(steps: unknown, defaults: () => T[]): T[] {
+  if (!Array.isArray(steps)) {
+    return defaults();
+  }
+  return steps.filter(isSettingsData).map(step => {
+    if (typeof step.type !== 'string' || !(step.type in STEP_NAMES)) {
+      return step as unknown as T;
+    }
+    const options = isSettingsData(step.options) ? step.options : {};
+    return { ...step, enabled: step.enabled !== false, options: { ...createStep(step.type as StepType).options, ...options } } as unknown as T;
+  });
+}
+
+/**
+ * Loads a saved flag, using the default if it is missing or not a boolean
+ */
+export function loadBoolean(value: unknown, defaultValue: boolean): boolean {
+  return typeof value === 'boolean' ? value : defaultValue;
+}
+
+/**
+ * Builds the settings from saved plugin data, migrating data saved with an earlier settings
+ * version and filling in anything missing with defaults. Data saved by a newer version of the
+ * plugin is loaded as well as possible without migration.
+ * @param data The saved plugin data, or null if nothing has been saved
+ * @returns The settings
+ */
+export function loadSettingsData(data: unknown): PasteReformmatterSettings {
+  if (!isSettingsData(data)) {
+    return { ...DEFAULT_SETTINGS, ...copyReformatOptions(DEFAULT_OPTIONS), escapedSyntax: [...ESCAPED_SYNTAX], profiles: [], folderOverrides: [] };
+  }
+  const migrated = settingsDataVersion(data) > SETTINGS_VERSION ? data : migrateSettingsData(data);
+  const profiles: unknown = migrated.profiles;
+
+  return {
+    ...loadReformatOptions(migrated),
+    settingsVersion: Math.max(settingsDataVersion(migrated), SETTINGS_VERSION),
+    pasteOverride: loadBoolean(migrated.pasteOverride, DEFAULT_SETTINGS.pasteOverride),
+    showPasteNotifications: loadBoolean(migrated.showPasteNotifications, DEFAULT_SETTINGS.showPasteNotifications),
+    showUndoAction: loadBoolean(migrated.showUndoAction, DEFAULT_SETTINGS.showUndoAction),
+    escapedSyntax: loadEscapedSyntax(migrated.escapedSyntax),
+    profiles: Array.isArray(profiles) ? profiles.map(loadProfile) : [],
+    folderOverrides: loadFolderOverrides(migrated.folderOverrides)
+  };
+}
+
+/**
+ * Loads the folder overrides, leaving out rules without a folder path and values that can't be overrides
+ */
+export function loadFolderOverrides(data: unknown): FolderOverride[] {
+  const rules: unknown[] = Array.isArray(data) ? data : [];
+  return rules.filter(isSettingsData).filter(rule => typeof rule.folder === 'string').map(rule => {
+    const overrides: SettingsOverrides = {};
+    for (const [key, value] of Object.entries(isSettingsData(rule.overrides) ? rule.overrides : {})) {
+      if (isOverrideValue(value)) {
+        overrides[key] = value;
+      }
+    }
+    return { folder: rule.folder as string, overrides };
+  });
+}
+
+/**
+ * Loads the syntax to escape, leaving out families this version doesn't know
+ */
+export function loadEscapedSyntax(data: unknown): EscapedSyntax[] {
+  const saved: unknown[] | null = Array.isArray(data) ? data : null;
+  return saved ? ESCAPED_SYNTAX.filter(syntax => saved.includes(syntax)) : [...ESCAPED_SYNTAX];
+}
+
+/**
+ * Loads the pipelines of migrated settings or a migrated profile
+ */
+export function loadReformatOptions(data: unknown): ReformatOptions {
+  const options = isSettingsData(data) ? data : {};
+  return {
+    htmlSteps: loadSteps(options.htmlSteps, defaultHTMLSteps),
+    markdownSteps: loadSteps(options.markdownSteps, defaultMarkdownSteps)
+  };
+}
+
+/**
+ * Loads a migrated profile, leaving out match rules without a type and pattern
+ */
+export function loadProfile(data: unknown): PasteProfile {
+  const profile = isSettingsData(data) ? data : {};
+  const rules: unknown[] = Array.isArray(profile.matchRules) ? profile.matchRules : [];
+  return {
+    ...loadReformatOptions(profile),
+    name: typeof profile.name === 'string' ? profile.name : 'Profile',
+    matchRules: rules.filter(isSettingsData)
+      .filter(rule => typeof rule.type === 'string' && typeof rule.pattern === 'string')
+      .map(rule => ({ type: rule.type as ProfileMatchType, pattern: rule.pattern as string }))
+  };
+}
+
+/**
+ * Copies the reformatting options out of a settings or profile object
+ * @param options The object to copy the options from
+ * @returns A standalone copy of the options
+ */
+export function copyReformatOptions(options: ReformatOptions): ReformatOptions {
+  return {
+    htmlSteps: copySteps(options.htmlSteps),
+    markdownSteps: copySteps(options.markdownSteps)
+  };
+}
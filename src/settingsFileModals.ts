@@ -0,0 +1,65 @@
+// Paste Reformatter - A plugin that re-formats pasted HTML text in Obsidian.
+// Copyright (C) 2025 by Keath Milligan.
+
+import { App, FuzzySuggestModal, Modal, Setting, TFile, normalizePath } from 'obsidian';
+
+/**
+ * Asks for the vault path to export settings to
+ */
+export class ExportSettingsModal extends Modal {
+  constructor(app: App, private path: string, private onExport: (path: string) => void) {
+    super(app);
+  }
+
+  onOpen() {
+    this.titleEl.setText('Export settings');
+
+    new Setting(this.contentEl)
+      .setName('File')
+      .setDesc('The path of the JSON file in your vault. An existing file is replaced.')
+      .addText(text => text
+        .setValue(this.path)
+        .onChange(value => {
+          this.path = value;
+        }));
+
+    new Setting(this.contentEl)
+      .addButton(button => button
+        .setButtonText('Cancel')
+        .onClick(() => this.close()))
+      .addButton(button => button
+        .setButtonText('Export')
+        .setCta()
+        .onClick(() => {
+          const path = normalizePath(this.path.trim());
+          this.onExport(path.endsWith('.json') ? path : `${path}.json`);
+          this.close();
+        }));
+  }
+
+  onClose() {
+    this.contentEl.empty();
+  }
+}
+
+/**
+ * Lets the user pick a JSON file in the vault to import settings from
+ */
+export class ImportSettingsModal extends FuzzySuggestModal<TFile> {
+  constructor(app: App, private onChoose: (file: TFile) => void) {
+    super(app);
+    this.setPlaceholder('Choose a settings file to import');
+  }
+
+  getItems(): TFile[] {
+    return this.app.vault.getFiles().filter(file => file.extension === 'json');
+  }
+
+  getItemText(file: TFile): string {
+    return file.path;
+  }
+
+  onChooseItem(file: TFile): void {
+    this.onChoose(file);
+  }
+}
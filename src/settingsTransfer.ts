@@ -0,0 +1,136 @@
+// Paste Reformatter - A plugin that re-formats pasted HTML text in Obsidian.
+// Copyright (C) 2025 by Keath Milligan.
+
+import { defaultHTMLSteps, defaultMarkdownSteps } from './pipeline';
+import {
+    PasteReformmatterSettings, ReformatOptions, SETTINGS_VERSION, SettingsData, isSettingsData, loadBoolean, loadEscapedSyntax, loadFolderOverrides, loadProfile,
+    loadSettingsData, loadSteps, migrateSettingsData
+} from './settings';
+
+/**
+ * The parts of the settings that can be exported and imported on their own:
+ * - all: all settings, including profiles
+ * - general: the paste behavior, notification, escaping and folder settings
+ * - html, markdown: the HTML or Markdown pipeline of one profile
+ * - profiles: the named profiles
+ */
+export type SettingsSection = 'all' | 'general' | 'html' | 'markdown' | 'profiles';
+
+export const SETTINGS_SECTION_NAMES: Record<SettingsSection, string> = {
+    'all': 'All settings',
+    'general': 'General settings',
+    'html': 'HTML transformations',
+    'markdown': 'Markdown transformations',
+    'profiles': 'Profiles'
+};
+
+// Identifies files exported by the plugin
+const EXPORT_FORMAT = 'paste-reformatter-settings';
+
+/**
+ * The contents of an exported settings file. The exported settings have the same shape as the
+ * saved settings, limited to the properties of the section, so the settings migrations apply to them.
+ */
+export interface SettingsExport {
+    format: typeof EXPORT_FORMAT;
+    section: SettingsSection;
+    settings: SettingsData;
+}
+
+/**
+ * Exports a section of the settings
+ * @param settings The plugin settings
+ * @param section The section to export
+ * @param options The profile whose pipelines are exported by the html and markdown sections
+ * @returns The JSON text to save
+ */
+export function exportSettings(settings: PasteReformmatterSettings, section: SettingsSection, options: ReformatOptions): string {
+    let exported: SettingsData;
+    switch (section) {
+        case 'all':
+            exported = { ...settings };
+            break;
+        case 'general':
+            exported = {
+                pasteOverride: settings.pasteOverride,
+                showPasteNotifications: settings.showPasteNotifications,
+                showUndoAction: settings.showUndoAction,
+                escapedSyntax: settings.escapedSyntax,
+                folderOverrides: settings.folderOverrides
+            };
+            break;
+        case 'html':
+            exported = { htmlSteps: options.htmlSteps };
+            break;
+        case 'markdown':
+            exported = { markdownSteps: options.markdownSteps };
+            break;
+        case 'profiles':
+            exported = { profiles: settings.profiles };
+            break;
+    }
+
+    const file: SettingsExport = { format: EXPORT_FORMAT, section, settings: { ...exported, settingsVersion: SETTINGS_VERSION } };
+    return JSON.stringify(file, null, 2);
+}
+
+/**
+ * Imports exported settings, migrating them if they were exported by an earlier version of the plugin.
+ * Imported profiles replace existing profiles with the same name and are added otherwise.
+ * @param settings The plugin settings to update
+ * @param json The contents of the exported file
+ * @param options The profile whose pipelines are replaced by the html and markdown sections
+ * @returns The section that was imported
+ * @throws Error if the file is not an exported settings file or cannot be migrated
+ */
+export function importSettings(settings: PasteReformmatterSettings, json: string, options: ReformatOptions): SettingsSection {
+    let file: unknown;
+    try {
+        file = JSON.parse(json);
+    } catch (error) {
+        throw new Error(`The file is not valid JSON: ${error instanceof Error ? error.message : error}`);
+    }
+    if (!isSettingsData(file) || file.format !== EXPORT_FORMAT || typeof file.section !== 'string' || !(file.section in SETTINGS_SECTION_NAMES)
+        || !isSettingsData(file.settings)) {
+        throw new Error('The file is not a Paste Reformatter settings export');
+    }
+
+    const section = file.section as SettingsSection;
+    const imported = migrateSettingsData(file.settings);
+    switch (section) {
+        case 'all':
+            Object.assign(settings, loadSettingsData(imported));
+            break;
+        case 'general':
+            settings.pasteOverride = loadBoolean(imported.pasteOverride, settings.pasteOverride);
+            settings.showPasteNotifications = loadBoolean(imported.showPasteNotifications, settings.showPasteNotifications);
+            settings.showUndoAction = loadBoolean(imported.showUndoAction, settings.showUndoAction);
+            if (imported.escapedSyntax) {
+                settings.escapedSyntax = loadEscapedSyntax(imported.escapedSyntax);
+            }
+            if (imported.folderOverrides) {
+                settings.folderOverrides = loadFolderOverrides(imported.folderOverrides);
+            }
+            break;
+        case 'html':
+            options.htmlSteps = loadSteps(imported.htmlSteps, defaultHTMLSteps);
+            break;
+        case 'markdown':
+            options.markdownSteps = loadSteps(imported.markdownSteps, defaultMarkdownSteps);
+            break;
+        case 'profiles': {
+            const profiles: unknown = imported.profiles;
+            for (const profile of (Array.isArray(profiles) ? profiles : []).map(loadProfile)) {
+                const index = settings.profiles.findIndex(p => p.name === profile.name);
+                if (index >= 0) {
+                    settings.profiles[index] = profile;
+                } else {
+                    settings.profiles.push(profile);
+                }
+            }
+            break;
+        }
+    }
+    return section;
+}
+
@@ -0,0 +1,290 @@
+// Paste Reformatter - A plugin that re-formats pasted HTML text in Obsidian.
+// Copyright (C) 2025 by Keath Milligan.
+
+import { addToken } from './conversionTokens';
+
+/**
+ * How to convert a table that cannot be represented as a Markdown pipe table:
+ * - html: keep it as a cleaned-up HTML table
+ * - list: convert each row into a list item
+ */
+export type TableFallback = 'html' | 'list';
+
+// Elements that cannot be placed in a pipe table cell
+const UNREPRESENTABLE_CONTENT = 'table, pre';
+
+// Block elements whose content is placed on its own line within a cell
+const CELL_BLOCK_ELEMENTS = 'p, div, h1, h2, h3, h4, h5, h6, blockquote, dd, dt, section, article';
+
+// Attributes kept when a table is preserved as HTML
+const KEPT_TABLE_ATTRIBUTES = ['colspan', 'rowspan', 'href', 'src', 'alt', 'title'];
+
+/**
+ * Normalizes tables so that they convert into valid pipe tables: merged cells are expanded,
+ * rows are padded to the same width, the first row becomes the header, and line breaks and
+ * lists inside cells are converted into <br> separated lines. Tables that cannot be represented
+ * faithfully are converted using the fallback instead.
+ * @param doc The parsed HTML document to modify
+ * @param fallback How to convert tables that cannot be pipe tables
+ * @param tokens The token list used to pass Markdown through conversion
+ * @returns true if any tables were changed
+ */
+export function normalizeTables(doc: Document, fallback: TableFallback, tokens: string[]): boolean {
+    // Only process outermost tables, nested tables are handled by their parent
+    const tables = Array.from(doc.querySelectorAll('table')).filter(table => !table.parentElement?.closest('table'));
+
+    for (const table of tables) {
+        const grid = buildGrid(table);
+        if (grid.length === 0) {
+            table.remove();
+            continue;
+        }
+
+        const representable = grid.every(row => row.every(cell => !cell || !cell.querySelector(UNREPRESENTABLE_CONTENT)));
+        if (!representable) {
+            if (fallback === 'list') {
+                table.replaceWith(tableToList(doc, grid));
+            } else {
+                table.replaceWith(tableToHTMLToken(doc, table, tokens));
+            }
+            continue;
+        }
+
+        table.replaceWith(buildPipeTable(doc, grid, tokens));
+    }
+
+    return tables.length > 0;
+}
+
+/**
+ * Lays the cells of a table out in a grid, expanding merged cells. Positions covered
+ * by a colspan or rowspan are left empty (null) in the grid.
+ */
+function buildGrid(table: HTMLTableElement): (HTMLTableCellElement | null)[][] {
+    const grid: (HTMLTableCellElement | null)[][] = [];
+    const rows = Array.from(table.rows).filter(row => row.closest('table') === table);
+
+    rows.forEach((row, rowIndex) => {
+        grid[rowIndex] = grid[rowIndex] || [];
+        let column = 0;
+        for (const cell of Array.from(row.cells)) {
+            // Skip positions already covered by a rowspan from an earlier row
+            while (grid[rowIndex][column] !== undefined) {
+                column++;
+            }
+            const colspan = Math.max(1, cell.colSpan || 1);
+            const rowspan = Math.max(1, Math.min(cell.rowSpan || 1, rows.length - rowIndex));
+            for (let r = 0; r < rowspan; r++) {
+                grid[rowIndex + r] = grid[rowIndex + r] || [];
+                for (let c = 0; c < colspan; c++) {
+                    grid[rowIndex + r][column + c] = (r === 0 && c === 0) ? cell : null;
+                }
+            }
+            column += colspan;
+        }
+    });
+
+    // Pad rows to the same width
+    const width = Math.max(0, ...grid.map(row => row.length));
+    return grid
+        .map(row => Array.from({ length: width }, (_, i) => row[i] ?? null))
+        .filter(row => row.length > 0);
+}
+
+/**
+ * Builds a simple table with a heading row and single-line cells, which htmlToMarkdown
+ * converts into a pipe table
+ */
+function buildPipeTable(doc: Document, grid: (HTMLTableCellElement | null)[][], tokens: string[]): HTMLTableElement {
+    const lineBreak = addToken(tokens, '<br>');
+    const pipe = addToken(tokens, '\\|');
+
+    const table = doc.createElement('table');
+    const thead = table.createTHead();
+    const tbody = table.createTBody();
+
+    grid.forEach((row, rowIndex) => {
+        const tr = doc.createElement('tr');
+        (rowIndex === 0 ? thead : tbody).appendChild(tr);
+        for (const cell of row) {
+            const newCell = doc.createElement(rowIndex === 0 ? 'th' : 'td');
+            if (cell) {
+                const align = cell.getAttribute('align');
+                if (align && rowIndex === 0) {
+                    newCell.setAttribute('align', align);
+                }
+                flattenCellContent(doc, cell, lineBreak);
+                escapePipes(doc, cell, pipe);
+                while (cell.firstChild) {
+                    newCell.appendChild(cell.firstChild);
+                }
+            }
+            tr.appendChild(newCell);
+        }
+    });
+
+    return table;
+}
+
+/**
+ * Rewrites the content of a cell so it fits on a single line: line breaks, block elements
+ * and list items are separated by the line break token
+ */
+function flattenCellContent(doc: Document, cell: HTMLElement, lineBreak: string): void {
+    cell.querySelectorAll('br').forEach(br => br.replaceWith(doc.createTextNode(lineBreak)));
+
+    // Flatten lists, innermost first so nested items keep their indentation
+    const lists = Array.from(cell.querySelectorAll('ul, ol')).reverse();
+    for (const list of lists) {
+        const depth = countAncestors(list, cell, 'ul, ol');
+        const indent = '\u00a0\u00a0'.repeat(depth);
+        const fragment = doc.createDocumentFragment();
+        Array.from(list.children).filter(child => child.tagName === 'LI').forEach((item, index) => {
+            const marker = list.tagName === 'OL' ? `${index + 1}. ` : '• ';
+            fragment.appendChild(doc.createTextNode(lineBreak + indent + marker));
+            while (item.firstChild) {
+                fragment.appendChild(item.firstChild);
+            }
+        });
+        fragment.appendChild(doc.createTextNode(lineBreak));
+        list.replaceWith(fragment);
+    }
+
+    // Place block content on separate lines, headings become bold text
+    const blocks = Array.from(cell.querySelectorAll(CELL_BLOCK_ELEMENTS)).reverse();
+    for (const block of blocks) {
+        const fragment = doc.createDocumentFragment();
+        fragment.appendChild(doc.createTextNode(lineBreak));
+        if (/^H[1-6]$/.test(block.tagName)) {
+            const strong = doc.createElement('strong');
+            while (block.firstChild) {
+                strong.appendChild(block.firstChild);
+            }
+            fragment.appendChild(strong);
+        } else {
+            while (block.firstChild) {
+                fragment.appendChild(block.firstChild);
+            }
+        }
+        fragment.appendChild(doc.createTextNode(lineBreak));
+        block.replaceWith(fragment);
+    }
+
+    // Collapse newlines in text and remove redundant line breaks
+    cell.normalize();
+    const walker = doc.createTreeWalker(cell, NodeFilter.SHOW_TEXT);
+    const textNodes: Text[] = [];
+    while (walker.nextNode()) {
+        textNodes.push(walker.currentNode as Text);
+    }
+    for (const node of textNodes) {
+        node.data = node.data.replace(/\s*\n\s*/g, ' ');
+    }
+    const escaped = lineBreak.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    const first = textNodes[0];
+    const last = textNodes[textNodes.length - 1];
+    for (const node of textNodes) {
+        node.data = node.data.replace(new RegExp(`([ \\t]*${escaped}[ \\t]*)+`, 'g'), lineBreak);
+    }
+    if (first) {
+        first.data = first.data.replace(new RegExp(`^[ \\t]*${escaped}`), '');
+    }
+    if (last) {
+        last.data = last.data.replace(new RegExp(`${escaped}[ \\t]*$`), '');
+    }
+}
+
+function escapePipes(doc: Document, cell: HTMLElement, pipe: string): void {
+    const walker = doc.createTreeWalker(cell, NodeFilter.SHOW_TEXT);
+    while (walker.nextNode()) {
+        const node = walker.currentNode as Text;
+        if (node.data.includes('|')) {
+            node.data = node.data.replace(/\|/g, pipe);
+        }
+    }
+}
+
+function countAncestors(element: Element, root: Element, selector: string): number {
+    let count = 0;
+    let parent = element.parentElement;
+    while (parent && parent !== root) {
+        if (parent.matches(selector)) {
+            count++;
+        }
+        parent = parent.parentElement;
+    }
+    return count;
+}
+
+/**
+ * Converts a table into a list with one item per row. When the table has a heading row,
+ * each cell is labeled with its column heading.
+ */
+function tableToList(doc: Document, grid: (HTMLTableCellElement | null)[][]): HTMLUListElement {
+    const list = doc.createElement('ul');
+    const hasHeader = grid.length > 1 && grid[0].every(cell => !cell || cell.tagName === 'TH');
+    const headers = hasHeader ? grid[0].map(cell => cell?.textContent?.trim() ?? '') : [];
+
+    for (const row of hasHeader ? grid.slice(1) : grid) {
+        const item = doc.createElement('li');
+        const cells = doc.createElement('ul');
+        let hasTitle = false;
+        row.forEach((cell, column) => {
+            if (!cell || (cell.textContent?.trim() === '' && !cell.querySelector('img'))) {
+                return;
+            }
+
+            // The first cell becomes the row's title, the others are labeled with their heading
+            if (!hasTitle) {
+                hasTitle = true;
+                while (cell.firstChild) {
+                    item.appendChild(cell.firstChild);
+                }
+                return;
+            }
+
+            const cellItem = doc.createElement('li');
+            if (headers[column]) {
+                const label = doc.createElement('strong');
+                label.textContent = headers[column];
+                cellItem.appendChild(label);
+                cellItem.appendChild(doc.createTextNode(': '));
+            }
+            while (cell.firstChild) {
+                cellItem.appendChild(cell.firstChild);
+            }
+            cells.appendChild(cellItem);
+        });
+
+        if (cells.children.length > 0) {
+            item.appendChild(cells);
+        }
+        list.appendChild(item);
+    }
+
+    return list;
+}
+
+/**
+ * Replaces a table with a token for a cleaned-up copy of its HTML
+ */
+function tableToHTMLToken(doc: Document, table: HTMLTableElement, tokens: string[]): HTMLParagraphElement {
+    const clone = table.cloneNode(true) as HTMLTableElement;
+    clone.querySelectorAll('colgroup, col').forEach(element => element.remove());
+    for (const element of [clone, ...Array.from(clone.querySelectorAll('*'))]) {
+        for (const attribute of Array.from(element.attributes)) {
+            if (!KEPT_TABLE_ATTRIBUTES.includes(attribute.name)) {
+                element.removeAttribute(attribute.name);
+            }
+        }
+    }
+
+    // HTML blocks in Markdown end at the first blank line, so keep the table on one line
+    const html = clone.outerHTML
+        .replace(/>\s+</g, '><')
+        .replace(/\r?\n/g, '&#10;');
+
+    const paragraph = doc.createElement('p');
+    paragraph.textContent = addToken(tokens, html);
+    return paragraph;
+}
@@ -0,0 +1,62 @@
+// Paste Reformatter - A plugin that re-formats pasted HTML text in Obsidian.
+// Copyright (C) 2025 by Keath Milligan.
+
+import { NoteLinkResolver } from './linkRewriter';
+import { protectMarkdown } from './markdownSegments';
+import { transformMarkdown } from './markdownTransformer';
+import { HTMLStep, MarkdownStep, enabledSteps } from './pipeline';
+
+/**
+ * Splits the YAML frontmatter off the start of a note
+ * @param text The note content
+ * @returns The frontmatter, including its closing line break (empty if there is none), and the rest of the note
+ */
+export function splitFrontmatter(text: string): { frontmatter: string, body: string } {
+    const match = text.match(/^---\r?\n(?:[\s\S]*?\r?\n)?---[ \t]*(?:\r?\n|$)/);
+    const frontmatter = match ? match[0] : '';
+    return { frontmatter, body: text.substring(frontmatter.length) };
+}
+
+/**
+ * Finds the level of the last heading in Markdown, ignoring frontmatter and lines in code
+ * blocks that look like headings
+ * @param markdown The Markdown to search, e.g. the note content before a selection
+ * @returns The heading level (1-6) or 0 if there is no heading
+ */
+export function lastHeadingLevel(markdown: string): number {
+    const { text } = protectMarkdown(splitFrontmatter(markdown).body);
+    const headings = text.match(/^#{1,6}(?=\s)/gm);
+    return headings ? headings[headings.length - 1].length : 0;
+}
+
+/**
+ * Runs the Markdown pipeline over text that is already in a note. Frontmatter at the start
+ * of the note is left unchanged, as are the line breaks at the end of the text.
+ * @param text The text to reformat
+ * @param textBefore The note content before the text, used for contextual cascade and to
+ * recognize frontmatter (which is only possible at the start of the note)
+ * @param settings The pipelines to use
+ * @param resolveNoteLink Looks up notes by URL, used to convert links into wikilinks
+ * @param noteTitle The title of the note, used by heading steps
+ * @returns The reformatted text and whether any transformations were applied
+ */
+export function reformatText(
+    text: string,
+    textBefore: string,
+    settings: { markdownSteps: MarkdownStep[], htmlSteps?: HTMLStep[] },
+    resolveNoteLink?: NoteLinkResolver,
+    noteTitle: string | null = null
+): { markdown: string, appliedTransformations: boolean } {
+    const { frontmatter, body } = textBefore === '' ? splitFrontmatter(text) : { frontmatter: '', body: text };
+    const trailingLineBreaks = (body.match(/(?:\r?\n)*$/) as RegExpMatchArray)[0];
+    const content = body.substring(0, body.length - trailingLineBreaks.length);
+
+    const contextualCascade = enabledSteps(settings.markdownSteps, 'headings').some(step => step.options.contextualCascade);
+    const contextLevel = contextualCascade ? lastHeadingLevel(textBefore) : 0;
+
+    const result = transformMarkdown(content, settings, contextLevel, false, resolveNoteLink, false, null, noteTitle);
+    return {
+        markdown: frontmatter + result.markdown + trailingLineBreaks,
+        appliedTransformations: result.appliedTransformations
+    };
+}
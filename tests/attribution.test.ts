@@ -0,0 +1,90 @@
+// Paste Reformatter - A plugin that re-formats pasted HTML text in Obsidian.
+// Copyright (C) 2025 by Keath Milligan.
+
+import { addAttribution, addFrontmatterProperty, pasteSource, renderAttribution } from '../src/attribution';
+import { reformatPaste } from '../src/pasteProcessor';
+import { createStep } from '../src/pipeline';
+
+const SOURCE = { url: 'https://www.example.com/a (b)', title: 'A [draft] post' };
+const NOW = new Date(2025, 2, 4, 9, 5);
+
+function clipboard(data: Record<string, string>): Pick<DataTransfer, 'types' | 'getData'> {
+    return { types: Object.keys(data), getData: (type: string) => data[type] ?? '' };
+}
+
+describe('pasteSource', () => {
+    test('uses the recorded URL and the page title', () => {
+        expect(pasteSource('<html><head><title>Page &amp; more</title></head><body><!-- SourceURL: https://a.com/p --></body></html>'))
+            .toEqual({ url: 'https://a.com/p', title: 'Page & more' });
+        expect(pasteSource('SourceURL:https://a.com/p\n<meta property="og:title" content="Shared"><p>Text</p>'))
+            .toEqual({ url: 'https://a.com/p', title: 'Shared' });
+        expect(pasteSource('<!-- SourceURL: https://a.com/p --><p>Text</p>')).toEqual({ url: 'https://a.com/p', title: null });
+    });
+
+    test('returns null without a source URL', () => {
+        expect(pasteSource('<title>Page</title><p>Text</p>')).toBeNull();
+    });
+});
+
+describe('renderAttribution', () => {
+    test('fills in the variables', () => {
+        expect(renderAttribution('[{{title}}]({{url}}) on {{domain}}, {{date}} {{time}}', SOURCE, 'YYYY-MM-DD', NOW))
+            .toBe('[A \\[draft\\] post](https://www.example.com/a%20%28b%29) on example.com, 2025-03-04 09:05');
+    });
+
+    test('uses formats given in the template and keeps unknown variables', () => {
+        expect(renderAttribution('{{ date:D MMMM YYYY }} {{time:h:mm a}} {{author}}', SOURCE, 'YYYY', NOW)).toBe('4 March 2025 9:05 am {{author}}');
+    });
+
+    test('uses the domain when the page title is unknown', () => {
+        expect(renderAttribution('{{title}}', { url: 'https://docs.example.org/x', title: null }, 'YYYY', NOW)).toBe('docs.example.org');
+    });
+});
+
+describe('addAttribution', () => {
+    const options = { ...createStep('attribution').options, template: '> [!info] Source\n> {{url}}\n' };
+
+    test('inserts the attribution after or before the content', () => {
+        expect(addAttribution('Text\n', options, SOURCE)).toBe('Text\n\n> [!info] Source\n> https://www.example.com/a%20%28b%29');
+        expect(addAttribution('Text', { ...options, position: 'before' }, SOURCE))
+            .toBe('> [!info] Source\n> https://www.example.com/a%20%28b%29\n\nText');
+    });
+
+    test('leaves the content alone when the template is empty', () => {
+        expect(addAttribution('Text\n', { ...options, template: '' }, SOURCE)).toBe('Text\n');
+    });
+});
+
+describe('addFrontmatterProperty', () => {
+    test('creates frontmatter when the note has none', () => {
+        expect(addFrontmatterProperty('', 'source', 'https://a.com/p#x')).toBe('---\nsource: https://a.com/p#x\n---\n');
+    });
+
+    test('adds the property to existing frontmatter', () => {
+        expect(addFrontmatterProperty('---\ntags: [a]\n---\n', 'source', 'https://a.com')).toBe('---\ntags: [a]\nsource: https://a.com\n---\n');
+        expect(addFrontmatterProperty('---\n---\n', 'source', 'a: b')).toBe('---\nsource: "a: b"\n---\n');
+    });
+
+    test('keeps an existing value', () => {
+        expect(addFrontmatterProperty('---\nsource: https://b.com\n---\n', 'source', 'https://a.com')).toBeNull();
+        expect(addFrontmatterProperty('---\n"source": x\n---\n', 'source', 'https://a.com')).toBeNull();
+        expect(addFrontmatterProperty('---\nsources: x\n---\n', 'source', 'https://a.com')).toBe('---\nsources: x\nsource: https://a.com\n---\n');
+    });
+});
+
+describe('source attribution step', () => {
+    const html = '<html><head><title>Page</title></head><body><!-- SourceURL: https://a.com/p --><p>Text</p></body></html>';
+    const step = { ...createStep('attribution'), options: { ...createStep('attribution').options, template: 'From {{title}} ({{url}})' } };
+
+    test('attributes HTML pastes with a source URL', () => {
+        const result = reformatPaste(clipboard({ 'text/html': html }), { htmlSteps: [], markdownSteps: [step] });
+        expect(result?.markdown).toBe('Text\n\nFrom Page (https://a.com/p)');
+    });
+
+    test('leaves other pastes alone', () => {
+        const settings = { htmlSteps: [], markdownSteps: [step] };
+        expect(reformatPaste(clipboard({ 'text/plain': 'Text' }), settings)?.markdown).toBe('Text');
+        expect(reformatPaste(clipboard({ 'text/html': '<p>Text</p>' }), settings)?.markdown).toBe('Text');
+        expect(reformatPaste(clipboard({ 'text/html': html }), settings, 0, true)?.markdown).toBe('Text');
+    });
+});
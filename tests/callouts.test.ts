@@ -0,0 +1,65 @@
+// Paste Reformatter - A plugin that re-formats pasted HTML text in Obsidian.
+// Copyright (C) 2025 by Keath Milligan.
+
+import { formatCalloutClasses, parseCalloutClasses } from '../src/callouts';
+import { reformatPaste } from '../src/pasteProcessor';
+import { CalloutsStep, createStep } from '../src/pipeline';
+
+function paste(html: string, step: CalloutsStep = createStep('callouts')): string | undefined {
+    const clipboard = { types: ['text/html'], getData: () => html };
+    return reformatPaste(clipboard, { htmlSteps: [step], markdownSteps: [] })?.markdown;
+}
+
+describe('callouts step', () => {
+    test('converts admonitions with their title', () => {
+        expect(paste('<div class="admonition warning"><p class="admonition-title">Mind the gap</p><p>Text</p></div>'))
+            .toBe('> [!warning] Mind the gap\n> \n> Text');
+        expect(paste('<div class="theme-admonition theme-admonition-tip alert alert--success"><div class="admonitionHeading_x"><span class="admonitionIcon_y"><svg></svg></span>Pro tip</div><div class="admonitionContent_z"><p>Text</p></div></div>'))
+            .toBe('> [!tip] Pro tip\n> \n> Text');
+    });
+
+    test('leaves out titles that just repeat the callout type', () => {
+        expect(paste('<div class="markdown-alert markdown-alert-important"><p class="markdown-alert-title"><svg></svg>Important</p><p>Text</p></div>'))
+            .toBe('> [!important]\n> \n> Text');
+        expect(paste('<div class="alert NOTE"><p class="alert-title">Note:</p><p>Text</p></div>')).toBe('> [!note]\n> \n> Text');
+    });
+
+    test('converts alerts and notes with a mapped class', () => {
+        expect(paste('<aside role="note"><h4>Related</h4><p>Text</p></aside>')).toBe('> [!note] Related\n> \n> Text');
+        expect(paste('<div class="alert alert-warning"><p>Text</p></div>')).toBe('> [!warning]\n> \n> Text');
+        expect(paste('<div class="box hint" role="note"><p>Text</p></div>')).toBe('> [!tip]\n> \n> Text');
+    });
+
+    test('leaves ordinary page markup alone', () => {
+        expect(paste('<aside>Related posts</aside><p class="summary">Short</p><div class="error"><p>Text</p></div><blockquote class="quote">Q</blockquote>'))
+            .toBe('Related posts\n\nShort\n\nText\n\n> Q');
+        expect(paste('<div class="footnote"><p>Text</p></div>')).toBe('Text');
+    });
+
+    test('keeps nested content', () => {
+        expect(paste('<div class="admonition danger"><ul><li>One</li><li>Two</li></ul><div class="admonition note"><p>Inner</p></div></div>'))
+            .toBe('> [!danger]\n> \n> -   One\n> -   Two\n> \n> > [!note]\n> > \n> > Inner');
+    });
+
+    test('converts blockquotes starting with a callout marker', () => {
+        expect(paste('<blockquote><p>[!NOTE]\nRead this.</p></blockquote>')).toBe('> [!note]\n> \n> Read this.');
+        expect(paste('<blockquote><p>[!faq]- Why <em>not</em>?<br>Because.</p><p>More</p></blockquote>'))
+            .toBe('> [!faq]- Why not?\n> \n> Because.\n> \n> More');
+        expect(paste('<blockquote><p>Just a quote [!NOTE]</p></blockquote>')).toBe('> Just a quote \\[!NOTE\\]');
+    });
+
+    test('uses the configured class mapping', () => {
+        const step = { ...createStep('callouts'), options: { classMap: parseCalloutClasses('warning: danger\nhint') } };
+        expect(paste('<div class="admonition warning"><p>Text</p></div>', step)).toBe('> [!danger]\n> \n> Text');
+        expect(paste('<div class="admonition hint"><p>Text</p></div>', step)).toBe('> [!note]\n> \n> Text');
+        expect(paste('<blockquote><p>[!WARNING] Careful</p></blockquote>', step)).toBe('> [!danger] Careful');
+    });
+});
+
+describe('parseCalloutClasses', () => {
+    test('reads one class and type per line', () => {
+        const classMap = parseCalloutClasses(' note : info \n\nbad line\nhint: tip');
+        expect(classMap).toEqual([{ className: 'note', callout: 'info' }, { className: 'hint', callout: 'tip' }]);
+        expect(formatCalloutClasses(classMap)).toBe('note: info\nhint: tip');
+    });
+});
@@ -0,0 +1,66 @@
+// Paste Reformatter - A plugin that re-formats pasted HTML text in Obsidian.
+// Copyright (C) 2025 by Keath Milligan.
+
+import { cleanCodeBlocks } from '../src/codeBlocks';
+import { reformatPaste } from '../src/pasteProcessor';
+import { createStep } from '../src/pipeline';
+
+function paste(html: string): string | undefined {
+    const clipboard = { types: ['text/html'], getData: () => html };
+    return reformatPaste(clipboard, { htmlSteps: [createStep('code-blocks')], markdownSteps: [] })?.markdown;
+}
+
+describe('code blocks step', () => {
+    test('finds the language in classes and attributes', () => {
+        expect(paste('<div class="highlight highlight-source-python"><pre><span class="pl-k">def</span> f():\n    <span class="pl-k">pass</span></pre></div>'))
+            .toBe('```python\ndef f():\n    pass\n```');
+        expect(paste('<pre class="lang-js s-code-block"><code class="hljs language-javascript">let a = 1;</code></pre>')).toBe('```javascript\nlet a = 1;\n```');
+        expect(paste('<pre class="brush: js notranslate"><code>a()</code></pre>')).toBe('```js\na()\n```');
+        expect(paste('<pre data-lang="Rust"><code>fn main() {}</code></pre>')).toBe('```rust\nfn main() {}\n```');
+        expect(paste('<div class="sourceCode"><pre class="sourceCode r"><code class="sourceCode r">x &lt;- 1</code></pre></div>')).toBe('```r\nx <- 1\n```');
+        expect(paste('<div class="highlight-text-shell-session"><pre>$ ls</pre></div>')).toBe('```shell\n$ ls\n```');
+        expect(paste('<pre class="language-plaintext"><code>text</code></pre>')).toBe('```\ntext\n```');
+    });
+
+    test('keeps the exact source text', () => {
+        expect(paste('<pre><code class="language-md"># Not a heading\n\t*a*  [b]  c\n\n</code></pre>'))
+            .toBe('```md\n# Not a heading\n\t*a*  [b]  c\n```');
+        expect(paste('<pre class="language-ts"><code><span class="token-line">const a = 1;<br></span><span class="token-line">  return;<br></span></code></pre>'))
+            .toBe('```ts\nconst a = 1;\n  return;\n```');
+        expect(paste('<pre><code><div class="cm-line">a</div><div class="cm-line">  b</div></code></pre>')).toBe('```\na\n  b\n```');
+    });
+
+    test('removes line numbers', () => {
+        expect(paste('<pre class="line-numbers language-py"><code class="language-py">a = 1\nb = 2<span class="line-numbers-rows"><span></span><span></span></span></code></pre>'))
+            .toBe('```py\na = 1\nb = 2\n```');
+        expect(paste('<table class="highlighttable"><tr><td class="linenos"><div class="linenodiv"><pre>1\n2</pre></div></td><td class="code"><div class="highlight"><pre><span></span>x = 1\ny = 2\n</pre></div></td></tr></table>'))
+            .toBe('```\nx = 1\ny = 2\n```');
+        expect(paste('<pre><code class="hljs language-go"><table class="hljs-ln"><tr><td class="hljs-ln-numbers">1</td><td class="hljs-ln-code">a</td></tr><tr><td class="hljs-ln-numbers">2</td><td class="hljs-ln-code">b</td></tr></table></code></pre>'))
+            .toBe('```go\na\nb\n```');
+    });
+
+    test('removes copy buttons and language labels', () => {
+        expect(paste('<div class="code-example"><div class="example-header"><span class="language-name">js</span><button>Copy</button></div><pre class="brush: js"><code>a()</code></pre></div>'))
+            .toBe('```js\na()\n```');
+        expect(paste('<div class="codeBlockContainer language-ts"><div class="codeBlockTitle">app.ts</div><pre><code>x</code></pre><div class="buttonGroup"><button aria-label="Copy code to clipboard"></button></div></div>'))
+            .toBe('app.ts\n\n```ts\nx\n```');
+    });
+
+    test('keeps content next to a code block', () => {
+        expect(paste('<div class="post"><pre><code class="language-js">x()</code></pre><p class="copyright">(c) 2024 ACME</p></div>'))
+            .toBe('```js\nx()\n```\n\n(c) 2024 ACME');
+        expect(paste('<div><pre class="language-js"><code>x()</code></pre><p>js</p><p>Copy</p></div>')).toBe('```js\nx()\n```\n\njs\n\nCopy');
+    });
+
+    test('keeps code blocks inside lists and quotes in place', () => {
+        expect(paste('<ul><li>Run:<div class="highlight highlight-source-shell"><pre>make\nmake install</pre></div></li></ul>'))
+            .toBe('-   Run:\n    \n    ```shell\n    make\n    make install\n    ```');
+    });
+
+    test('reports plain code blocks as unchanged', () => {
+        const doc = new DOMParser().parseFromString('<pre><code class="language-js">a()</code></pre><p>Text</p>', 'text/html');
+        expect(cleanCodeBlocks(doc)).toBe(false);
+        const highlighted = new DOMParser().parseFromString('<pre><code class="language-js"><span>a</span>()</code></pre>', 'text/html');
+        expect(cleanCodeBlocks(highlighted)).toBe(true);
+    });
+});
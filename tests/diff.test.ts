@@ -0,0 +1,51 @@
+// Paste Reformatter - A plugin that re-formats pasted HTML text in Obsidian.
+// Copyright (C) 2025 by Keath Milligan.
+
+import { diffLines } from '../src/diff';
+
+describe('diffLines', () => {
+    test('marks identical texts as unchanged', () => {
+        expect(diffLines('a\nb', 'a\nb')).toEqual([
+            { type: 'same', text: 'a' },
+            { type: 'same', text: 'b' }
+        ]);
+    });
+
+    test('reports changed lines as a removal followed by an addition', () => {
+        expect(diffLines('# Title\ntext', '## Title\ntext')).toEqual([
+            { type: 'removed', text: '# Title' },
+            { type: 'added', text: '## Title' },
+            { type: 'same', text: 'text' }
+        ]);
+    });
+
+    test('handles lines added and removed at either end', () => {
+        expect(diffLines('a\nb\n', 'b\nc')).toEqual([
+            { type: 'removed', text: 'a' },
+            { type: 'same', text: 'b' },
+            { type: 'removed', text: '' },
+            { type: 'added', text: 'c' }
+        ]);
+    });
+
+    test('compares only the lines between the common start and end', () => {
+        const shared = Array.from({ length: 5000 }, (_, i) => `line ${i}`).join('\n');
+        const lines = diffLines(`${shared}\nold\n${shared}`, `${shared}\nnew\n${shared}`);
+        expect(lines.filter(line => line.type !== 'same')).toEqual([
+            { type: 'removed', text: 'old' },
+            { type: 'added', text: 'new' }
+        ]);
+        expect(lines).toHaveLength(10002);
+    });
+
+    test('shows large changes as removed and added lines', () => {
+        const before = Array.from({ length: 1500 }, (_, i) => `a ${i}`);
+        const after = Array.from({ length: 1500 }, (_, i) => `b ${i}`);
+        const lines = diffLines(['x', ...before, 'a 0'].join('\n'), ['x', ...after, 'a 0'].join('\n'));
+        expect(lines.map(line => line.type)).toEqual(['same', ...before.map(() => 'removed'), ...after.map(() => 'added'), 'same']);
+    });
+
+    test('ignores line ending differences', () => {
+        expect(diffLines('a\r\nb', 'a\nb').every(line => line.type === 'same')).toBe(true);
+    });
+});
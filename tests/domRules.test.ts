@@ -0,0 +1,81 @@
+// Paste Reformatter - A plugin that re-formats pasted HTML text in Obsidian.
+// Copyright (C) 2025 by Keath Milligan.
+
+import { DOMRule, applyDOMRules, validateDOMRule } from '../src/domRules';
+import { transformHTML } from '../src/htmlTransformer';
+
+function apply(html: string, rules: DOMRule[]): { html: string, changed: boolean } {
+    const doc = new DOMParser().parseFromString(html, 'text/html');
+    const changed = applyDOMRules(doc, rules);
+    return { html: doc.body.innerHTML, changed };
+}
+
+describe('applyDOMRules', () => {
+    test('removes matching elements', () => {
+        expect(apply('<nav>Menu</nav><p>Text <span class="share">Share</span></p>', [
+            { selector: 'nav, .share', action: 'remove' }
+        ])).toEqual({ html: '<p>Text </p>', changed: true });
+    });
+
+    test('unwraps matching elements to their children', () => {
+        expect(apply('<p>A <span class="highlight">b <em>c</em></span> d</p>', [
+            { selector: 'span.highlight', action: 'unwrap' }
+        ]).html).toBe('<p>A b <em>c</em> d</p>');
+    });
+
+    test('replaces tags, keeping attributes, children and nested matches', () => {
+        expect(apply('<div class="a"><div>x</div></div>', [
+            { selector: 'div', action: 'replace-tag', tagName: 'P' }
+        ]).html).toBe('<p class="a"><p>x</p></p>');
+        expect(apply('<p>x</p>', [{ selector: 'p', action: 'replace-tag', tagName: 'p' }]).changed).toBe(false);
+    });
+
+    test('strips all or the listed attributes', () => {
+        expect(apply('<p style="color: red" class="x" data-id="1" data-v="2">a</p>', [
+            { selector: 'p', action: 'strip-attributes', attributes: ['style', 'data-*'] }
+        ]).html).toBe('<p class="x">a</p>');
+        expect(apply('<p style="a" class="x">a</p>', [
+            { selector: 'p', action: 'strip-attributes', attributes: [] }
+        ]).html).toBe('<p>a</p>');
+        expect(apply('<p>a</p>', [{ selector: 'p', action: 'strip-attributes' }]).changed).toBe(false);
+    });
+
+    test('applies rules in order and skips disabled and invalid rules', () => {
+        jest.spyOn(console, 'error').mockImplementation(() => undefined);
+        expect(apply('<div><span>a</span></div><aside>b</aside>', [
+            { selector: 'aside', action: 'remove', enabled: false },
+            { selector: '[[', action: 'remove' },
+            { selector: 'span', action: 'replace-tag', tagName: '' },
+            { selector: 'div', action: 'unwrap' },
+            { selector: 'body > span', action: 'replace-tag', tagName: 'strong' }
+        ]).html).toBe('<strong>a</strong><aside>b</aside>');
+    });
+
+    test('reports when no element matched', () => {
+        expect(apply('<p>a</p>', [{ selector: 'nav', action: 'remove' }])).toEqual({ html: '<p>a</p>', changed: false });
+    });
+});
+
+describe('validateDOMRule', () => {
+    test('reports empty and invalid selectors and tag names', () => {
+        expect(validateDOMRule({ selector: ' ', action: 'remove' })).toBe('Selector is empty');
+        expect(validateDOMRule({ selector: 'p[', action: 'remove' })).toBe('Invalid selector "p["');
+        expect(validateDOMRule({ selector: 'p', action: 'replace-tag' })).toBe('Tag name is empty');
+        expect(validateDOMRule({ selector: 'p', action: 'replace-tag', tagName: '<p>' })).toBe('Invalid tag name "<p>"');
+        expect(validateDOMRule({ selector: 'div > p.a', action: 'replace-tag', tagName: 'h2' })).toBeNull();
+    });
+});
+
+describe('DOM rules step', () => {
+    test('runs after HTML regex replacements', () => {
+        const result = transformHTML('<div class="ad">Buy</div><p>Text</p>', {
+            htmlSteps: [
+                { type: 'html-regex', enabled: true, options: { replacements: [{ pattern: 'class="ad"', replacement: 'class="promo"' }] } },
+                { type: 'dom-rules', enabled: true, options: { rules: [{ selector: '.promo', action: 'remove' }] } }
+            ]
+        });
+        expect(result.appliedTransformations).toBe(true);
+        expect(result.html).not.toContain('Buy');
+        expect(result.html).toContain('<p>Text</p>');
+    });
+});
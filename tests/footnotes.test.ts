@@ -0,0 +1,64 @@
+// Paste Reformatter - A plugin that re-formats pasted HTML text in Obsidian.
+// Copyright (C) 2025 by Keath Milligan.
+
+import { footnoteLabels, renumberFootnotes } from '../src/footnotes';
+import { reformatPaste } from '../src/pasteProcessor';
+import { createStep } from '../src/pipeline';
+
+function paste(html: string, noteFootnotes: string[] = []): string | undefined {
+    const clipboard = { types: ['text/html'], getData: () => html };
+    return reformatPaste(clipboard, { htmlSteps: [createStep('footnotes')], markdownSteps: [] }, 0, false, undefined, null, noteFootnotes)?.markdown;
+}
+
+const WIKIPEDIA = '<p>Paris is the capital.<sup id="cite_ref-a_1-0" class="reference"><a href="#cite_note-a-1">[1]</a></sup> It is large.<sup id="cite_ref-b_2-0" class="reference"><a href="#cite_note-b-2">[2]</a></sup><sup id="cite_ref-a_1-1" class="reference"><a href="#cite_note-a-1">[1]</a></sup></p>'
+    + '<h2>References</h2><div class="reflist"><ol class="references">'
+    + '<li id="cite_note-a-1"><span class="mw-cite-backlink">^ <a href="#cite_ref-a_1-0"><sup><i><b>a</b></i></sup></a> <a href="#cite_ref-a_1-1"><sup><i><b>b</b></i></sup></a></span> <span class="reference-text">Atlas, p. 3.</span></li>'
+    + '<li id="cite_note-b-2"><span class="mw-cite-backlink"><b><a href="#cite_ref-b_2-0">^</a></b></span> <span class="reference-text"><a href="https://example.com">Census</a> 2020.</span></li>'
+    + '</ol></div>';
+
+describe('footnotes step', () => {
+    test('converts Wikipedia references', () => {
+        expect(paste(WIKIPEDIA)).toBe('Paris is the capital.[^1] It is large.[^2][^1]\n\n## References\n\n[^1]: Atlas, p. 3.\n\n[^2]: [Census](https://example.com) 2020.');
+    });
+
+    test('converts blog and GitHub footnotes', () => {
+        expect(paste('<p>Text<sup class="footnote-ref"><a href="#fn1" id="fnref1">1</a></sup>.</p><section class="footnotes"><ol><li id="fn1"><p>First <em>note</em>.</p><p>More. <a href="#fnref1" class="footnote-backref">↩︎</a></p></li></ol></section>'))
+            .toBe('Text[^1].\n\n[^1]: First *note*. More.');
+        expect(paste('<p>A<sup><a href="#user-content-fn-x-9" id="user-content-fnref-x-9" data-footnote-ref="">1</a></sup></p><section data-footnotes=""><ol><li id="user-content-fn-x-9"><p>Note <a href="#user-content-fnref-x-9" data-footnote-backref="">↩</a></p></li></ol></section>'))
+            .toBe('A[^1]\n\n[^1]: Note');
+    });
+
+    test('converts citations and keeps uncited entries', () => {
+        expect(paste('<p>Shown before <cite class="ltx_cite">[<a href="#bib.bib2" class="ltx_ref">2</a>, <a href="#bib.bib1" class="ltx_ref">1</a>]</cite>.</p><ul class="ltx_biblist"><li id="bib.bib1">Smith 2019</li><li id="bib.bib2">Jones 2020</li><li id="bib.bib3">Lee 2021</li></ul>'))
+            .toBe('Shown before [^1][^2].\n\n[^1]: Jones 2020\n\n[^2]: Smith 2019\n\n-   Lee 2021');
+    });
+
+    test('leaves other links within the page alone', () => {
+        expect(paste('<p><a href="#History">History</a> and <a href="#x">1</a></p><h2 id="History">History</h2><ol><li><a href="#fn">[1]</a></li></ol><p id="x">Not a note</p>'))
+            .toBe('[History](#History) and [1](#x)\n\n## History\n\n1.  [\\[1\\]](#fn)\n\nNot a note');
+    });
+
+    test('leaves links to sections and words alone', () => {
+        expect(paste('<p>See <a href="#refs">refs</a> and <a href="#fn-a">note</a>.</p><section id="refs"><h2>References</h2><p>Atlas</p></section><p id="fn-a">A</p>'))
+            .toBe('See [refs](#refs) and [note](#fn-a).\n\n## References\n\nAtlas\n\nA');
+        expect(paste('<p>Text<sup><a href="#fn-a">a</a></sup></p><div id="refs"><h2>Notes</h2><p id="fn-a">A note</p></div>'))
+            .toBe('Text[^1]\n\n## Notes\n\n[^1]: A note');
+    });
+
+    test('renumbers footnotes that clash with the note', () => {
+        expect(paste(WIKIPEDIA, ['1', '2', '5'])).toBe('Paris is the capital.[^6] It is large.[^7][^6]\n\n## References\n\n[^6]: Atlas, p. 3.\n\n[^7]: [Census](https://example.com) 2020.');
+        expect(paste(WIKIPEDIA, ['note'])).toContain('capital.[^1]');
+    });
+});
+
+describe('footnote labels', () => {
+    test('finds labels outside code', () => {
+        expect(footnoteLabels('A[^1] and `[^code]`\n\n[^1]: x\n[^note]: y')).toEqual(['1', 'note']);
+    });
+
+    test('renames taken labels that are not numbers', () => {
+        expect(renumberFootnotes('See[^note] and[^3].\n\n[^note]: A\n[^3]: B', ['note', 'note-2']))
+            .toBe('See[^note-3] and[^1].\n\n[^note-3]: A\n[^1]: B');
+        expect(renumberFootnotes('A[^1]\n\n```\n[^1]\n```', ['1'])).toBe('A[^2]\n\n```\n[^1]\n```');
+    });
+});
@@ -0,0 +1,159 @@
+// Paste Reformatter - A plugin that re-formats pasted HTML text in Obsidian.
+// Copyright (C) 2025 by Keath Milligan.
+
+// Golden-file tests for the transformation pipeline.
+//
+// Every fixture in fixtures/html (captured clipboard HTML) and fixtures/markdown is run
+// through each settings combination below and compared with the expected output in
+// fixtures/expected/<fixture>/<combination>.<html|md>. To accept new output after an
+// intentional behavior change, run the tests with UPDATE_GOLDEN=1 and review the diff.
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { transformHTML } from '../src/htmlTransformer';
+import { transformMarkdown } from '../src/markdownTransformer';
+import { reformatPaste } from '../src/pasteProcessor';
+import { DEFAULT_OPTIONS, LegacyReformatOptions, ReformatOptions, migrateLegacyOptions } from '../src/settings';
+
+interface Combination {
+    name: string;
+    options: Partial<LegacyReformatOptions>; // Expressed as the flat options of the fixed pipeline, see migrateLegacyOptions
+    contextLevel?: number;
+    escapeMarkdown?: boolean;
+    html?: boolean; // Whether the combination affects the HTML stage and gets an HTML golden file
+    htmlOnly?: boolean; // Whether the combination only affects the HTML stage, so Markdown fixtures are skipped
+    fixtures?: string[]; // Limits the combination to the fixtures that exercise it
+}
+
+const COMBINATIONS: Combination[] = [
+    { name: 'default', options: {}, html: true },
+    {
+        name: 'cleanup',
+        options: { removeEmptyElements: true, stripLineBreaks: true, maxHeadingLevel: 2, cascadeHeadingLevels: true },
+        html: true
+    },
+    { name: 'capped-h3', options: { maxHeadingLevel: 3, cascadeHeadingLevels: false } },
+    { name: 'contextual-h2', options: { contextualCascade: true }, contextLevel: 2 },
+    { name: 'single-spaced', options: { convertToSingleSpaced: true } },
+    { name: 'remove-empty-lines', options: { removeEmptyLines: true } },
+    {
+        name: 'regex',
+        options: {
+            htmlRegexReplacements: [{ pattern: '\\s*(class|style)="[^"]*"', replacement: '' }],
+            markdownRegexReplacements: [{ pattern: '^(\\s*)- ', replacement: '$1* ' }]
+        },
+        html: true
+    },
+    { name: 'escaped', options: {}, escapeMarkdown: true },
+    {
+        name: 'tables',
+        options: { normalizeTables: true, tableFallback: 'html' },
+        html: true, htmlOnly: true, fixtures: ['tables', 'confluence']
+    },
+    {
+        name: 'tables-list',
+        options: { normalizeTables: true, tableFallback: 'list' },
+        html: true, htmlOnly: true, fixtures: ['tables', 'confluence']
+    },
+    { name: 'images-localize', options: { imageHandling: 'localize' }, htmlOnly: true, fixtures: ['images'] },
+    {
+        name: 'images-alt-text',
+        options: { imageHandling: 'alt-text', removeEmptyElements: true },
+        htmlOnly: true, fixtures: ['images']
+    },
+    { name: 'links', options: { stripTrackingParameters: true, unwrapRedirects: true }, fixtures: ['links'] }
+];
+
+const FIXTURES_DIR = path.join(__dirname, 'fixtures');
+const UPDATE_GOLDEN = !!process.env.UPDATE_GOLDEN;
+
+function listFixtures(dir: string, extension: string): string[] {
+    return fs.readdirSync(path.join(FIXTURES_DIR, dir))
+        .filter(file => file.endsWith(extension))
+        .map(file => file.slice(0, -extension.length))
+        .sort();
+}
+
+function readFixture(dir: string, file: string): string {
+    return fs.readFileSync(path.join(FIXTURES_DIR, dir, file), 'utf8');
+}
+
+function combinationsFor(fixture: string, filter: (combination: Combination) => boolean = () => true): [string, Combination][] {
+    return COMBINATIONS
+        .filter(c => filter(c) && (!c.fixtures || c.fixtures.includes(fixture)))
+        .map(c => [c.name, c]);
+}
+
+function optionsFor(combination: Combination): ReformatOptions {
+    return migrateLegacyOptions(combination.options);
+}
+
+function clipboard(data: Record<string, string>): Pick<DataTransfer, 'types' | 'getData'> {
+    return {
+        types: Object.keys(data),
+        getData: (format: string) => data[format] ?? ''
+    };
+}
+
+/**
+ * Compares output with its golden file, or writes the golden file when updating
+ */
+function expectGolden(fixture: string, file: string, actual: string): void {
+    const goldenPath = path.join(FIXTURES_DIR, 'expected', fixture, file);
+    if (UPDATE_GOLDEN) {
+        fs.mkdirSync(path.dirname(goldenPath), { recursive: true });
+        fs.writeFileSync(goldenPath, actual);
+        return;
+    }
+    if (!fs.existsSync(goldenPath)) {
+        throw new Error(`Missing golden file ${path.relative(FIXTURES_DIR, goldenPath)}; run with UPDATE_GOLDEN=1 to create it`);
+    }
+    expect(actual).toBe(fs.readFileSync(goldenPath, 'utf8'));
+}
+
+describe.each(listFixtures('html', '.html'))('HTML fixture %s', (fixture) => {
+    const html = readFixture('html', `${fixture}.html`);
+
+    test.each(combinationsFor(fixture, c => !!c.html))('transformHTML: %s', (name, combination) => {
+        const result = transformHTML(html, optionsFor(combination));
+        expectGolden(fixture, `${name}.html`, result.html);
+    });
+
+    test.each(combinationsFor(fixture))('reformatPaste: %s', (name, combination) => {
+        const { contextLevel, escapeMarkdown } = combination;
+        const result = reformatPaste(
+            clipboard({ 'text/html': html, 'text/plain': '' }),
+            optionsFor(combination),
+            contextLevel ?? 0,
+            escapeMarkdown ?? false
+        );
+        expect(result).not.toBeNull();
+        expectGolden(fixture, `${name}.md`, result?.markdown ?? '');
+    });
+});
+
+describe.each(listFixtures('markdown', '.md'))('Markdown fixture %s', (fixture) => {
+    const markdown = readFixture('markdown', `${fixture}.md`);
+
+    test.each(combinationsFor(fixture, c => !c.htmlOnly))('transformMarkdown: %s', (name, combination) => {
+        const { contextLevel, escapeMarkdown } = combination;
+        const result = transformMarkdown(markdown, optionsFor(combination), contextLevel ?? 0, escapeMarkdown ?? false);
+        expectGolden(fixture, `${name}.md`, result.markdown);
+    });
+
+    test('plain text pastes are treated as Markdown', () => {
+        const result = reformatPaste(clipboard({ 'text/plain': markdown }), DEFAULT_OPTIONS);
+        expect(result?.markdown).toBe(transformMarkdown(markdown, DEFAULT_OPTIONS).markdown);
+    });
+});
+
+describe('reformatPaste', () => {
+    test('returns null when the clipboard has no HTML or plain text', () => {
+        expect(reformatPaste(clipboard({ 'image/png': '' }), DEFAULT_OPTIONS)).toBeNull();
+    });
+
+    test('reports no transformations when nothing changes', () => {
+        const result = reformatPaste(clipboard({ 'text/plain': 'Just text' }), DEFAULT_OPTIONS);
+        expect(result).toEqual({ markdown: 'Just text', appliedTransformations: false, images: [] });
+    });
+});
@@ -0,0 +1,72 @@
+// Paste Reformatter - A plugin that re-formats pasted HTML text in Obsidian.
+// Copyright (C) 2025 by Keath Milligan.
+
+import { htmlToMarkdown } from 'obsidian';
+import { cleanGoogleDocs } from '../src/googleDocsCleaner';
+
+const WRAPPER = '<b style="font-weight:normal;" id="docs-internal-guid-1234">';
+
+function clean(html: string): { html: string, changed: boolean } {
+    const doc = new DOMParser().parseFromString(html, 'text/html');
+    const changed = cleanGoogleDocs(doc);
+    return { html: doc.body.innerHTML, changed };
+}
+
+function span(text: string, style: string): string {
+    return `<span style="font-size:11pt;font-weight:400;font-style:normal;text-decoration:none;vertical-align:baseline;${style}">${text}</span>`;
+}
+
+function item(text: string, level: number, listStyle = 'disc', extra = ''): string {
+    return `<li dir="ltr" style="list-style-type:${listStyle};" aria-level="${level}"${extra}><p dir="ltr" role="presentation">${span(text, '')}</p></li>`;
+}
+
+describe('cleanGoogleDocs', () => {
+    test('leaves other documents unchanged', () => {
+        const html = `<p>${span('Bold', 'font-weight:700')}</p>`;
+        expect(clean(html)).toEqual({ html, changed: false });
+    });
+
+    test('removes the wrapper and converts inline styles', () => {
+        const result = clean(`${WRAPPER}<p>${span('Bold', 'font-weight:700')} ${span('italic', 'font-style:italic')}` +
+            `${span('gone', 'text-decoration:line-through')}${span('x', 'font-weight:700;font-style:italic')}` +
+            `${span('2', 'vertical-align:super')}${span('code', "font-family:'Courier New'")}${span('plain', '')}</p></b>`);
+        expect(result.changed).toBe(true);
+        expect(result.html).toBe('<p><strong>Bold</strong> <em>italic</em><del>gone</del><strong><em>x</em></strong>' +
+            '<sup>2</sup><code>code</code>plain</p>');
+    });
+
+    test('merges adjacent runs with the same formatting', () => {
+        const result = clean(`${WRAPPER}<p>${span('Two', 'font-weight:700')}${span(' runs', 'font-weight:bold')}</p></b>`);
+        expect(result.html).toBe('<p><strong>Two runs</strong></p>');
+    });
+
+    test('does not embolden headings or whitespace', () => {
+        const result = clean(`${WRAPPER}<h2>${span('Title', 'font-weight:700')}</h2><p>${span(' ', 'font-weight:700')}</p><h3>${span('', '')}</h3></b>`);
+        expect(result.html).toBe('<h2>Title</h2><p> </p>');
+    });
+
+    test('rebuilds nested lists from item levels', () => {
+        const result = clean(`${WRAPPER}<ul>${item('a', 1)}<ul>${item('b', 2)}${item('c', 2)}</ul>${item('d', 1)}</ul></b>`);
+        expect(result.html).toBe('<ul><li dir="ltr" style="list-style-type:disc;" aria-level="1">a' +
+            '<ul><li dir="ltr" style="list-style-type:disc;" aria-level="2">b</li><li dir="ltr" style="list-style-type:disc;" aria-level="2">c</li></ul>' +
+            '</li><li dir="ltr" style="list-style-type:disc;" aria-level="1">d</li></ul>');
+    });
+
+    test('joins consecutive lists and nests numbered items from their indentation', () => {
+        const result = clean(`${WRAPPER}<ol><li style="list-style-type:decimal;margin-left:36pt">one</li></ol>` +
+            `<ul><li style="list-style-type:circle;margin-left:72pt">sub</li></ul>` +
+            `<ol><li style="list-style-type:decimal;margin-left:36pt">two</li></ol></b>`);
+        expect(htmlToMarkdown(result.html)).toBe('1.  one\n    -   sub\n2.  two');
+    });
+
+    test('converts checklists into task lists', () => {
+        const result = clean(`${WRAPPER}<ul>${item('Done', 1, 'none', ' role="checkbox" aria-checked="true"')}` +
+            `${item('Todo', 1, 'none', ' role="checkbox" aria-checked="false"')}</ul></b>`);
+        expect(htmlToMarkdown(result.html)).toBe('-   [x] Done\n-   [ ] Todo');
+    });
+
+    test('keeps checked items from being struck through', () => {
+        const result = clean(`${WRAPPER}<ul><li role="checkbox" aria-checked="true" aria-level="1"><p>${span('Done', 'text-decoration:line-through')}</p></li></ul></b>`);
+        expect(result.html).not.toContain('<del>');
+    });
+});
@@ -0,0 +1,135 @@
+// Paste Reformatter - A plugin that re-formats pasted HTML text in Obsidian.
+// Copyright (C) 2025 by Keath Milligan.
+
+import { restoreTokens } from '../src/conversionTokens';
+import { AttachmentStore, FetchedImage, ImageHandling, PastedImage, decodeDataUri, imageFileName, processImages, saveImages } from '../src/imageLocalizer';
+
+function process(html: string, handling: ImageHandling): { html: string, changed: boolean, images: PastedImage[] } {
+    const doc = new DOMParser().parseFromString(html, 'text/html');
+    const tokens: string[] = [];
+    const { changed, images } = processImages(doc, handling, tokens);
+    return { html: restoreTokens(doc.body.innerHTML, tokens), changed, images };
+}
+
+function memoryStore(existing: string[] = []): AttachmentStore & { files: Map<string, ArrayBuffer> } {
+    const files = new Map<string, ArrayBuffer>(existing.map(path => [path, new ArrayBuffer(0)]));
+    return {
+        files,
+        getAvailablePath: async fileName => {
+            let path = `attachments/${fileName}`;
+            for (let i = 1; files.has(path); i++) {
+                path = `attachments/${fileName.replace(/\.(\w+)$/, ` ${i}.$1`)}`;
+            }
+            return path;
+        },
+        exists: path => files.has(path),
+        write: async (path, data) => {
+            files.set(path, data);
+        }
+    };
+}
+
+describe('imageFileName', () => {
+    test('is deterministic and keeps the image extension', () => {
+        const name = imageFileName('https://example.com/images/photo.JPEG?size=large');
+        expect(name).toMatch(/^Pasted image [0-9a-f]{8}\.jpg$/);
+        expect(imageFileName('https://example.com/images/photo.JPEG?size=large')).toBe(name);
+        expect(imageFileName('https://example.com/images/other.jpeg')).not.toBe(name);
+    });
+
+    test('uses the MIME type of data URIs and defaults to png', () => {
+        expect(imageFileName('data:image/gif;base64,R0lGOD')).toMatch(/\.gif$/);
+        expect(imageFileName('https://example.com/render?id=1')).toMatch(/\.png$/);
+    });
+});
+
+describe('processImages', () => {
+    const html = '<p><img src="https://example.com/a.png" alt="A"> <img src="/relative.png" alt="B"></p>';
+
+    test('leaves images alone when keeping them', () => {
+        expect(process(html, 'keep')).toEqual({ html, changed: false, images: [] });
+    });
+
+    test('replaces images with their alt text or removes them', () => {
+        expect(process(html, 'alt-text').html).toBe('<p>A B</p>');
+        expect(process(html, 'remove').html).toBe('<p> </p>');
+    });
+
+    test('embeds remote and data images and skips relative sources', () => {
+        const result = process(html + '<img src="https://example.com/a.png"><img src="data:image/png;base64,AAAA">', 'localize');
+        const remote = imageFileName('https://example.com/a.png');
+        expect(result.html).toContain(`![[${remote}]]`);
+        expect(result.html).toContain('src="/relative.png"');
+        expect(result.images.map(image => image.fileName)).toEqual([remote, imageFileName('data:image/png;base64,AAAA')]);
+        expect(result.images[0].alt).toBe('A');
+        expect(result.changed).toBe(true);
+    });
+
+    test('reports no change when no image could be localized', () => {
+        const relative = '<p><img src="/relative.png" alt="B"></p>';
+        expect(process(relative, 'localize')).toEqual({ html: relative, changed: false, images: [] });
+        expect(process('<p>No images</p>', 'remove').changed).toBe(false);
+    });
+});
+
+describe('decodeDataUri', () => {
+    test('decodes base64 and percent-encoded data', () => {
+        expect(Array.from(new Uint8Array(decodeDataUri('data:image/png;base64,AQID')!))).toEqual([1, 2, 3]);
+        expect(Array.from(new Uint8Array(decodeDataUri('data:image/svg+xml,%3Csvg%2F%3E')!))).toEqual([0x3c, 0x73, 0x76, 0x67, 0x2f, 0x3e]);
+    });
+
+    test('returns null for malformed URIs', () => {
+        jest.spyOn(console, 'error').mockImplementation(() => undefined);
+        expect(decodeDataUri('not a data uri')).toBeNull();
+        expect(decodeDataUri('data:image/png;base64,***')).toBeNull();
+    });
+});
+
+describe('saveImages', () => {
+    const remote: PastedImage = { source: 'https://example.com/a.png', fileName: 'Pasted image 00000001.png', alt: 'A' };
+    const embedded: PastedImage = { source: 'data:image/png;base64,AQID', fileName: 'Pasted image 00000002.png', alt: '' };
+
+    test('fetches remote images and decodes data URIs into the attachment folder', async () => {
+        const fetched: string[] = [];
+        const fetcher = async (url: string): Promise<FetchedImage> => {
+            fetched.push(url);
+            return { data: new Uint8Array([9]).buffer };
+        };
+        const store = memoryStore();
+
+        expect(await saveImages([remote, embedded], fetcher, store)).toEqual({ failed: [], renamed: [] });
+        expect(fetched).toEqual([remote.source]);
+        expect(Array.from(store.files.keys())).toEqual([`attachments/${remote.fileName}`, `attachments/${embedded.fileName}`]);
+    });
+
+    test('reuses attachments saved by an earlier paste', async () => {
+        const fetcher = jest.fn();
+        const store = memoryStore([`attachments/${remote.fileName}`]);
+
+        expect(await saveImages([remote], fetcher, store)).toEqual({ failed: [], renamed: [] });
+        expect(fetcher).not.toHaveBeenCalled();
+        expect(store.files.size).toBe(1);
+    });
+
+    test('uses the extension of the format the server reports', async () => {
+        const image: PastedImage = { source: 'https://cdn.example.com/photo?format=auto', fileName: 'Pasted image 00000003.png', alt: '' };
+        const fetcher = async (): Promise<FetchedImage> => ({ data: new Uint8Array([9]).buffer, contentType: 'image/jpeg; charset=binary' });
+        const store = memoryStore();
+
+        const expected = { failed: [], renamed: [{ image, fileName: 'Pasted image 00000003.jpg' }] };
+        expect(await saveImages([image], fetcher, store)).toEqual(expected);
+        expect(Array.from(store.files.keys())).toEqual(['attachments/Pasted image 00000003.jpg']);
+        // Pasting the image again reuses the attachment
+        expect(await saveImages([image], jest.fn(), store)).toEqual(expected);
+        expect(store.files.size).toBe(1);
+    });
+
+    test('reports images that could not be saved', async () => {
+        jest.spyOn(console, 'error').mockImplementation(() => undefined);
+        const fetcher = async (): Promise<FetchedImage> => {
+            throw new Error('offline');
+        };
+
+        expect(await saveImages([remote, embedded], fetcher, memoryStore())).toEqual({ failed: [remote], renamed: [] });
+    });
+});
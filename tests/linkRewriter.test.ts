@@ -0,0 +1,92 @@
+// Paste Reformatter - A plugin that re-formats pasted HTML text in Obsidian.
+// Copyright (C) 2025 by Keath Milligan.
+
+import {
+    DEFAULT_TRACKING_PARAMETERS, createNoteLinkResolver, frontmatterUrls, rewriteLinks, stripTrackingParameters, unwrapRedirect, urlKey
+} from '../src/linkRewriter';
+
+const ALL = {
+    stripTrackingParameters: true,
+    trackingParameters: DEFAULT_TRACKING_PARAMETERS,
+    unwrapRedirects: true,
+    linkToNotes: true
+};
+
+describe('stripTrackingParameters', () => {
+    test('removes matching parameters and keeps the rest verbatim', () => {
+        expect(stripTrackingParameters('https://a.com/p?utm_source=x&q=a%20b&fbclid=1#top', DEFAULT_TRACKING_PARAMETERS))
+            .toBe('https://a.com/p?q=a%20b#top');
+        expect(stripTrackingParameters('https://a.com/p?UTM_Medium=x', DEFAULT_TRACKING_PARAMETERS)).toBe('https://a.com/p');
+    });
+
+    test('leaves URLs without tracking parameters unchanged', () => {
+        expect(stripTrackingParameters('https://a.com/p?id=1&ref', DEFAULT_TRACKING_PARAMETERS)).toBe('https://a.com/p?id=1&ref');
+        expect(stripTrackingParameters('mailto:me@a.com?utm_source=x', DEFAULT_TRACKING_PARAMETERS)).toBe('mailto:me@a.com?utm_source=x');
+    });
+
+    test('uses the configured parameter list', () => {
+        expect(stripTrackingParameters('https://a.com/?ref=feed&utm_source=x', ['ref'])).toBe('https://a.com/?utm_source=x');
+    });
+});
+
+describe('unwrapRedirect', () => {
+    test('unwraps Google and Outlook redirectors', () => {
+        expect(unwrapRedirect('https://www.google.com/url?sa=t&url=https%3A%2F%2Fexample.com%2Fa')).toBe('https://example.com/a');
+        expect(unwrapRedirect('https://eur01.safelinks.protection.outlook.com/?url=https%3A%2F%2Fexample.com&data=1'))
+            .toBe('https://example.com');
+    });
+
+    test('ignores other URLs and non-web destinations', () => {
+        expect(unwrapRedirect('https://example.com/url?q=https://other.com')).toBe('https://example.com/url?q=https://other.com');
+        expect(unwrapRedirect('https://www.google.com/url?q=javascript:alert(1)')).toBe('https://www.google.com/url?q=javascript:alert(1)');
+    });
+});
+
+describe('note links', () => {
+    test('urlKey ignores scheme, www, fragment and trailing slash', () => {
+        expect(urlKey('http://www.Example.com/a/#x')).toBe(urlKey('https://example.com/a'));
+        expect(urlKey('https://example.com/a?b=1')).not.toBe(urlKey('https://example.com/a'));
+        expect(urlKey('not a url')).toBeNull();
+    });
+
+    test('frontmatterUrls reads string and list properties', () => {
+        expect(frontmatterUrls({ source: 'https://a.com', url: ['https://b.com', 'notes'], other: 'https://c.com' }))
+            .toEqual(['https://a.com', 'https://b.com']);
+        expect(frontmatterUrls(undefined)).toEqual([]);
+    });
+
+    test('resolver prefers the first note with a URL', () => {
+        const resolve = createNoteLinkResolver([
+            { linktext: 'First', urls: ['https://a.com/page'] },
+            { linktext: 'Second', urls: ['https://a.com/page/'] }
+        ]);
+        expect(resolve('http://www.a.com/page#intro')).toBe('First');
+        expect(resolve('https://a.com/other')).toBeNull();
+    });
+});
+
+describe('rewriteLinks', () => {
+    const resolve = createNoteLinkResolver([{ linktext: 'Reading/Pasting', urls: ['https://example.com/pasting'] }]);
+
+    test('converts links to noted pages into wikilinks', () => {
+        expect(rewriteLinks('See [the article](https://example.com/pasting?utm_source=x "Title").', ALL, resolve))
+            .toBe('See [[Reading/Pasting|the article]].');
+        expect(rewriteLinks('<https://example.com/pasting> and https://example.com/pasting.', ALL, resolve))
+            .toBe('[[Reading/Pasting]] and [[Reading/Pasting]].');
+    });
+
+    test('keeps Markdown links for images and unsafe link text', () => {
+        expect(rewriteLinks('![img](https://example.com/pasting) [a|b](https://example.com/pasting)', ALL, resolve))
+            .toBe('![img](https://example.com/pasting) [a|b](https://example.com/pasting)');
+    });
+
+    test('cleans bare URLs with escaped underscores', () => {
+        expect(rewriteLinks('Visit https://a.com/?utm\\_source=x&id=1, then leave.', ALL)).toBe('Visit https://a.com/?id=1, then leave.');
+    });
+
+    test('does nothing when all link options are disabled', () => {
+        const markdown = '[a](https://a.com/?utm_source=x)';
+        expect(rewriteLinks(markdown, { ...ALL, stripTrackingParameters: false, unwrapRedirects: false, linkToNotes: false }, resolve))
+            .toBe(markdown);
+    });
+});
@@ -0,0 +1,76 @@
+// Paste Reformatter - A plugin that re-formats pasted HTML text in Obsidian.
+// Copyright (C) 2025 by Keath Milligan.
+
+import { ListFormatOptions, normalizeLists } from '../src/listFormatter';
+import { transformMarkdown } from '../src/markdownTransformer';
+import { createStep } from '../src/pipeline';
+
+const KEEP: ListFormatOptions = createStep('lists').options;
+
+function format(markdown: string, options: Partial<ListFormatOptions>): string {
+    return normalizeLists(markdown, { ...KEEP, ...options });
+}
+
+describe('normalizeLists', () => {
+    test('leaves lists unchanged by default', () => {
+        const markdown = '-   one\n    *   two\n\n3.  three\n7.  four';
+        expect(format(markdown, {})).toBe(markdown);
+    });
+
+    test('changes bullet markers but not numbers', () => {
+        expect(format('*   one\n    +   two\n1.  three', { bulletMarker: '-' })).toBe('-   one\n    -   two\n1.  three');
+    });
+
+    test('indents nested items with tabs or spaces', () => {
+        const markdown = '-   one\n    -   two\n        -   three\n-   four';
+        expect(format(markdown, { indentation: 'tab' })).toBe('- one\n\t- two\n\t\t- three\n- four');
+        expect(format(markdown, { indentation: 'spaces', indentSize: 2 })).toBe('- one\n  - two\n    - three\n- four');
+    });
+
+    test('re-indents lines belonging to an item', () => {
+        const markdown = '1.  one\n\n    more about one\n\n    -   nested\n\n        more about nested\n\nAfter';
+        expect(format(markdown, { indentation: 'tab' })).toBe('1. one\n\n\tmore about one\n\n\t- nested\n\n\t\tmore about nested\n\nAfter');
+    });
+
+    test('renumbers ordered lists from their first number', () => {
+        expect(format('3. a\n3. b\n   1. c\n   1. d\n3. e', { renumber: true })).toBe('3. a\n4. b\n   1. c\n   2. d\n5. e');
+    });
+
+    test('restarts numbering after other content', () => {
+        expect(format('1. a\n1. b\n\nText\n\n1. c\n1. d', { renumber: true })).toBe('1. a\n2. b\n\nText\n\n1. c\n2. d');
+        expect(format('1. a\n# Heading\n1. b', { renumber: true })).toBe('1. a\n# Heading\n1. b');
+    });
+
+    test('makes lists tight or loose', () => {
+        expect(format('- a\n\n- b\n\n\n- c\n\nText', { spacing: 'tight' })).toBe('- a\n- b\n- c\n\nText');
+        expect(format('Text\n\n- a\n- b\n  - c', { spacing: 'loose' })).toBe('Text\n\n- a\n\n- b\n\n  - c');
+    });
+
+    test('formats lists in blockquotes', () => {
+        expect(format('> *   a\n>     *   b\n\n- c', { bulletMarker: '-', indentation: 'spaces', indentSize: 2 }))
+            .toBe('> - a\n>   - b\n\n- c');
+        expect(format('> - a\n>\n> - b', { spacing: 'tight' })).toBe('> - a\n> - b');
+    });
+
+    test('converts checkboxes into tasks', () => {
+        expect(format('-   \\[ \\] open\n-   \\[x\\] done\n-   ☑ glyph', { convertCheckboxes: true }))
+            .toBe('-   [ ] open\n-   [x] done\n-   [x] glyph');
+        expect(format('☐ first\n✓ second\n[ ]', { convertCheckboxes: true, bulletMarker: '*' })).toBe('* [ ] first\n* [x] second\n* [ ]');
+    });
+
+    test('leaves horizontal rules and emphasis alone', () => {
+        expect(format('* * *\n\n*emphasis*\n\n- - -', { bulletMarker: '+', indentation: 'tab' })).toBe('* * *\n\n*emphasis*\n\n- - -');
+    });
+
+    test('keeps code blocks in list items', () => {
+        const markdown = '1. a\n\n    ```\n    1. code\n    ```\n\n1. b';
+        const options = { markdownSteps: [{ ...createStep('lists'), options: { ...KEEP, renumber: true } }] };
+        expect(transformMarkdown(markdown, options).markdown).toBe('1. a\n\n    ```\n    1. code\n    ```\n\n2. b');
+    });
+
+    test('ends the list at a code block that is not indented', () => {
+        const markdown = '1. a\n\n```\ncode\n```\n\n1. b';
+        const options = { markdownSteps: [{ ...createStep('lists'), options: { ...KEEP, renumber: true } }] };
+        expect(transformMarkdown(markdown, options).markdown).toBe(markdown);
+    });
+});
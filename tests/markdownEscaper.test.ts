@@ -0,0 +1,63 @@
+// Paste Reformatter - A plugin that re-formats pasted HTML text in Obsidian.
+// Copyright (C) 2025 by Keath Milligan.
+
+import { ESCAPED_SYNTAX, EscapedSyntax, escapeMarkdownSyntax } from '../src/markdownEscaper';
+import { transformMarkdown } from '../src/markdownTransformer';
+
+function except(...families: EscapedSyntax[]): EscapedSyntax[] {
+    return ESCAPED_SYNTAX.filter(syntax => !families.includes(syntax));
+}
+
+describe('escapeMarkdownSyntax', () => {
+    test('escapes block syntax at the start of lines', () => {
+        expect(escapeMarkdownSyntax('# Title\n- item\n  2. next\n> quote\n> - quoted item\n---\nText\n===')).toBe(
+            '\\# Title\n\\- item\n  2\\. next\n\\> quote\n\\> \\- quoted item\n\\---\nText\n\\=\\=\\=');
+        expect(escapeMarkdownSyntax('#tag and 1. mid-line - text > more')).toBe('\\#tag and 1. mid-line - text > more');
+    });
+
+    test('escapes inline syntax', () => {
+        expect(escapeMarkdownSyntax('**b** _i_ ~~s~~ `c` [l](u) a|b <b> &amp;'))
+            .toBe('\\*\\*b\\*\\* \\_i\\_ \\~\\~s\\~\\~ \\`c\\` \\[l](u) a\\|b \\<b> \\&amp;');
+    });
+
+    test('escapes Obsidian syntax', () => {
+        expect(escapeMarkdownSyntax('[[Note]] ![[image.png]] ==hi== %%note%% #tag $x^2$ text ^block-1'))
+            .toBe('\\[\\[Note]] !\\[\\[image.png]] \\=\\=hi\\=\\= \\%\\%note\\%\\% \\#tag \\$x^2\\$ text \\^block-1');
+        expect(escapeMarkdownSyntax('Issue #42, C# and a = b')).toBe('Issue \\#42, C# and a = b');
+    });
+
+    test('escapes backslashes instead of escaping twice', () => {
+        expect(escapeMarkdownSyntax('a\\*b c\\d end\\')).toBe('a\\\\\\*b c\\d end\\\\');
+        expect(escapeMarkdownSyntax('\\_', [])).toBe('\\\\_');
+    });
+
+    test('leaves out bare URLs', () => {
+        expect(escapeMarkdownSyntax('See https://example.com/a_b*c#d_e.')).toBe('See https://example.com/a_b*c#d_e.');
+        expect(escapeMarkdownSyntax('https://example.com/?a\\_b')).toBe('https://example.com/?a\\\\\\_b');
+    });
+
+    test('keeps indented lines from becoming code', () => {
+        expect(escapeMarkdownSyntax('-   item\n\n    more *text*\n\n\t# code')).toBe('\\-   item\n\n   more \\*text\\*\n\n   \\# code');
+        expect(escapeMarkdownSyntax('-   item\n\n    more *text*\n\ntext\n\n    # code', except('code')))
+            .toBe('\\-   item\n\n    more \\*text\\*\n\ntext\n\n    # code');
+    });
+
+    test('escapes only the selected syntax', () => {
+        expect(escapeMarkdownSyntax('# **Title** with [[Link]]', ['wikilinks'])).toBe('# **Title** with \\[\\[Link]]');
+        expect(escapeMarkdownSyntax('- ==a== *b*', except('highlights'))).toBe('\\- ==a== \\*b\\*');
+    });
+
+    test('keeps the content of syntax that is not escaped', () => {
+        expect(escapeMarkdownSyntax('*a* `x_y\\*` $\\{a_1\\}$', except('code', 'math'))).toBe('\\*a\\* `x_y\\*` $\\{a_1\\}$');
+        expect(escapeMarkdownSyntax('```\n# not a heading\n```\n# heading', except('code'))).toBe('```\n# not a heading\n```\n\\# heading');
+        expect(escapeMarkdownSyntax('[[my_note|the_note]] #my_tag [a_b](x_y.md) <a href="x_y">', except('wikilinks', 'tags', 'links', 'html')))
+            .toBe('[[my_note|the_note]] #my_tag [a\\_b](x_y.md) <a href="x_y">');
+        expect(escapeMarkdownSyntax('%%a_b%% *c*', except('comments'))).toBe('%%a_b%% \\*c\\*');
+    });
+
+    test('is used when pasting with escaped Markdown', () => {
+        const settings = { markdownSteps: [], escapedSyntax: ['headings'] as EscapedSyntax[] };
+        expect(transformMarkdown('# A *b*\n> c', settings, 0, true).markdown).toBe('\\# A *b*\n> c');
+        expect(transformMarkdown('# A *b*\n> c', { markdownSteps: [] }, 0, true).markdown).toBe('\\# A \\*b\\*\n\\> c');
+    });
+});
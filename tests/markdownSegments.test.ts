@@ -0,0 +1,68 @@
+// Paste Reformatter - A plugin that re-formats pasted HTML text in Obsidian.
+// Copyright (C) 2025 by Keath Milligan.
+
+import { protectMarkdown, restoreMarkdown } from '../src/markdownSegments';
+import { transformMarkdown } from '../src/markdownTransformer';
+import { migrateLegacyOptions } from '../src/settings';
+
+function regions(markdown: string): string[] {
+    return protectMarkdown(markdown).regions;
+}
+
+describe('protectMarkdown', () => {
+    test('protects fenced code blocks as a single line', () => {
+        const markdown = 'Intro\n\n```python\n# comment\n\n\nx = 1\n```\nAfter';
+        const result = protectMarkdown(markdown);
+        expect(result.regions).toEqual(['```python\n# comment\n\n\nx = 1\n```']);
+        expect(result.text.split('\n')).toHaveLength(4);
+        expect(result.text).not.toContain('#');
+    });
+
+    test('protects tilde fences and unclosed fences', () => {
+        expect(regions('~~~\n# a\n~~~')).toEqual(['~~~\n# a\n~~~']);
+        expect(regions('text\n```\n# never closed')).toEqual(['```\n# never closed']);
+    });
+
+    test('protects indented code but not list continuations', () => {
+        expect(regions('Text\n\n    code line\n    more\n\nText')).toEqual(['    code line\n    more']);
+        expect(regions('- item\n\n    continuation')).toEqual([]);
+    });
+
+    test('protects math blocks, comments and inline code', () => {
+        expect(regions('$$\n# x\n$$')).toEqual(['$$\n# x\n$$']);
+        expect(regions('a <!-- note --> b')).toEqual(['<!-- note -->']);
+        expect(regions('use `x` and ``a ` b``')).toEqual(['`x`', '``a ` b``']);
+    });
+
+    test('does not treat unmatched backticks as code', () => {
+        expect(regions('a ` b\n\nc ` d')).toEqual([]);
+    });
+
+    test('restores the original content', () => {
+        const markdown = 'Text `code`\n\n```\nblock `inline`\n```\n<!-- `x` -->';
+        const result = protectMarkdown(markdown);
+        expect(restoreMarkdown(result.text, result.regions)).toBe(markdown);
+    });
+});
+
+describe('transformMarkdown code protection', () => {
+    const markdown = '# Title\n\n```bash\n# comment\n```';
+
+    test('does not re-level comments in code blocks', () => {
+        const result = transformMarkdown(markdown, migrateLegacyOptions({ maxHeadingLevel: 2 }));
+        expect(result.markdown).toBe('## Title\n\n```bash\n# comment\n```');
+    });
+
+    test('applies regex replacements to code only when opted in', () => {
+        const rule = { pattern: 'comment', replacement: 'note' };
+        expect(transformMarkdown(markdown, migrateLegacyOptions({ markdownRegexReplacements: [rule] })).markdown)
+            .toBe(markdown);
+        const result = transformMarkdown(markdown, migrateLegacyOptions({ markdownRegexReplacements: [{ ...rule, applyToCode: true }] }));
+        expect(result).toEqual({ markdown: '# Title\n\n```bash\n# note\n```', appliedTransformations: true });
+    });
+
+    test('keeps blank lines inside code when removing empty lines', () => {
+        const result = transformMarkdown('a\n\n```\nx\n\ny\n```', migrateLegacyOptions({ removeEmptyLines: true }));
+        expect(result.markdown).toBe('a\n```\nx\n\ny\n```');
+    });
+});
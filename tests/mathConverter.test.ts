@@ -0,0 +1,68 @@
+// Paste Reformatter - A plugin that re-formats pasted HTML text in Obsidian.
+// Copyright (C) 2025 by Keath Milligan.
+
+import { mathMLToLaTeX } from '../src/mathConverter';
+import { reformatPaste } from '../src/pasteProcessor';
+import { createStep } from '../src/pipeline';
+
+function paste(html: string): string | undefined {
+    const clipboard = { types: ['text/html'], getData: () => html };
+    return reformatPaste(clipboard, { htmlSteps: [createStep('math')], markdownSteps: [] })?.markdown;
+}
+
+function mathML(html: string): string {
+    const doc = new DOMParser().parseFromString(html, 'text/html');
+    return mathMLToLaTeX(doc.querySelector('math') as Element);
+}
+
+describe('math step', () => {
+    test('uses the TeX annotation of Wikipedia math', () => {
+        expect(paste('<p>Energy <span class="mwe-math-element"><span class="mwe-math-mathml-inline mwe-math-mathml-a11y" style="display: none;"><math alttext="{\\displaystyle E=mc^{2}}"><semantics><mrow><mi>E</mi><mo>=</mo><mi>m</mi><msup><mi>c</mi><mn>2</mn></msup></mrow><annotation encoding="application/x-tex">{\\displaystyle E=mc^{2}}</annotation></semantics></math></span><img src="x.svg" class="mwe-math-fallback-image-inline" alt="{\\displaystyle E=mc^{2}}"></span> is mass.</p>'))
+            .toBe('Energy $E=mc^{2}$ is mass.');
+        expect(paste('<dl><dd><span class="mwe-math-element"><img src="x.svg" class="mwe-math-fallback-image-display" alt="{\\displaystyle a_{n}}+{b}"></span></dd></dl>'))
+            .toBe('$${\\displaystyle a_{n}}+{b}$$');
+    });
+
+    test('uses the TeX source of KaTeX and MathJax', () => {
+        expect(paste('<p>So <span class="katex"><span class="katex-mathml"><math><semantics><mrow><mi>x</mi></mrow><annotation encoding="application/x-tex">x_*</annotation></semantics></math></span><span class="katex-html" aria-hidden="true"><span class="mord">x∗</span></span></span> holds.</p>'))
+            .toBe('So $x_*$ holds.');
+        expect(paste('<p>Then</p><span class="katex-display"><span class="katex"><span class="katex-mathml"><math display="block"><semantics><mi>y</mi><annotation encoding="application/x-tex">\\int_0^1 f\n</annotation></semantics></math></span></span></span>'))
+            .toBe('Then\n\n$$\\int_0^1 f$$');
+        expect(paste('<p>If <span class="MathJax_Preview" style="color: inherit;"></span><span class="MathJax" id="MathJax-Element-1-Frame"><span class="math">a²</span></span><script type="math/tex" id="MathJax-Element-1">a^2</script> then</p><div class="MathJax_Display"><span class="MathJax" id="MathJax-Element-2-Frame">∑</span></div><script type="math/tex; mode=display" id="MathJax-Element-2">\\sum_i a_i</script>'))
+            .toBe('If $a^2$ then\n\n$$\\sum_i a_i$$');
+    });
+
+    test('converts MathML without TeX source', () => {
+        expect(paste('<p>Root <mjx-container class="MathJax" jax="CHTML"><mjx-math aria-hidden="true">√2</mjx-math><mjx-assistive-mml><math><msqrt><mn>2</mn></msqrt></math></mjx-assistive-mml></mjx-container></p>'))
+            .toBe('Root $\\sqrt{2}$');
+        expect(paste('<math display="block"><mfrac><mn>1</mn><mi>n</mi></mfrac></math>')).toBe('$$\\frac{1}{n}$$');
+        expect(paste('<p><math alttext="x+1"><mi>x</mi><mo>+</mo><mn>1</mn></math></p>')).toBe('$x+1$');
+    });
+
+    test('uses the alt text of equation images', () => {
+        expect(paste('<p>Area <img class="latex" src="https://s0.wp.com/latex.php?latex=%5Cpi+r%5E2" alt="\\pi r^2"> and <img src="photo.png" alt="a photo"></p>'))
+            .toBe('Area $\\pi r^2$ and ![a photo](photo.png)');
+        expect(paste('<p><img class="tex" src="x.png" alt="$\\alpha$"></p>')).toBe('$\\alpha$');
+    });
+
+    test('keeps math inside lists on one line', () => {
+        expect(paste('<ul><li>Sum: <span class="katex-display"><span class="katex"><math><semantics><mi>s</mi><annotation encoding="application/x-tex">\\begin{aligned} a &amp;= b \\\\\n c &amp;= d \\end{aligned}</annotation></semantics></math></span></span></li></ul>'))
+            .toBe('-   Sum:\n    \n    $$\\begin{aligned} a &= b \\\\ c &= d \\end{aligned}$$');
+    });
+});
+
+describe('mathMLToLaTeX', () => {
+    test('converts scripts, fractions, roots and symbols', () => {
+        expect(mathML('<math><msubsup><mi>x</mi><mi>i</mi><mn>2</mn></msubsup><mo>≤</mo><mi>α</mi><mi>β</mi></math>')).toBe('x_i^2\\leq\\alpha\\beta');
+        expect(mathML('<math><msup><mrow><mo>(</mo><mi>a</mi><mo>+</mo><mi>b</mi><mo>)</mo></mrow><mn>10</mn></msup></math>')).toBe('{(a+b)}^{10}');
+        expect(mathML('<math><mroot><mi>x</mi><mn>3</mn></mroot><mo>⁢</mo><mi>sin</mi><mo>⁡</mo><mi>θ</mi></math>')).toBe('\\sqrt[3]{x}\\sin\\theta');
+        expect(mathML('<math><mi>π</mi><mi>r</mi><mtext>area</mtext></math>')).toBe('\\pi r\\text{area}');
+    });
+
+    test('converts limits, accents and tables', () => {
+        expect(mathML('<math><munderover><mo>∑</mo><mrow><mi>i</mi><mo>=</mo><mn>1</mn></mrow><mi>n</mi></munderover><mi>i</mi></math>')).toBe('\\sum_{i=1}^n i');
+        expect(mathML('<math><mover><mi>v</mi><mo>→</mo></mover><mo>,</mo><mover><mi>x</mi><mo>¯</mo></mover></math>')).toBe('\\vec{v},\\bar{x}');
+        expect(mathML('<math><mrow><mo>[</mo><mtable><mtr><mtd><mn>1</mn></mtd><mtd><mn>0</mn></mtd></mtr><mtr><mtd><mn>0</mn></mtd><mtd><mn>1</mn></mtd></mtr></mtable><mo>]</mo></mrow></math>'))
+            .toBe('[\\begin{matrix} 1 & 0 \\\\ 0 & 1 \\end{matrix}]');
+    });
+});
@@ -0,0 +1,30 @@
+// Paste Reformatter - A plugin that re-formats pasted HTML text in Obsidian.
+// Copyright (C) 2025 by Keath Milligan.
+
+// Stand-in for the parts of the Obsidian API used by the transformation pipeline.
+// The obsidian package only ships type declarations, so tests resolve "obsidian" to this module.
+
+import * as moment from 'moment';
+import * as TurndownService from 'turndown';
+import { gfm } from 'turndown-plugin-gfm';
+
+// Obsidian bundles moment.js and exposes it as part of its API
+export { moment };
+
+/**
+ * Approximates Obsidian's htmlToMarkdown, which is built on Turndown with the GFM plugin
+ * @param html The HTML to convert
+ * @returns The converted Markdown
+ */
+export function htmlToMarkdown(html: string): string {
+    const turndown = new TurndownService({
+        headingStyle: 'atx',
+        hr: '---',
+        bulletListMarker: '-',
+        codeBlockStyle: 'fenced',
+        emDelimiter: '*',
+        strongDelimiter: '**'
+    });
+    turndown.use(gfm);
+    return turndown.turndown(html);
+}
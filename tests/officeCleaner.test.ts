@@ -0,0 +1,52 @@
+// Paste Reformatter - A plugin that re-formats pasted HTML text in Obsidian.
+// Copyright (C) 2025 by Keath Milligan.
+
+import { htmlToMarkdown } from 'obsidian';
+import { cleanOffice } from '../src/officeCleaner';
+
+function clean(html: string): { html: string, changed: boolean } {
+    const doc = new DOMParser().parseFromString(html, 'text/html');
+    const changed = cleanOffice(doc);
+    return { html: doc.body.innerHTML.trim(), changed };
+}
+
+function listParagraph(text: string, marker: string, level: number, list = 'l0'): string {
+    return `<p class="MsoListParagraphCxSpMiddle" style="margin-left:${level * 0.5}in;text-indent:-.25in;mso-list:${list} level${level} lfo1">` +
+        `<!--[if !supportLists]--><span style="font-family:Symbol"><span style="mso-list:Ignore">${marker}` +
+        `<span style="font:7.0pt 'Times New Roman'">&nbsp;&nbsp;&nbsp; </span></span></span><!--[endif]-->${text}<o:p></o:p></p>\n`;
+}
+
+describe('cleanOffice', () => {
+    test('leaves other documents unchanged', () => {
+        const html = '<p style="color: red">Text<!-- note --></p>';
+        expect(clean(html)).toEqual({ html, changed: false });
+    });
+
+    test('removes Office markup, styles and spacer paragraphs', () => {
+        const result = clean('<div class="WordSection1"><!--StartFragment--><p class="MsoNormal" style="mso-margin-top-alt:auto;color:red" lang="EN-US">' +
+            '<span style="mso-fareast-font-family:Calibri">Text</span><o:p></o:p></p>' +
+            '<p class="MsoNormal"><o:p>&nbsp;</o:p></p><style>p.MsoNormal {}</style><!--EndFragment--></div>');
+        expect(result).toEqual({ html: '<div class="WordSection1"><p style="color:red">Text</p></div>', changed: true });
+    });
+
+    test('converts bulleted paragraphs into nested lists', () => {
+        const result = clean(listParagraph('one', '·', 1) + listParagraph('sub', 'o', 2) + listParagraph('two', '·', 1) + '<p class="MsoNormal">After</p>');
+        expect(result.html.replace(/\s+</g, '<')).toBe('<ul><li>one<ul><li>sub</li></ul></li><li>two</li></ul><p>After</p>');
+    });
+
+    test('converts numbered paragraphs into ordered lists', () => {
+        const result = clean(listParagraph('first', '1.', 1) + listParagraph('nested', 'a)', 2) + listParagraph('second', '2.', 1));
+        expect(htmlToMarkdown(result.html)).toBe('1.  first\n    1.  nested\n2.  second');
+    });
+
+    test('uses the indentation when the list level is missing', () => {
+        const result = clean('<p class="MsoListParagraph" style="margin-left:1.0in"><span style="mso-list:Ignore">-</span>deep</p>' +
+            '<p class="MsoListParagraph" style="margin-left:.5in"><span style="mso-list:Ignore">-</span>top</p>');
+        expect(result.html).toBe('<ul><li>deep</li><li>top</li></ul>');
+    });
+
+    test('starts a new list after other content', () => {
+        const result = clean(listParagraph('a', '·', 1) + '<p class="MsoNormal">Between</p>' + listParagraph('b', '·', 1));
+        expect(result.html).toBe('<ul><li>a</li></ul>\n<p>Between</p><ul><li>b</li></ul>');
+    });
+});
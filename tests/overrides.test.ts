@@ -0,0 +1,108 @@
+// Paste Reformatter - A plugin that re-formats pasted HTML text in Obsidian.
+// Copyright (C) 2025 by Keath Milligan.
+
+import { applyOverrides, formatOverrides, matchingFolders, noteOverrides, parseOverrides } from '../src/overrides';
+import { HeadingsStep, createStep, defaultHTMLSteps, defaultMarkdownSteps } from '../src/pipeline';
+import { ReformatOptions } from '../src/settings';
+
+function options(): ReformatOptions {
+    return { htmlSteps: defaultHTMLSteps(), markdownSteps: defaultMarkdownSteps() };
+}
+
+function headings(options: ReformatOptions): HeadingsStep {
+    return options.markdownSteps.find(step => step.type === 'headings') as HeadingsStep;
+}
+
+describe('parseOverrides', () => {
+    test('parses values and expands step types into their enabled setting', () => {
+        expect(parseOverrides('headings.maxHeadingLevel: 3\n\nremove-empty-lines: true\nlists.bulletMarker: "-"')).toEqual({
+            overrides: { 'headings.maxHeadingLevel': 3, 'remove-empty-lines.enabled': true, 'lists.bulletMarker': '-' },
+            errors: []
+        });
+    });
+
+    test('reports lines that are not valid overrides', () => {
+        const { overrides, errors } = parseOverrides('headings.maxHeadingLevel: high\nunknown.x: 1\nheadings.missing: 1\nmarkdown-regex.replacements: 1\nlists\nlists: 1');
+        expect(overrides).toEqual({});
+        expect(errors).toEqual([
+            'headings.maxHeadingLevel must be a number',
+            'unknown is not a step type',
+            'missing is not an option of the Headings step that can be overridden',
+            'replacements is not an option of the Markdown regex replacements step that can be overridden',
+            '"lists" is not a "key: value" pair',
+            'lists.enabled must be true or false'
+        ]);
+    });
+
+    test('reports values that are not one of the choices or out of range', () => {
+        const { overrides, errors } = parseOverrides('headings.titleHeading: Bold\nimages.handling: save\nheadings.maxHeadingLevel: 9\nheadings.maxHeadingLevel: 0\nlists.indentSize: 2.5\nlists.indentSize: 2\nattribution.position: before');
+        expect(overrides).toEqual({ 'lists.indentSize': 2, 'attribution.position': 'before' });
+        expect(errors).toEqual([
+            'headings.titleHeading must be one of "keep", "bold", "remove"',
+            'images.handling must be one of "keep", "localize", "alt-text", "remove"',
+            'headings.maxHeadingLevel must be a whole number from 1 to 6',
+            'headings.maxHeadingLevel must be a whole number from 1 to 6',
+            'lists.indentSize must be a whole number of at least 1'
+        ]);
+    });
+
+    test('formats overrides as they are parsed', () => {
+        const text = 'headings.maxHeadingLevel: 3\nremove-empty-lines.enabled: false';
+        expect(formatOverrides(parseOverrides(text).overrides)).toBe(text);
+    });
+});
+
+describe('noteOverrides', () => {
+    test('reads flat and nested properties', () => {
+        expect(noteOverrides({ headings: { maxHeadingLevel: 2, enabled: true }, 'remove-empty-lines': false, 'lists.bulletMarker': 5 })).toEqual({
+            overrides: { 'headings.maxHeadingLevel': 2, 'headings.enabled': true, 'remove-empty-lines.enabled': false },
+            errors: ['lists.bulletMarker must be a string']
+        });
+    });
+
+    test('rejects values that are not one of the choices', () => {
+        expect(noteOverrides({ headings: { titleHeading: 'Bold' }, 'lists.bulletMarker': '-' })).toEqual({
+            overrides: { 'lists.bulletMarker': '-' },
+            errors: ['headings.titleHeading must be one of "keep", "bold", "remove"']
+        });
+    });
+
+    test('ignores notes without the property', () => {
+        expect(noteOverrides(undefined)).toEqual({ overrides: {}, errors: [] });
+        expect(noteOverrides('headings')).toEqual({ overrides: {}, errors: ['The paste-reformatter property is not a list of settings'] });
+    });
+});
+
+describe('matchingFolders', () => {
+    test('finds the folders of a note from the outermost', () => {
+        const rules = [{ folder: 'Work/Meetings/', overrides: {} }, { folder: 'Work', overrides: {} }, { folder: 'Work/Meet', overrides: {} }, { folder: '/', overrides: {} }];
+        expect(matchingFolders(rules, 'Work/Meetings/Standup.md').map(rule => rule.folder)).toEqual(['/', 'Work', 'Work/Meetings/']);
+        expect(matchingFolders(rules, 'Research/Paper.md').map(rule => rule.folder)).toEqual(['/']);
+    });
+});
+
+describe('applyOverrides', () => {
+    test('layers overrides and records the layer that supplied each value', () => {
+        const base = options();
+        const result = applyOverrides(base, [
+            { layer: 'folder', name: 'Meetings', overrides: { 'headings.maxHeadingLevel': 3, 'remove-empty-lines.enabled': true } },
+            { layer: 'note', name: 'Standup', overrides: { 'headings.maxHeadingLevel': 2 } }
+        ]);
+
+        expect(headings(result.options).options.maxHeadingLevel).toBe(2);
+        expect(result.options.markdownSteps.find(step => step.type === 'remove-empty-lines')?.enabled).toBe(true);
+        expect(result.overridden).toEqual([
+            { key: 'headings.maxHeadingLevel', value: 2, layer: 'note', name: 'Standup' },
+            { key: 'remove-empty-lines.enabled', value: true, layer: 'folder', name: 'Meetings' }
+        ]);
+        // The base settings are left alone
+        expect(headings(base).options.maxHeadingLevel).toBe(1);
+    });
+
+    test('skips invalid overrides and step types that are not in the pipeline', () => {
+        const base = { htmlSteps: [], markdownSteps: [createStep('headings')] };
+        const result = applyOverrides(base, [{ layer: 'note', name: 'Note', overrides: { 'headings.maxHeadingLevel': 'three', 'headings.titleHeading': 'Bold', 'lists.enabled': false } }]);
+        expect(result.options).toEqual(base);
+        expect(result.overridden).toEqual([]);
+    });
+});
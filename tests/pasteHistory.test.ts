@@ -0,0 +1,57 @@
+// Paste Reformatter - A plugin that re-formats pasted HTML text in Obsidian.
+// Copyright (C) 2025 by Keath Milligan.
+
+import { LastPaste, findPastedText, rawPasteText, replaceInPaste, snapshotClipboard } from '../src/pasteHistory';
+
+function clipboard(data: Record<string, string>): Pick<DataTransfer, 'types' | 'getData'> {
+    return { types: Object.keys(data), getData: (type: string) => data[type] ?? '' };
+}
+
+describe('snapshotClipboard', () => {
+    test('copies the HTML and plain text', () => {
+        const data: Record<string, string> = { 'text/html': '<p>a</p>', 'text/plain': 'a', 'image/png': 'x' };
+        const snapshot = snapshotClipboard(clipboard(data));
+        data['text/html'] = '';
+        expect(snapshot.types).toEqual(['text/html', 'text/plain']);
+        expect(snapshot.getData('text/html')).toBe('<p>a</p>');
+        expect(snapshot.getData('image/png')).toBe('');
+    });
+});
+
+describe('rawPasteText', () => {
+    const html = '<h1>Title</h1><p><b>Bold</b> text</p>';
+
+    test('converts HTML the way a regular paste does', () => {
+        expect(rawPasteText(clipboard({ 'text/html': html, 'text/plain': 'Title\nBold text' }), 'default')).toBe('# Title\n\n**Bold** text');
+        expect(rawPasteText(clipboard({ 'text/plain': '# Text' }), 'default')).toBe('# Text');
+    });
+
+    test('uses the plain text, or else the text of the HTML', () => {
+        expect(rawPasteText(clipboard({ 'text/html': html, 'text/plain': 'Title\nBold text' }), 'plain-text')).toBe('Title\nBold text');
+        expect(rawPasteText(clipboard({ 'text/html': html }), 'plain-text')).toBe('TitleBold text');
+    });
+});
+
+describe('findPastedText', () => {
+    const paste = (markdown: string, offset: number): LastPaste => ({ filePath: 'a.md', clipboard: clipboard({}), markdown, offset });
+
+    test('finds the occurrence closest to where the text was inserted', () => {
+        expect(findPastedText('x\nPasted\nPasted\n', paste('Pasted', 9))).toBe(9);
+        expect(findPastedText('---\nsource: a\n---\nPasted', paste('Pasted', 0))).toBe(18);
+    });
+
+    test('returns null when the note no longer contains the text', () => {
+        expect(findPastedText('Edited', paste('Pasted', 0))).toBeNull();
+    });
+});
+
+describe('replaceInPaste', () => {
+    test('keeps the paste findable after an image embed is renamed', () => {
+        const paste: LastPaste = { filePath: 'a.md', clipboard: clipboard({}), markdown: 'Text\n\n![[image.png]]\n\n![[image.png]]', offset: 2 };
+        const note = 'x\nText\n\n![[image.jpg]]\n\n![[image.jpg]]';
+        expect(findPastedText(note, paste)).toBeNull();
+        const renamed = replaceInPaste(paste, '![[image.png]]', '![[image.jpg]]');
+        expect(renamed.markdown).toBe('Text\n\n![[image.jpg]]\n\n![[image.jpg]]');
+        expect(findPastedText(note, renamed)).toBe(2);
+    });
+});
@@ -0,0 +1,127 @@
+// Paste Reformatter - A plugin that re-formats pasted HTML text in Obsidian.
+// Copyright (C) 2025 by Keath Milligan.
+
+import { transformHTML } from '../src/htmlTransformer';
+import { transformMarkdown } from '../src/markdownTransformer';
+import { HTMLStep, HeadingsStep, MarkdownStep, createStep, defaultHTMLSteps, defaultMarkdownSteps } from '../src/pipeline';
+import { DEFAULT_OPTIONS, SETTINGS_VERSION, loadSettingsData, migrateLegacyOptions } from '../src/settings';
+
+function markdownRegex(pattern: string, replacement: string): MarkdownStep {
+    return { type: 'markdown-regex', enabled: true, options: { replacements: [{ pattern, replacement }] } };
+}
+
+function htmlRegex(pattern: string, replacement: string): HTMLStep {
+    return { type: 'html-regex', enabled: true, options: { replacements: [{ pattern, replacement }] } };
+}
+
+describe('Markdown pipeline', () => {
+    const headings: MarkdownStep = { ...createStep('headings'), options: { ...createStep('headings').options, maxHeadingLevel: 2, cascadeHeadingLevels: true, contextualCascade: false } };
+
+    test('runs steps in order', () => {
+        const before = transformMarkdown('# A', { markdownSteps: [markdownRegex('^## ', '#### '), headings] });
+        const after = transformMarkdown('# A', { markdownSteps: [headings, markdownRegex('^## ', '#### ')] });
+        expect(before.markdown).toBe('## A');
+        expect(after.markdown).toBe('#### A');
+    });
+
+    test('runs duplicated steps with their own options', () => {
+        const result = transformMarkdown('a b', { markdownSteps: [markdownRegex('a', 'c'), markdownRegex('c', 'd')] });
+        expect(result).toEqual({ markdown: 'd b', appliedTransformations: true });
+    });
+
+    test('skips disabled steps', () => {
+        const result = transformMarkdown('a', { markdownSteps: [{ ...markdownRegex('a', 'b'), enabled: false }] });
+        expect(result).toEqual({ markdown: 'a', appliedTransformations: false });
+    });
+
+    test('does not adjust headings when escaping', () => {
+        const result = transformMarkdown('# A', { markdownSteps: [headings] }, 0, true);
+        expect(result.markdown).toBe('\\# A');
+    });
+});
+
+describe('headings step', () => {
+    const headings = (options: Partial<HeadingsStep['options']>): MarkdownStep => ({ ...createStep('headings'), options: { ...createStep('headings').options, ...options } });
+    const adjust = (markdown: string, options: Partial<HeadingsStep['options']>, contextLevel = 0, noteTitle: string | null = null) =>
+        transformMarkdown(markdown, { markdownSteps: [headings(options)] }, contextLevel, false, undefined, false, null, noteTitle).markdown;
+
+    test('closes gaps between heading levels', () => {
+        expect(adjust('# A\n### B\n##### C\n### D\n## E', { closeLevelGaps: true })).toBe('# A\n## B\n### C\n## D\n## E');
+        expect(adjust('## A\n#### B', { closeLevelGaps: true, maxHeadingLevel: 3 })).toBe('### A\n#### B');
+    });
+
+    test('clamps headings pushed beyond H6 or turns them into bold paragraphs', () => {
+        expect(adjust('# A\n### B\n###### C ##', { maxHeadingLevel: 2 })).toBe('## A\n#### B\n###### C ##');
+        expect(adjust('# A\n### B\n###### C ##', { maxHeadingLevel: 2, overflowToBold: true })).toBe('## A\n#### B\n**C**');
+        expect(adjust('## A\n##### B', { overflowToBold: true }, 3)).toBe('#### A\n**B**');
+    });
+
+    test('strips manual numbering', () => {
+        expect(adjust('# 1. Intro\n## 2.3.1 Setup\n## A.1 Appendix\n## 2025 Plans', { stripNumbering: true }))
+            .toBe('# Intro\n## Setup\n## Appendix\n## 2025 Plans');
+        expect(adjust('## 3 Results', {})).toBe('## 3 Results');
+        expect(adjust('## A. Smith\n## B.2. Setup', { stripNumbering: true })).toBe('## A. Smith\n## Setup');
+    });
+
+    test('removes or demotes a leading H1 that repeats the note title', () => {
+        expect(adjust('# My *Note*\n\nText\n## Part', { titleHeading: 'remove' }, 0, 'My note')).toBe('Text\n## Part');
+        expect(adjust('# My Note\n\nText', { titleHeading: 'bold' }, 0, 'My Note')).toBe('**My Note**\n\nText');
+    });
+
+    test('keeps the H1 when it is not a lone leading title', () => {
+        expect(adjust('# Other\n\nText', { titleHeading: 'remove' }, 0, 'My Note')).toBe('# Other\n\nText');
+        expect(adjust('# My Note\n\n# More', { titleHeading: 'remove' }, 0, 'My Note')).toBe('# My Note\n\n# More');
+        expect(adjust('Intro\n# My Note', { titleHeading: 'remove' }, 0, 'My Note')).toBe('Intro\n# My Note');
+        expect(adjust('# My Note', { titleHeading: 'remove' })).toBe('# My Note');
+    });
+});
+
+describe('HTML pipeline', () => {
+    test('regex steps see the result of earlier document steps', () => {
+        const steps: HTMLStep[] = [createStep('strip-line-breaks'), htmlRegex('<br>', 'BR')];
+        expect(transformHTML('<p>a<br>b</p>', { htmlSteps: steps }).html).not.toContain('BR');
+
+        const reversed: HTMLStep[] = [htmlRegex('<br>', 'BR'), createStep('strip-line-breaks')];
+        expect(transformHTML('<p>a<br>b</p>', { htmlSteps: reversed }).html).toContain('aBRb');
+    });
+});
+
+describe('settings migration', () => {
+    test('legacy defaults migrate to the default pipelines', () => {
+        expect(migrateLegacyOptions({})).toEqual(DEFAULT_OPTIONS);
+        expect(DEFAULT_OPTIONS).toEqual({ htmlSteps: defaultHTMLSteps(), markdownSteps: defaultMarkdownSteps() });
+    });
+
+    test('legacy settings and profiles are migrated', () => {
+        const settings = loadSettingsData({
+            pasteOverride: false,
+            maxHeadingLevel: 3,
+            removeEmptyLines: true,
+            markdownRegexReplacements: [{ pattern: 'a', replacement: 'b' }],
+            profiles: [{ name: 'Docs', matchRules: [], normalizeTables: true, tableFallback: 'list' }]
+        });
+
+        expect(settings.pasteOverride).toBe(false);
+        expect(settings.showPasteNotifications).toBe(true);
+        expect(settings).not.toHaveProperty('maxHeadingLevel');
+        expect(settings.markdownSteps.find(step => step.type === 'headings')?.options).toMatchObject({ maxHeadingLevel: 3 });
+        expect(settings.markdownSteps.find(step => step.type === 'remove-empty-lines')?.enabled).toBe(true);
+        expect(settings.markdownSteps.find(step => step.type === 'markdown-regex')?.options)
+            .toEqual({ replacements: [{ pattern: 'a', replacement: 'b' }] });
+        expect(settings.profiles[0].name).toBe('Docs');
+        expect(settings.profiles[0].htmlSteps.find(step => step.type === 'normalize-tables'))
+            .toEqual({ type: 'normalize-tables', enabled: true, options: { fallback: 'list' } });
+    });
+
+    test('pipeline settings are loaded as saved', () => {
+        const htmlSteps: HTMLStep[] = [createStep('remove-empty-elements')];
+        const markdownSteps: MarkdownStep[] = [];
+        const settings = loadSettingsData({ settingsVersion: SETTINGS_VERSION, htmlSteps, markdownSteps, profiles: [] });
+        expect(settings.htmlSteps).toEqual(htmlSteps);
+        expect(settings.markdownSteps).toEqual([]);
+    });
+
+    test('missing data loads the defaults', () => {
+        expect(loadSettingsData(null)).toMatchObject({ ...DEFAULT_OPTIONS, pasteOverride: true, profiles: [] });
+    });
+});
@@ -0,0 +1,111 @@
+// Paste Reformatter - A plugin that re-formats pasted HTML text in Obsidian.
+// Copyright (C) 2025 by Keath Milligan.
+
+import { reformatPaste } from '../src/pasteProcessor';
+import { createStep, defaultMarkdownSteps } from '../src/pipeline';
+import { PlainTextOptions, formatPlainText } from '../src/plainTextDetector';
+
+const ALL: PlainTextOptions = { tables: true, code: true, structuredData: true };
+
+function clipboard(data: Record<string, string>): Pick<DataTransfer, 'types' | 'getData'> {
+    return { types: Object.keys(data), getData: (type: string) => data[type] ?? '' };
+}
+
+describe('formatPlainText', () => {
+    test('converts tab-separated data into a table', () => {
+        expect(formatPlainText('Name\tQty\r\nApples\t3\r\nPipe | fruit\t"1\n2"\r\n', ALL))
+            .toBe('| Name | Qty |\n| --- | --- |\n| Apples | 3 |\n| Pipe \\| fruit | 1<br>2 |');
+    });
+
+    test('converts comma-separated data into a table', () => {
+        expect(formatPlainText('id,name\n1,"Smith, J."\n2,', ALL)).toBe('| id | name |\n| --- | --- |\n| 1 | Smith, J. |\n| 2 |  |');
+    });
+
+    test('leaves prose with commas unchanged', () => {
+        const text = 'We met in Paris, where it rained all week long and nobody minded.\nThen we left, tired.';
+        expect(formatPlainText(text, ALL)).toBe(text);
+        expect(formatPlainText('Apples, pears', ALL)).toBe('Apples, pears');
+        expect(formatPlainText('Hello, world\nGoodbye, moon', ALL)).toBe('Hello, world\nGoodbye, moon');
+    });
+
+    test('leaves Markdown with commas unchanged', () => {
+        expect(formatPlainText('- apples, pears\n- plums, figs', ALL)).toBe('- apples, pears\n- plums, figs');
+        expect(formatPlainText('# Fruit, veg\n> apples, pears', ALL)).toBe('# Fruit, veg\n> apples, pears');
+    });
+
+    test('does not treat indentation with tabs as a column', () => {
+        expect(formatPlainText('\t- first item\n\t- second item', ALL)).toBe('\t- first item\n\t- second item');
+        expect(formatPlainText('\tx := 1\n\ty := 2', ALL)).toBe('```go\n\tx := 1\n\ty := 2\n```');
+        expect(formatPlainText('\tQ1\tQ2\nApples\t3\t4', ALL)).toBe('|  | Q1 | Q2 |\n| --- | --- | --- |\n| Apples | 3 | 4 |');
+    });
+
+    test('leaves lists whose items end like code unchanged', () => {
+        const list = '- Alice: call vendor;\n- Bob: review PR;\n- Carol: ship';
+        expect(formatPlainText(list, ALL)).toBe(list);
+    });
+
+    test('puts source code in a code block with a guessed language', () => {
+        expect(formatPlainText('def greet(name):\n    print(f"Hello {name}")\n', ALL))
+            .toBe('```python\ndef greet(name):\n    print(f"Hello {name}")\n```');
+        expect(formatPlainText('const add = (a, b) => {\n    return a + b;\n};', ALL))
+            .toBe('```javascript\nconst add = (a, b) => {\n    return a + b;\n};\n```');
+        expect(formatPlainText('SELECT id, name\nFROM users\nWHERE active = 1;', ALL))
+            .toBe('```sql\nSELECT id, name\nFROM users\nWHERE active = 1;\n```');
+    });
+
+    test('puts terminal sessions and logs in a code block', () => {
+        expect(formatPlainText('$ npm test\n\n> jest\nTests: 3 passed', ALL)).toBe('```shell\n$ npm test\n\n> jest\nTests: 3 passed\n```');
+        expect(formatPlainText('2025-01-02 10:00:01 INFO started\n2025-01-02 10:00:02 ERROR failed', ALL))
+            .toBe('```\n2025-01-02 10:00:01 INFO started\n2025-01-02 10:00:02 ERROR failed\n```');
+    });
+
+    test('uses a longer fence for code containing backticks', () => {
+        expect(formatPlainText('const fence = "```";\nconsole.log(fence);', ALL))
+            .toBe('````javascript\nconst fence = "```";\nconsole.log(fence);\n````');
+    });
+
+    test('pretty-prints JSON', () => {
+        expect(formatPlainText('{"a":1,"b":[true,null]}', ALL)).toBe('```json\n{\n  "a": 1,\n  "b": [\n    true,\n    null\n  ]\n}\n```');
+        expect(formatPlainText('{"id":12345678901234567890}', ALL)).toBe('```json\n{"id":12345678901234567890}\n```');
+        expect(formatPlainText('[x] done', ALL)).toBe('[x] done');
+    });
+
+    test('puts YAML with structure in a code block', () => {
+        expect(formatPlainText('server:\n  port: 80\n  hosts:\n    - a', ALL)).toBe('```yaml\nserver:\n  port: 80\n  hosts:\n    - a\n```');
+        expect(formatPlainText('From: Ann\nTo: Bob\nSubject: Hi', ALL)).toBe('From: Ann\nTo: Bob\nSubject: Hi');
+    });
+
+    test('leaves Markdown and prose unchanged', () => {
+        const markdown = '# Notes\n\n- One item\n- Another item\n\n```js\nconst a = 1;\n```';
+        expect(formatPlainText(markdown, ALL)).toBe(markdown);
+        expect(formatPlainText('Just a sentence.\nAnd another one.', ALL)).toBe('Just a sentence.\nAnd another one.');
+    });
+
+    test('leaves prose with parentheses, calls and times unchanged', () => {
+        for (const text of ['I think (maybe)\nyou are right (probably)', 'Call foo() first.\nThen call bar() after.', 'Meeting at 10:00:00 today\n10:30:00 lunch']) {
+            expect(formatPlainText(text, ALL)).toBe(text);
+        }
+        expect(formatPlainText('10:00:01 INFO started\n10:00:02 [ERROR] failed', ALL)).toBe('```\n10:00:01 INFO started\n10:00:02 [ERROR] failed\n```');
+    });
+
+    test('only recognizes the enabled kinds of content', () => {
+        expect(formatPlainText('a\tb\nc\td', { ...ALL, tables: false })).toBe('a\tb\nc\td');
+        expect(formatPlainText('{"a":1}', { ...ALL, structuredData: false })).toBe('{"a":1}');
+        expect(formatPlainText('$ ls\nfile.txt', { ...ALL, code: false })).toBe('$ ls\nfile.txt');
+    });
+});
+
+describe('plain text detection step', () => {
+    test('applies to plain text pastes only', () => {
+        const settings = { htmlSteps: [], markdownSteps: defaultMarkdownSteps() };
+        expect(reformatPaste(clipboard({ 'text/plain': 'a\tb\nc\td' }), settings)?.markdown).toBe('| a | b |\n| --- | --- |\n| c | d |');
+        expect(reformatPaste(clipboard({ 'text/html': '<p>a</p>', 'text/plain': 'a\tb\nc\td' }), settings)?.markdown).toBe('a');
+    });
+
+    test('is skipped when escaping Markdown or when disabled', () => {
+        const step = { ...createStep('plain-text'), enabled: false };
+        expect(reformatPaste(clipboard({ 'text/plain': '{"a":1}' }), { htmlSteps: [], markdownSteps: [step] })?.markdown).toBe('{"a":1}');
+        const settings = { htmlSteps: [], markdownSteps: [createStep('plain-text')] };
+        expect(reformatPaste(clipboard({ 'text/plain': '{"a":1}' }), settings, 0, true)?.markdown).toBe('{"a":1}');
+    });
+});
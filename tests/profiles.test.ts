@@ -0,0 +1,67 @@
+// Paste Reformatter - A plugin that re-formats pasted HTML text in Obsidian.
+// Copyright (C) 2025 by Keath Milligan.
+
+import { ProfileMatchRule, detectClipboardSource, matchesRule, selectProfile } from '../src/profiles';
+
+function profile(name: string, ...matchRules: ProfileMatchRule[]): { name: string, matchRules: ProfileMatchRule[] } {
+    return { name, matchRules };
+}
+
+describe('detectClipboardSource', () => {
+    test('reads the source URL from the clipboard header or comment', () => {
+        expect(detectClipboardSource('Version:0.9\nSourceURL:https://example.com/page\n<html><body><p>a</p></body></html>').sourceUrl)
+            .toBe('https://example.com/page');
+        expect(detectClipboardSource('<html><body><!--StartFragment--><!-- SourceURL: https://example.com/doc --><p>a</p><!--EndFragment--></body></html>').sourceUrl)
+            .toBe('https://example.com/doc');
+        expect(detectClipboardSource('<p>a</p>').sourceUrl).toBeNull();
+    });
+
+    test('detects applications from their markup and generator meta tag', () => {
+        expect(detectClipboardSource('<meta charset="utf-8"><b id="docs-internal-guid-1234"><p>a</p></b>').generators).toEqual(['google-docs']);
+        expect(detectClipboardSource('<html xmlns:o="urn:schemas-microsoft-com:office:office"><meta name="Generator" content="Microsoft Word 15"><p class="MsoNormal">a</p></html>').generators)
+            .toEqual(['microsoft-office', 'Microsoft Word 15']);
+        expect(detectClipboardSource('<meta name="generator" content="Hugo 0.120"><p>a</p>').generators).toEqual(['Hugo 0.120']);
+        expect(detectClipboardSource('<p>a</p>').generators).toEqual([]);
+    });
+});
+
+describe('matchesRule', () => {
+    const html = 'SourceURL:https://docs.example.com/a\n<b id="docs-internal-guid-1"><p>Hello</p></b>';
+    const source = detectClipboardSource(html);
+
+    test('tests each kind of rule case-insensitively', () => {
+        expect(matchesRule({ type: 'source-url', pattern: 'DOCS\\.example' }, source, html)).toBe(true);
+        expect(matchesRule({ type: 'generator', pattern: '^google-docs$' }, source, html)).toBe(true);
+        expect(matchesRule({ type: 'html', pattern: '<p>hello' }, source, html)).toBe(true);
+        expect(matchesRule({ type: 'source-url', pattern: 'github' }, source, html)).toBe(false);
+        expect(matchesRule({ type: 'source-url', pattern: '.' }, detectClipboardSource('<p>a</p>'), '<p>a</p>')).toBe(false);
+    });
+
+    test('does not match empty or invalid patterns', () => {
+        jest.spyOn(console, 'error').mockImplementation(() => undefined);
+        expect(matchesRule({ type: 'html', pattern: '' }, source, html)).toBe(false);
+        expect(() => matchesRule({ type: 'html', pattern: '([' }, source, html)).not.toThrow();
+        expect(matchesRule({ type: 'html', pattern: '([' }, source, html)).toBe(false);
+    });
+});
+
+describe('selectProfile', () => {
+    const profiles = [
+        profile('Broken', { type: 'html', pattern: '(' }),
+        profile('Docs', { type: 'generator', pattern: 'google-docs' }),
+        profile('Example', { type: 'source-url', pattern: 'example\\.com' }),
+        profile('Anything', { type: 'html', pattern: '.' })
+    ];
+
+    test('selects the first profile with a matching rule', () => {
+        jest.spyOn(console, 'error').mockImplementation(() => undefined);
+        expect(selectProfile(profiles, 'SourceURL:https://example.com/a\n<b id="docs-internal-guid-1">a</b>')?.name).toBe('Docs');
+        expect(selectProfile(profiles, 'SourceURL:https://example.com/a\n<p>a</p>')?.name).toBe('Example');
+        expect(selectProfile(profiles, '<p>a</p>')?.name).toBe('Anything');
+        expect(selectProfile(profiles.slice(0, 3), '<p>a</p>')).toBeNull();
+    });
+
+    test('uses the default profile for plain text pastes', () => {
+        expect(selectProfile(profiles, '')).toBeNull();
+    });
+});
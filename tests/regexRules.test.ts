@@ -0,0 +1,104 @@
+// Paste Reformatter - A plugin that re-formats pasted HTML text in Obsidian.
+// Copyright (C) 2025 by Keath Milligan.
+
+import { transformHTML } from '../src/htmlTransformer';
+import { transformMarkdown } from '../src/markdownTransformer';
+import { RegexReplacement } from '../src/pipeline';
+import { compileRule, decodeReplacement, testRules, validateRule } from '../src/regexRules';
+
+describe('compileRule', () => {
+    test('always replaces every match and adds the rule flags', () => {
+        const regex = compileRule({ pattern: '^a.b', replacement: '', flags: 'ims' });
+        expect(regex.flags).toBe('gims');
+        expect('x\nA\nB'.replace(regex, 'c')).toBe('x\nc');
+    });
+
+    test('rejects unknown and repeated flags', () => {
+        expect(() => compileRule({ pattern: 'a', replacement: '', flags: 'g' })).toThrow(SyntaxError);
+        expect(() => compileRule({ pattern: 'a', replacement: '', flags: 'ii' })).toThrow('Invalid flag "i"');
+    });
+});
+
+describe('validateRule', () => {
+    test('reports empty and invalid patterns', () => {
+        expect(validateRule({ pattern: '', replacement: '' })).toBe('Pattern is empty');
+        expect(validateRule({ pattern: '(a', replacement: '' })).toMatch(/Invalid regular expression/);
+        expect(validateRule({ pattern: 'a', replacement: '', flags: 'x' })).toMatch(/Invalid flag "x"/);
+    });
+
+    test('accepts valid rules', () => {
+        expect(validateRule({ pattern: '(a)', replacement: '$1', flags: 'iu' })).toBeNull();
+    });
+});
+
+describe('decodeReplacement', () => {
+    test('decodes escape sequences', () => {
+        expect(decodeReplacement('a\\nb\\tc\\\\d')).toBe('a\nb\tc\\d');
+        expect(decodeReplacement('\\r\\n')).toBe('\r\n');
+    });
+});
+
+describe('testRules', () => {
+    test('splits the input into matches and records each rule output', () => {
+        const [first, second] = testRules('one two one', [
+            { pattern: 'one', replacement: '1' },
+            { pattern: 'two', replacement: '2' }
+        ], 'html');
+        expect(first.matchCount).toBe(2);
+        expect(first.segments).toEqual([
+            { text: 'one', match: true },
+            { text: ' two ', match: false },
+            { text: 'one', match: true }
+        ]);
+        expect(first.output).toBe('1 two 1');
+        expect(second.output).toBe('1 2 1');
+    });
+
+    test('passes the content through disabled and invalid rules', () => {
+        const [disabled, invalid] = testRules('abc', [
+            { pattern: 'a', replacement: 'x', enabled: false },
+            { pattern: '[', replacement: 'x' }
+        ], 'html');
+        expect(disabled).toMatchObject({ skipped: true, error: null, matchCount: 0, output: 'abc' });
+        expect(invalid.skipped).toBe(false);
+        expect(invalid.error).toMatch(/Invalid regular expression/);
+        expect(invalid.output).toBe('abc');
+    });
+
+    test('protects code from Markdown rules unless they apply to code', () => {
+        const input = 'a `a` a';
+        const [prose, code] = testRules(input, [
+            { pattern: 'a', replacement: 'b' },
+            { pattern: 'a', replacement: 'c', applyToCode: true }
+        ], 'markdown');
+        expect(prose.matchCount).toBe(2);
+        expect(prose.output).toBe('b `a` b');
+        expect(code.matchCount).toBe(1);
+        expect(code.output).toBe('b `c` b');
+    });
+
+    test('does not loop on empty matches', () => {
+        const [result] = testRules('ab', [{ pattern: '', replacement: '-' }], 'html');
+        expect(result.error).toBe('Pattern is empty');
+        const [lookahead] = testRules('ab', [{ pattern: '(?=b)', replacement: '-' }], 'html');
+        expect(lookahead.matchCount).toBe(1);
+        expect(lookahead.output).toBe('a-b');
+    });
+});
+
+describe('rules in the pipeline', () => {
+    const rules: RegexReplacement[] = [
+        { pattern: 'a', replacement: 'x', enabled: false, name: 'Disabled' },
+        { pattern: 'B', replacement: 'y', flags: 'i' }
+    ];
+
+    test('Markdown replacements skip disabled rules and use flags', () => {
+        const result = transformMarkdown('ab', { markdownSteps: [{ type: 'markdown-regex', enabled: true, options: { replacements: rules } }] });
+        expect(result).toEqual({ markdown: 'ay', appliedTransformations: true });
+    });
+
+    test('HTML replacements skip disabled rules and use flags', () => {
+        const result = transformHTML('<p>ab</p>', { htmlSteps: [{ type: 'html-regex', enabled: true, options: { replacements: rules } }] });
+        expect(result.html).toContain('<p>ay</p>');
+    });
+});
@@ -0,0 +1,194 @@
+// Paste Reformatter - A plugin that re-formats pasted HTML text in Obsidian.
+// Copyright (C) 2025 by Keath Milligan.
+
+import { transformHTML } from '../src/htmlTransformer';
+import { createStep, defaultHTMLSteps } from '../src/pipeline';
+import { PRESETS } from '../src/presets';
+import {
+    DEFAULT_SETTINGS, PasteReformmatterSettings, SETTINGS_VERSION, loadSettingsData, migrateSettingsData, settingsDataVersion
+} from '../src/settings';
+import { exportSettings, importSettings } from '../src/settingsTransfer';
+
+function settings(): PasteReformmatterSettings {
+    return loadSettingsData({
+        settingsVersion: SETTINGS_VERSION,
+        htmlSteps: [createStep('html-regex')],
+        markdownSteps: [{ type: 'markdown-regex', enabled: true, options: { replacements: [{ pattern: 'a', replacement: 'b', name: 'Team rule' }] } }],
+        pasteOverride: false,
+        profiles: [{ name: 'Docs', matchRules: [{ type: 'generator', pattern: 'google-docs' }], htmlSteps: [], markdownSteps: [] }]
+    });
+}
+
+describe('settings versions', () => {
+    test('detects the version of unversioned data', () => {
+        expect(settingsDataVersion({ maxHeadingLevel: 2 })).toBe(1);
+        expect(settingsDataVersion({ profiles: [{ name: 'A', removeEmptyLines: true }] })).toBe(1);
+        expect(settingsDataVersion({ htmlSteps: [], markdownSteps: [] })).toBe(2);
+        expect(settingsDataVersion({ pasteOverride: false })).toBe(2);
+        expect(settingsDataVersion({ settingsVersion: 7 })).toBe(7);
+    });
+
+    test('migrates version 1 data, keeping unrelated properties', () => {
+        const migrated = migrateSettingsData({ pasteOverride: false, stripLineBreaks: true, profiles: [{ name: 'A', maxHeadingLevel: 3 }] });
+        expect(migrated.settingsVersion).toBe(SETTINGS_VERSION);
+        expect(migrated.pasteOverride).toBe(false);
+        expect(migrated).not.toHaveProperty('stripLineBreaks');
+        const loaded = loadSettingsData(migrated);
+        expect(loaded.htmlSteps.find(step => step.type === 'strip-line-breaks')?.enabled).toBe(true);
+        expect(loaded.profiles[0].name).toBe('A');
+        expect(loaded.profiles[0].markdownSteps.find(step => step.type === 'headings')?.options).toMatchObject({ maxHeadingLevel: 3 });
+    });
+
+    test('adds the Google Docs, Office cleanup, callouts, code blocks, math and footnotes steps to version 2 pipelines', () => {
+        const migrated = migrateSettingsData({
+            htmlSteps: [createStep('images'), createStep('html-regex')],
+            markdownSteps: [],
+            profiles: [{ name: 'A', matchRules: [], htmlSteps: [], markdownSteps: [] }]
+        });
+        const loaded = loadSettingsData(migrated);
+        expect(loaded.htmlSteps.map(step => step.type)).toEqual(['images', 'html-regex', 'google-docs', 'office', 'callouts', 'code-blocks', 'math', 'footnotes']);
+        expect(loaded.profiles[0].htmlSteps.map(step => step.type)).toEqual(['google-docs', 'office', 'callouts', 'code-blocks', 'math', 'footnotes']);
+        expect(migrateSettingsData({ settingsVersion: 2, pasteOverride: false })).not.toHaveProperty('htmlSteps');
+    });
+
+    test('adds the lists and plain text detection steps to version 4 pipelines', () => {
+        const migrated = migrateSettingsData({
+            settingsVersion: 4,
+            htmlSteps: [],
+            markdownSteps: [createStep('links'), createStep('headings'), createStep('single-spaced')]
+        });
+        const { markdownSteps } = loadSettingsData(migrated);
+        expect(markdownSteps.map(step => step.type)).toEqual(['plain-text', 'links', 'headings', 'lists', 'single-spaced']);
+        expect(markdownSteps[3]).toEqual(createStep('lists'));
+    });
+
+    test('refuses to migrate data from a newer version', () => {
+        expect(() => migrateSettingsData({ settingsVersion: SETTINGS_VERSION + 1 })).toThrow(/newer version/);
+    });
+
+    test('loads data from a newer version without migrating it', () => {
+        const loaded = loadSettingsData({ settingsVersion: SETTINGS_VERSION + 1, htmlSteps: [], markdownSteps: [], pasteOverride: false });
+        expect(loaded.settingsVersion).toBe(SETTINGS_VERSION + 1);
+        expect(loaded.pasteOverride).toBe(false);
+    });
+
+    test('fills in missing step options and keeps unknown steps', () => {
+        const loaded = loadSettingsData({
+            settingsVersion: SETTINGS_VERSION,
+            htmlSteps: [{ type: 'images', enabled: true }, { type: 'future-step', enabled: true, options: { x: 1 } }],
+            markdownSteps: []
+        });
+        expect(loaded.htmlSteps).toEqual([
+            { type: 'images', enabled: true, options: { handling: 'keep' } },
+            { type: 'future-step', enabled: true, options: { x: 1 } }
+        ]);
+    });
+
+    test('ignores saved values of the wrong type', () => {
+        const loaded = loadSettingsData({
+            settingsVersion: SETTINGS_VERSION,
+            pasteOverride: 'no',
+            htmlSteps: [null, { type: 'images', options: 'keep' }],
+            markdownSteps: [],
+            profiles: [null, { name: 3, matchRules: [{ type: 'html' }, { type: 'html', pattern: 'x' }] }],
+            folderOverrides: [{ folder: 'A', overrides: { 'headings.maxHeadingLevel': 3, 'lists.enabled': [] } }]
+        });
+        expect(loaded.pasteOverride).toBe(true);
+        expect(loaded.htmlSteps).toEqual([createStep('images')]);
+        expect(loaded.profiles.map(profile => [profile.name, profile.matchRules])).toEqual([['Profile', []], ['Profile', [{ type: 'html', pattern: 'x' }]]]);
+        expect(loaded.folderOverrides).toEqual([{ folder: 'A', overrides: { 'headings.maxHeadingLevel': 3 } }]);
+        expect(migrateSettingsData({ stripLineBreaks: 'yes', maxHeadingLevel: 3 })).toMatchObject({ htmlSteps: expect.arrayContaining([{ type: 'strip-line-breaks', enabled: false, options: {} }]) });
+    });
+
+    test('saves the current version', () => {
+        expect(loadSettingsData(null).settingsVersion).toBe(SETTINGS_VERSION);
+        expect(DEFAULT_SETTINGS.settingsVersion).toBe(SETTINGS_VERSION);
+    });
+});
+
+describe('settings import and export', () => {
+    test('round-trips all settings', () => {
+        const original = settings();
+        const target = loadSettingsData(null);
+        expect(importSettings(target, exportSettings(original, 'all', original), target)).toBe('all');
+        expect(target).toEqual(original);
+    });
+
+    test('exports and imports the pipelines of a profile', () => {
+        const original = settings();
+        const json = exportSettings(original, 'markdown', original);
+        expect(JSON.parse(json).settings).toEqual({ markdownSteps: original.markdownSteps, settingsVersion: SETTINGS_VERSION });
+
+        const target = settings();
+        importSettings(target, json, target.profiles[0]);
+        expect(target.profiles[0].markdownSteps).toEqual(original.markdownSteps);
+        expect(target.profiles[0].htmlSteps).toEqual([]);
+        expect(target.markdownSteps).toEqual(original.markdownSteps);
+    });
+
+    test('imported profiles replace profiles with the same name', () => {
+        const source = settings();
+        source.profiles.push({ name: 'Notion', matchRules: [], htmlSteps: [], markdownSteps: [] });
+        source.profiles[0].htmlSteps = defaultHTMLSteps();
+
+        const target = settings();
+        importSettings(target, exportSettings(source, 'profiles', source), target);
+        expect(target.profiles.map(profile => profile.name)).toEqual(['Docs', 'Notion']);
+        expect(target.profiles[0].htmlSteps).toEqual(defaultHTMLSteps());
+    });
+
+    test('imports general settings only', () => {
+        const target = settings();
+        importSettings(target, JSON.stringify({ format: 'paste-reformatter-settings', section: 'general', settings: { pasteOverride: true, escapedSyntax: ['tags', 'future'], folderOverrides: [{ folder: 'Meetings', overrides: { 'headings.maxHeadingLevel': 3 } }, {}] } }), target);
+        expect(target.pasteOverride).toBe(true);
+        expect(target.showPasteNotifications).toBe(true);
+        expect(target.escapedSyntax).toEqual(['tags']);
+        expect(target.folderOverrides).toEqual([{ folder: 'Meetings', overrides: { 'headings.maxHeadingLevel': 3 } }]);
+        expect(target.htmlSteps).toEqual([createStep('html-regex')]);
+    });
+
+    test('migrates files exported with an earlier settings version', () => {
+        const target = settings();
+        importSettings(target, JSON.stringify({
+            format: 'paste-reformatter-settings',
+            section: 'all',
+            settings: { settingsVersion: 1, normalizeTables: true }
+        }), target);
+        expect(target.htmlSteps.find(step => step.type === 'normalize-tables')?.enabled).toBe(true);
+        expect(target.profiles).toEqual([]);
+    });
+
+    test('rejects files that are not settings exports', () => {
+        const target = settings();
+        expect(() => importSettings(target, '{', target)).toThrow(/not valid JSON/);
+        expect(() => importSettings(target, '{"section": "all", "settings": {}}', target)).toThrow(/not a Paste Reformatter settings export/);
+        expect(() => importSettings(target, JSON.stringify({
+            format: 'paste-reformatter-settings', section: 'all', settings: { settingsVersion: SETTINGS_VERSION + 1 }
+        }), target)).toThrow(/newer version/);
+        expect(target).toEqual(settings());
+    });
+});
+
+describe('presets', () => {
+    test.each(PRESETS.map(preset => ({ name: preset.name, preset })))('$name creates independent working pipelines', ({ preset }) => {
+        const options = preset.options();
+        expect(options).not.toBe(preset.options());
+        expect(options.htmlSteps[0]).not.toBe(preset.options().htmlSteps[0]);
+        expect(() => transformHTML('<nav>Menu</nav><p style="color: red"><span>Text</span></p>', options)).not.toThrow();
+    });
+
+    test('web article cleanup removes page furniture', () => {
+        const preset = PRESETS.find(p => p.name === 'Web article cleanup')!;
+        const result = transformHTML('<nav>Menu</nav><div class="share-bar">Share</div><p>Text</p>', preset.options());
+        expect(result.html).not.toContain('Menu');
+        expect(result.html).not.toContain('Share');
+        expect(result.html).toContain('<p>Text</p>');
+    });
+
+    test('Docs cleanup removes the Google Docs wrapper and styles', () => {
+        const preset = PRESETS.find(p => p.name === 'Docs cleanup')!;
+        const result = transformHTML('<b style="font-weight:normal;" id="docs-internal-guid-1"><p dir="ltr"><span style="x">Text</span></p></b>', preset.options());
+        expect(result.html).toContain('<p>Text</p>');
+        expect(result.html).not.toContain('docs-internal-guid');
+    });
+});
@@ -0,0 +1,13 @@
+// Paste Reformatter - A plugin that re-formats pasted HTML text in Obsidian.
+// Copyright (C) 2025 by Keath Milligan.
+
+// The transformers log every step; keep the test output readable
+beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+});
+
+afterEach(() => {
+    jest.restoreAllMocks();
+});
+
+export {};
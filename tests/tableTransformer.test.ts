@@ -0,0 +1,58 @@
+// Paste Reformatter - A plugin that re-formats pasted HTML text in Obsidian.
+// Copyright (C) 2025 by Keath Milligan.
+
+import { restoreTokens } from '../src/conversionTokens';
+import { normalizeTables, TableFallback } from '../src/tableTransformer';
+
+function normalize(html: string, fallback: TableFallback = 'html'): { body: HTMLElement, tokens: string[], changed: boolean } {
+    const doc = new DOMParser().parseFromString(html, 'text/html');
+    const tokens: string[] = [];
+    const changed = normalizeTables(doc, fallback, tokens);
+    return { body: doc.body, tokens, changed };
+}
+
+function cellText(body: HTMLElement, tokens: string[]): string[][] {
+    return Array.from(body.querySelectorAll('tr')).map(row =>
+        Array.from(row.children).map(cell => restoreTokens(cell.textContent ?? '', tokens)));
+}
+
+describe('normalizeTables', () => {
+    test('reports no change when there are no tables', () => {
+        expect(normalize('<p>text</p>').changed).toBe(false);
+    });
+
+    test('expands row and column spans and pads rows', () => {
+        const { body, tokens } = normalize(
+            '<table><tr><td rowspan="2">a</td><td colspan="2">b</td></tr><tr><td>c</td></tr><tr><td>d</td></tr></table>');
+        expect(cellText(body, tokens)).toEqual([
+            ['a', 'b', ''],
+            ['', 'c', ''],
+            ['d', '', '']
+        ]);
+        expect(body.querySelectorAll('thead th')).toHaveLength(3);
+    });
+
+    test('keeps line breaks and lists inside cells on one line', () => {
+        const { body, tokens } = normalize(
+            '<table><tr><th>h</th></tr><tr><td>one<br>two<ul><li>x</li><li>y</li></ul></td></tr></table>');
+        expect(cellText(body, tokens)[1]).toEqual(['one<br>two<br>• x<br>• y']);
+    });
+
+    test('escapes pipes in cells', () => {
+        const { body, tokens } = normalize('<table><tr><th>a | b</th></tr></table>');
+        expect(cellText(body, tokens)[0]).toEqual(['a \\| b']);
+    });
+
+    test('keeps tables with nested tables as single-line HTML', () => {
+        const { body, tokens } = normalize('<table class="x">\n<tr><td><table><tr><td>in</td></tr></table></td></tr></table>');
+        expect(body.querySelector('table')).toBeNull();
+        expect(restoreTokens(body.textContent ?? '', tokens))
+            .toBe('<table><tbody><tr><td><table><tbody><tr><td>in</td></tr></tbody></table></td></tr></tbody></table>');
+    });
+
+    test('converts unrepresentable tables into lists of rows', () => {
+        const { body } = normalize('<table><tr><th>Name</th><th>Code</th></tr><tr><td>a</td><td><pre>x</pre></td></tr></table>', 'list');
+        expect(body.querySelector('table')).toBeNull();
+        expect(body.querySelector('ul > li')?.textContent).toBe('aCode: x');
+    });
+});
@@ -0,0 +1,52 @@
+// Paste Reformatter - A plugin that re-formats pasted HTML text in Obsidian.
+// Copyright (C) 2025 by Keath Milligan.
+
+import { MarkdownStep, createStep } from '../src/pipeline';
+import { lastHeadingLevel, reformatText, splitFrontmatter } from '../src/textReformatter';
+
+const headings = (maxHeadingLevel: number, contextualCascade: boolean): MarkdownStep =>
+    ({ ...createStep('headings'), options: { ...createStep('headings').options, maxHeadingLevel, cascadeHeadingLevels: true, contextualCascade } });
+
+describe('splitFrontmatter', () => {
+    test('splits frontmatter off the start of a note', () => {
+        expect(splitFrontmatter('---\ntitle: A\n---\n# B')).toEqual({ frontmatter: '---\ntitle: A\n---\n', body: '# B' });
+        expect(splitFrontmatter('---\n---\nText')).toEqual({ frontmatter: '---\n---\n', body: 'Text' });
+        expect(splitFrontmatter('---\r\na: 1\r\n---')).toEqual({ frontmatter: '---\r\na: 1\r\n---', body: '' });
+    });
+
+    test('ignores notes without frontmatter', () => {
+        expect(splitFrontmatter('Text\n---\nMore')).toEqual({ frontmatter: '', body: 'Text\n---\nMore' });
+        expect(splitFrontmatter('---\nnot closed')).toEqual({ frontmatter: '', body: '---\nnot closed' });
+    });
+});
+
+describe('lastHeadingLevel', () => {
+    test('finds the last heading, ignoring frontmatter and code', () => {
+        expect(lastHeadingLevel('# A\n## B\ntext\n')).toBe(2);
+        expect(lastHeadingLevel('## A\n```sh\n# comment\n```\n')).toBe(2);
+        expect(lastHeadingLevel('---\n# yaml comment\n---\ntext')).toBe(0);
+        expect(lastHeadingLevel('')).toBe(0);
+    });
+});
+
+describe('reformatText', () => {
+    test('leaves frontmatter and trailing line breaks unchanged', () => {
+        const note = '---\ntags: [a]\n---\n# Title\n\n\n\nText\n\n';
+        const result = reformatText(note, '', { markdownSteps: [headings(2, false), createStep('single-spaced')] });
+        expect(result).toEqual({ markdown: '---\ntags: [a]\n---\n## Title\n\nText\n\n', appliedTransformations: true });
+    });
+
+    test('cascades a selection below the heading it is in', () => {
+        const result = reformatText('# A\n## B', '# Note\n## Section\n\n', { markdownSteps: [headings(1, true)] });
+        expect(result.markdown).toBe('### A\n#### B');
+    });
+
+    test('only treats frontmatter at the start of the note as frontmatter', () => {
+        const result = reformatText('---\n# A\n---\n', 'Text\n', { markdownSteps: [headings(2, false)] });
+        expect(result.markdown).toBe('---\n## A\n---\n');
+    });
+
+    test('reports when nothing changed', () => {
+        expect(reformatText('Text\n', '', { markdownSteps: [headings(2, false)] })).toEqual({ markdown: 'Text\n', appliedTransformations: false });
+    });
+});